@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { ApprovalStep, UserRole } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import { loadApprovalChain, saveApprovalChain, validateApprovalChain } from '../services/policyApproval';
+
+const ROLES: UserRole[] = ['Analyst', 'Compliance Officer', 'Admin'];
+
+const emptyStep: ApprovalStep = { id: '', name: '', approverRoles: ['Compliance Officer'], sameDepartment: false };
+
+// Who approves policy drafts, in order. Drafts already under review keep the chain they were submitted with.
+const ApprovalChainModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { currentUser, can } = useCurrentUser();
+    const { showToast } = useNotifications();
+    const [steps, setSteps] = useState<ApprovalStep[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const canManage = can('manageApprovalChain');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setError(null);
+        loadApprovalChain().then(setSteps).catch(err => setError(err instanceof Error ? err.message : String(err)));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const updateStep = (index: number, changes: Partial<ApprovalStep>) =>
+        setSteps(prev => prev.map((step, i) => i === index ? { ...step, ...changes } : step));
+
+    const moveStep = (index: number, offset: number) => setSteps(prev => {
+        const next = [...prev];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        return next;
+    });
+
+    const toggleRole = (index: number, role: UserRole) => {
+        const roles = steps[index].approverRoles;
+        updateStep(index, { approverRoles: roles.includes(role) ? roles.filter(other => other !== role) : [...roles, role] });
+    };
+
+    const handleSave = async () => {
+        const problems = validateApprovalChain(steps);
+        if (problems.length > 0) {
+            setError(problems.join(' '));
+            return;
+        }
+        setIsSaving(true);
+        try {
+            setSteps((await saveApprovalChain(steps, currentUser.name)).steps);
+            setError(null);
+            showToast('Approval chain saved.', 'success');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-3xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Policy Approval Chain</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300">
+                    <p className="text-sm text-gray-400">
+                        Steps are decided in order and a draft becomes Active when the last one approves. If the person submitting
+                        may decide the first step, submitting counts as their approval. Nobody can decide two steps of the same round.
+                    </p>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                    <ol className="space-y-3">
+                        {steps.map((step, index) => (
+                            <li key={step.id || `new-${index}`} className="bg-gray-700/30 p-3 rounded space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-gray-500 w-5 text-right">{index + 1}.</span>
+                                    <input
+                                        value={step.name}
+                                        onChange={e => updateStep(index, { name: e.target.value })}
+                                        disabled={!canManage}
+                                        placeholder="Step name, e.g. Department Head"
+                                        className="flex-1 bg-gray-700/50 p-2 rounded text-white text-sm disabled:opacity-70"
+                                    />
+                                    {canManage && (
+                                        <>
+                                            <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Move up">&uarr;</button>
+                                            <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="px-2 text-gray-400 hover:text-white disabled:opacity-30" title="Move down">&darr;</button>
+                                            <button onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))} className="px-2 text-red-400 hover:text-red-300 text-sm">Remove</button>
+                                        </>
+                                    )}
+                                </div>
+                                <div className="flex flex-wrap items-center gap-4 pl-7 text-sm">
+                                    <span className="text-gray-400">Decided by:</span>
+                                    {ROLES.map(role => (
+                                        <label key={role} className="inline-flex items-center gap-1">
+                                            <input type="checkbox" checked={step.approverRoles.includes(role)} onChange={() => toggleRole(index, role)} disabled={!canManage} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                            {role}
+                                        </label>
+                                    ))}
+                                    <label className="inline-flex items-center gap-1">
+                                        <input type="checkbox" checked={step.sameDepartment} onChange={e => updateStep(index, { sameDepartment: e.target.checked })} disabled={!canManage} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                        From the policy's department
+                                    </label>
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+
+                    <div className="flex justify-between pt-4 border-t border-gray-700">
+                        {canManage ? (
+                            <button onClick={() => setSteps(prev => [...prev, emptyStep])} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm">Add Step</button>
+                        ) : (
+                            <p className="text-sm text-gray-400">Only admins can change the approval chain.</p>
+                        )}
+                        <div className="flex gap-2">
+                            <button onClick={onClose} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700 text-sm">Close</button>
+                            {canManage && <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm disabled:opacity-50">{isSaving ? 'Saving...' : 'Save Chain'}</button>}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ApprovalChainModal;
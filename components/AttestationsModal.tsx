@@ -0,0 +1,367 @@
+import React, { useMemo, useState } from 'react';
+import { AttestationAudience, AttestationCampaign, RecordLink, UserRole } from '../types';
+import { useData } from '../context/DataContext';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import {
+    acknowledgeAttestation, AssignmentStatus, attestationEvidenceCsv, attestationReport, attestationReportCsv, AttestationChange,
+    assignmentStatus, closeCampaign, completionRate, describeAudience, emptyAudience, launchCampaign, pendingAttestationsFor,
+    recordReminders, resolveAudience
+} from '../services/attestations';
+import { policiesInForceOn } from '../services/policyRevisions';
+import { attestationReminder } from '../services/reminderEngine';
+import { addDays, format, parseISO } from '../utils/dateUtils';
+import { downloadFile } from '../utils/exportUtils';
+
+const ROLES: UserRole[] = ['Viewer', 'Analyst', 'Compliance Officer', 'Admin'];
+
+const statusColors: Record<AssignmentStatus, string> = {
+    'Acknowledged': 'text-green-400',
+    'Acknowledged Late': 'text-yellow-400',
+    'Outstanding': 'text-gray-300',
+    'Overdue': 'text-red-400',
+};
+
+type Tab = 'mine' | 'campaigns' | 'report' | 'launch';
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const ProgressBar: React.FC<{ rate: number }> = ({ rate }) => (
+    <div className="w-32 h-2 bg-gray-700 rounded">
+        <div className={`h-2 rounded ${rate >= 1 ? 'bg-green-500' : 'bg-cyan-500'}`} style={{ width: percent(rate) }} />
+    </div>
+);
+
+// Policy attestation campaigns: acknowledging your own, following up on everyone else's, and
+// completion reporting with CSV evidence for auditors. The rules live in services/attestations.
+const AttestationsModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { attestationCampaigns, policies, policyRevisions, actions } = useData();
+    const { currentUser, users, can } = useCurrentUser();
+    const { showToast, openLink, sendReminder } = useNotifications();
+    const [tab, setTab] = useState<Tab>('mine');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [draft, setDraft] = useState({ policyId: '', name: '', dueDate: format(addDays(new Date(), 30), 'yyyy-MM-dd') });
+    const [audience, setAudience] = useState<AttestationAudience>(emptyAudience);
+    const canManage = can('manageAttestations');
+
+    const mine = useMemo(() => pendingAttestationsFor(attestationCampaigns, currentUser), [attestationCampaigns, currentUser]);
+    const campaigns = useMemo(() => [...attestationCampaigns].sort((a, b) => b.launchedDate.localeCompare(a.launchedDate)), [attestationCampaigns]);
+    const report = useMemo(() => attestationReport(attestationCampaigns), [attestationCampaigns]);
+    // Policies being revised are listed as their version in force.
+    const inForcePolicies = useMemo(() => policiesInForceOn(policies, policyRevisions).sort((a, b) => a.name.localeCompare(b.name)), [policies, policyRevisions]);
+    const departments = useMemo(() => [...new Set(users.map(user => user.department))].sort(), [users]);
+    const selected = campaigns.find(campaign => campaign.id === selectedId);
+    const selectedPolicy = selected && inForcePolicies.find(pol => pol.id === selected.policyId);
+
+    if (!isOpen) return null;
+
+    const goTo = (link: RecordLink) => {
+        openLink(link);
+        onClose();
+    };
+
+    const save = async (build: () => AttestationChange, isNew = false) => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            const { campaign, auditAction, auditDetails } = build();
+            if (isNew) await actions.add('attestationCampaigns', campaign, { auditAction, auditDetails });
+            else await actions.update('attestationCampaigns', campaign, { auditAction, auditDetails });
+            showToast(`${auditAction}.`, 'success');
+            return campaign;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+            return undefined;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleLaunch = async () => {
+        const policy = policies.find(pol => pol.id === draft.policyId);
+        if (!policy) {
+            setError('Choose the policy to attest to.');
+            return;
+        }
+        const launched = await save(() => launchCampaign(policy, policyRevisions, draft.name, audience, new Date(`${draft.dueDate}T23:59:59`).toISOString(), users, currentUser), true);
+        if (!launched) return;
+        setDraft(prev => ({ ...prev, policyId: '', name: '' }));
+        setAudience(emptyAudience());
+        setSelectedId(launched.id);
+        setTab('campaigns');
+    };
+
+    // Each outstanding person gets the reminder through their own channels; only those it reached are recorded.
+    const handleRemind = async (campaign: AttestationCampaign) => {
+        setError(null);
+        setIsSaving(true);
+        const reached: string[] = [];
+        const missed: string[] = [];
+        for (const assignment of campaign.assignments.filter(entry => !entry.acknowledgedDate)) {
+            const user = users.find(candidate => candidate.id === assignment.userId);
+            try {
+                if (!user) throw new Error('no longer in the directory');
+                const delivery = await sendReminder(user, [attestationReminder(campaign, user)]);
+                if (delivery.delivered.length === 0) throw new Error('no channel accepted it');
+                reached.push(assignment.userId);
+            } catch (err) {
+                missed.push(`${assignment.userName} (${err instanceof Error ? err.message : String(err)})`);
+            }
+        }
+        setIsSaving(false);
+        if (reached.length > 0) await save(() => recordReminders(campaign, reached, currentUser));
+        if (missed.length > 0) setError(`Could not remind ${missed.join(', ')}.`);
+    };
+
+    const handleClose = (campaign: AttestationCampaign) => {
+        if (window.confirm(`Close "${campaign.name}"? People who have not acknowledged can no longer do so in this campaign.`)) {
+            save(() => closeCampaign(campaign, currentUser));
+        }
+    };
+
+    const exportEvidence = (selection: AttestationCampaign[], name: string) =>
+        downloadFile(`${name}-${format(new Date(), 'yyyy-MM-dd')}.csv`, attestationEvidenceCsv(selection), 'text/csv;charset=utf-8');
+
+    const toggle = <K extends keyof AttestationAudience>(key: K, value: AttestationAudience[K][number]) => setAudience(prev => {
+        const values = prev[key] as string[];
+        return { ...prev, [key]: values.includes(value) ? values.filter(other => other !== value) : [...values, value] };
+    });
+    const matched = resolveAudience(users, audience);
+
+    const tabButton = (id: Tab, label: string) => (
+        <button onClick={() => { setTab(id); setError(null); }} className={`px-4 py-2 rounded text-sm ${tab === id ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>{label}</button>
+    );
+
+    const reportTable = (rows: typeof report.byPolicy, groupLabel: string, file: string) => (
+        <div className="space-y-2">
+            <div className="flex justify-between items-center">
+                <h4 className="text-white font-semibold">By {groupLabel}</h4>
+                <button onClick={() => downloadFile(`${file}-${format(new Date(), 'yyyy-MM-dd')}.csv`, attestationReportCsv(rows, groupLabel), 'text/csv;charset=utf-8')} className="text-sm text-indigo-400 hover:text-indigo-300">Export CSV</button>
+            </div>
+            <table className="w-full text-sm">
+                <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                    <tr>
+                        <th className="px-3 py-2 text-left">{groupLabel}</th>
+                        <th className="px-3 py-2 text-right">Campaigns</th>
+                        <th className="px-3 py-2 text-right">Acknowledged</th>
+                        <th className="px-3 py-2 text-right">Late</th>
+                        <th className="px-3 py-2 text-right">Overdue</th>
+                        <th className="px-3 py-2 text-left">Completion</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.key} className="border-b border-gray-700">
+                            <td className="px-3 py-2 text-white">{row.label}</td>
+                            <td className="px-3 py-2 text-right">{row.campaigns}</td>
+                            <td className="px-3 py-2 text-right">{row.acknowledged} / {row.assigned}</td>
+                            <td className="px-3 py-2 text-right">{row.late}</td>
+                            <td className={`px-3 py-2 text-right ${row.overdue > 0 ? 'text-red-400' : ''}`}>{row.overdue}</td>
+                            <td className="px-3 py-2"><div className="flex items-center gap-2"><ProgressBar rate={row.rate} />{percent(row.rate)}</div></td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-5xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Policy Attestations</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300">
+                    <div className="flex flex-wrap gap-2">
+                        {tabButton('mine', `My Attestations (${mine.length})`)}
+                        {tabButton('campaigns', 'Campaigns')}
+                        {tabButton('report', 'Completion Report')}
+                        {canManage && tabButton('launch', 'New Campaign')}
+                    </div>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                    {tab === 'mine' && (mine.length === 0 ? (
+                        <p className="text-gray-400">Nothing is waiting for your acknowledgement.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {mine.map(campaign => (
+                                <li key={campaign.id} className="bg-gray-700/30 p-3 rounded flex flex-wrap justify-between items-center gap-3">
+                                    <div>
+                                        <button onClick={() => goTo({ type: 'policy', id: campaign.policyId })} className="text-cyan-400 hover:underline">{campaign.policyName}</button>
+                                        <span className="text-white"> version {campaign.policyVersion}</span>
+                                        <p className={`text-sm ${parseISO(campaign.dueDate) < new Date() ? 'text-red-400' : 'text-gray-400'}`}>
+                                            Due {format(parseISO(campaign.dueDate), 'MMM d, yyyy')} for "{campaign.name}", requested by {campaign.launchedBy}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => save(() => acknowledgeAttestation(campaign, currentUser))} disabled={isSaving} className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded text-sm disabled:opacity-50">
+                                        I have read and will comply with this version
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ))}
+
+                    {tab === 'campaigns' && (
+                        <div className="space-y-4">
+                            <div className="flex justify-end">
+                                <button onClick={() => exportEvidence(campaigns, 'attestation-evidence')} disabled={campaigns.length === 0} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50">Export All Evidence (CSV)</button>
+                            </div>
+                            {campaigns.length === 0 ? (
+                                <p className="text-gray-400">No attestation campaigns yet.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">Campaign</th>
+                                            <th className="px-3 py-2 text-left">Version</th>
+                                            <th className="px-3 py-2 text-left">Due</th>
+                                            <th className="px-3 py-2 text-left">Status</th>
+                                            <th className="px-3 py-2 text-left">Completion</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {campaigns.map(campaign => (
+                                            <tr key={campaign.id} onClick={() => setSelectedId(campaign.id === selectedId ? null : campaign.id)} className={`border-b border-gray-700 cursor-pointer hover:bg-gray-700/30 ${campaign.id === selectedId ? 'bg-gray-700/40' : ''}`}>
+                                                <td className="px-3 py-2 text-white">{campaign.name}</td>
+                                                <td className="px-3 py-2">{campaign.policyVersion}</td>
+                                                <td className="px-3 py-2">{format(parseISO(campaign.dueDate), 'MMM d, yyyy')}</td>
+                                                <td className={`px-3 py-2 ${campaign.status === 'Open' ? 'text-cyan-400' : 'text-gray-400'}`}>{campaign.status}</td>
+                                                <td className="px-3 py-2"><div className="flex items-center gap-2"><ProgressBar rate={completionRate([campaign])} />{percent(completionRate([campaign]))}</div></td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+
+                            {selected && (
+                                <div className="bg-gray-700/30 p-4 rounded space-y-3">
+                                    <div className="flex flex-wrap justify-between items-start gap-3">
+                                        <div className="text-sm space-y-1">
+                                            <p>
+                                                <button onClick={() => goTo({ type: 'policy', id: selected.policyId })} className="text-cyan-400 hover:underline">{selected.policyName}</button>
+                                                {' '}version {selected.policyVersion}, responsible department {selected.responsibleDepartment || 'not set'}
+                                            </p>
+                                            <p className="text-gray-400">
+                                                For {describeAudience(selected.audience, users)}. Launched by {selected.launchedBy} on {format(parseISO(selected.launchedDate), 'MMM d, yyyy')}
+                                                {selected.closedDate && `, closed ${format(parseISO(selected.closedDate), 'MMM d, yyyy')}`}.
+                                            </p>
+                                            {selectedPolicy && selectedPolicy.version !== selected.policyVersion && (
+                                                <p className="text-yellow-400">Version {selectedPolicy.version} is now in force; this campaign still asks for version {selected.policyVersion}.</p>
+                                            )}
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button onClick={() => exportEvidence([selected], `attestation-${selected.id}`)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm">Export CSV</button>
+                                            {canManage && selected.status === 'Open' && (
+                                                <>
+                                                    <button onClick={() => handleRemind(selected)} disabled={isSaving || selected.assignments.every(entry => entry.acknowledgedDate)} className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm disabled:opacity-50">Send Reminders</button>
+                                                    <button onClick={() => handleClose(selected)} disabled={isSaving} className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm disabled:opacity-50">Close Campaign</button>
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left">Person</th>
+                                                <th className="px-3 py-2 text-left">Department</th>
+                                                <th className="px-3 py-2 text-left">Status</th>
+                                                <th className="px-3 py-2 text-left">Acknowledged</th>
+                                                <th className="px-3 py-2 text-left">Reminders</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {selected.assignments.map(entry => {
+                                                const status = assignmentStatus(selected, entry);
+                                                const lastReminder = entry.remindersSent[entry.remindersSent.length - 1];
+                                                return (
+                                                    <tr key={entry.userId} className="border-b border-gray-700">
+                                                        <td className="px-3 py-2 text-white">{entry.userName}</td>
+                                                        <td className="px-3 py-2">{entry.department}</td>
+                                                        <td className={`px-3 py-2 ${statusColors[status]}`}>{status}</td>
+                                                        <td className="px-3 py-2">{entry.acknowledgedDate ? format(parseISO(entry.acknowledgedDate), 'MMM d, yyyy HH:mm') : '-'}</td>
+                                                        <td className="px-3 py-2">{entry.remindersSent.length === 0 ? '-' : `${entry.remindersSent.length}, last ${format(parseISO(lastReminder), 'MMM d, yyyy')}`}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {tab === 'report' && (attestationCampaigns.length === 0 ? (
+                        <p className="text-gray-400">No attestation campaigns yet.</p>
+                    ) : (
+                        <div className="space-y-6">
+                            <p className="text-sm text-gray-400">
+                                Across all campaigns, open and closed: {percent(completionRate(attestationCampaigns))} acknowledged. Departments are the
+                                policy's responsible department when the campaign was launched. Lowest completion first.
+                            </p>
+                            {reportTable(report.byPolicy, 'Policy', 'attestation-completion-by-policy')}
+                            {reportTable(report.byDepartment, 'Department', 'attestation-completion-by-department')}
+                        </div>
+                    ))}
+
+                    {tab === 'launch' && canManage && (
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <label className="block text-sm">Policy
+                                    <select value={draft.policyId} onChange={e => setDraft(prev => ({ ...prev, policyId: e.target.value }))} className="mt-1 w-full bg-gray-700/50 p-2 rounded text-white">
+                                        <option value="">Choose an active policy...</option>
+                                        {inForcePolicies.map(pol => <option key={pol.id} value={pol.id}>{pol.name} (v{pol.version})</option>)}
+                                    </select>
+                                </label>
+                                <label className="block text-sm">Due date
+                                    <input type="date" value={draft.dueDate} onChange={e => setDraft(prev => ({ ...prev, dueDate: e.target.value }))} className="mt-1 w-full bg-gray-700/50 p-2 rounded text-white" />
+                                </label>
+                                <label className="block text-sm md:col-span-2">Campaign name
+                                    <input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} placeholder="Defaults to the policy name and version" className="mt-1 w-full bg-gray-700/50 p-2 rounded text-white" />
+                                </label>
+                            </div>
+                            <div className="space-y-2 text-sm">
+                                <p className="text-gray-400">Who must acknowledge (anyone matching a department, a role or a name):</p>
+                                <div className="flex flex-wrap gap-4">
+                                    <span className="text-gray-400 w-24">Departments</span>
+                                    {departments.map(dept => (
+                                        <label key={dept} className="inline-flex items-center gap-1">
+                                            <input type="checkbox" checked={audience.departments.includes(dept)} onChange={() => toggle('departments', dept)} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                            {dept}
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-4">
+                                    <span className="text-gray-400 w-24">Roles</span>
+                                    {ROLES.map(role => (
+                                        <label key={role} className="inline-flex items-center gap-1">
+                                            <input type="checkbox" checked={audience.roles.includes(role)} onChange={() => toggle('roles', role)} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                            {role}
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-4">
+                                    <span className="text-gray-400 w-24">People</span>
+                                    {users.map(user => (
+                                        <label key={user.id} className="inline-flex items-center gap-1">
+                                            <input type="checkbox" checked={audience.userIds.includes(user.id)} onChange={() => toggle('userIds', user.id)} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                            {user.name}
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-gray-400">{matched.length} people: {matched.map(user => user.name).join(', ') || 'none yet'}</p>
+                            </div>
+                            <div className="flex justify-end pt-4 border-t border-gray-700">
+                                <button onClick={handleLaunch} disabled={isSaving || matched.length === 0} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm disabled:opacity-50">{isSaving ? 'Launching...' : 'Launch Campaign'}</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AttestationsModal;
@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AuditEntityType, AuditLogEntry } from '../types';
+import { auditLogger } from '../services/auditLog';
+import { ChainVerification } from '../utils/hashChain';
+import { downloadFile, toCsv } from '../utils/exportUtils';
+import { format, parseISO } from '../utils/dateUtils';
+
+const ENTITY_TYPES: AuditEntityType[] = ['License', 'CompliancePolicy', 'RegulatoryUpdate', 'ActionItem', 'ComplianceCheckResult', 'RiskAssessment', 'Jurisdiction', 'Regulator', 'AttestationCampaign', 'ApprovalChain', 'RegulatoryFeed'];
+const PAGE_SIZE = 25;
+
+const AuditExplorerModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [verification, setVerification] = useState<ChainVerification | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [searchTerm, setSearchTerm] = useState('');
+    const [entityTypeFilter, setEntityTypeFilter] = useState<AuditEntityType | 'All'>('All');
+    const [actionFilter, setActionFilter] = useState('All');
+    const [actorFilter, setActorFilter] = useState('All');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [currentPage, setCurrentPage] = useState(1);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const log = await auditLogger.list();
+            setEntries(log);
+            setVerification(await auditLogger.verify());
+        } catch (err) {
+            console.error("Failed to load audit log:", err);
+            setError('Failed to load the audit log.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) load();
+    }, [isOpen, load]);
+
+    const actions = useMemo(() => Array.from(new Set(entries.map(entry => entry.action))).sort(), [entries]);
+    const actors = useMemo(() => Array.from(new Set(entries.map(entry => entry.actor))).sort(), [entries]);
+
+    const filteredEntries = useMemo(() => {
+        const term = searchTerm.toLowerCase();
+        return entries
+            .filter(entry => entityTypeFilter === 'All' || entry.entityType === entityTypeFilter)
+            .filter(entry => actionFilter === 'All' || entry.action === actionFilter)
+            .filter(entry => actorFilter === 'All' || entry.actor === actorFilter)
+            .filter(entry => !fromDate || format(parseISO(entry.timestamp), 'yyyy-MM-dd') >= fromDate)
+            .filter(entry => !toDate || format(parseISO(entry.timestamp), 'yyyy-MM-dd') <= toDate)
+            .filter(entry => !term ||
+                entry.entityLabel.toLowerCase().includes(term) ||
+                entry.entityId.toLowerCase().includes(term) ||
+                entry.details.toLowerCase().includes(term) ||
+                entry.changes.some(change => `${change.field} ${change.before} ${change.after}`.toLowerCase().includes(term)))
+            .reverse(); // Newest first
+    }, [entries, searchTerm, entityTypeFilter, actionFilter, actorFilter, fromDate, toDate]);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [searchTerm, entityTypeFilter, actionFilter, actorFilter, fromDate, toDate]);
+
+    if (!isOpen) return null;
+
+    const totalPages = Math.max(1, Math.ceil(filteredEntries.length / PAGE_SIZE));
+    const pageEntries = filteredEntries.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+    const exportStamp = format(new Date(), 'yyyy-MM-dd');
+
+    // Exports always contain the full chain so examiners can re-verify the hashes independently.
+    const handleExportJson = () => {
+        const payload = { exportedAt: new Date().toISOString(), hashAlgorithm: 'SHA-256', verification, entries };
+        downloadFile(`audit-log-${exportStamp}.json`, JSON.stringify(payload, null, 2), 'application/json');
+    };
+
+    const handleExportCsv = () => {
+        const csv = toCsv(
+            ['Sequence', 'Timestamp', 'Entity Type', 'Entity ID', 'Entity', 'Parent ID', 'Action', 'Actor', 'Details', 'Changes', 'Previous Hash', 'Hash'],
+            entries.map(entry => [
+                entry.sequence, entry.timestamp, entry.entityType, entry.entityId, entry.entityLabel, entry.parentEntityId || '',
+                entry.action, entry.actor, entry.details,
+                entry.changes.map(change => `${change.field}: ${change.before} -> ${change.after}`).join('; '),
+                entry.previousHash, entry.hash,
+            ])
+        );
+        downloadFile(`audit-log-${exportStamp}.csv`, csv, 'text/csv');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-6xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Audit Log Explorer</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300">
+                    <div className="flex justify-between items-center flex-wrap gap-3">
+                        {verification && (
+                            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${verification.valid ? 'bg-green-600/30 text-green-400' : 'bg-red-600/30 text-red-400'}`}>
+                                {verification.valid
+                                    ? `Hash chain verified (${verification.checkedEntries} entries)`
+                                    : `Hash chain broken at entry #${verification.brokenAtSequence}: ${verification.reason}`}
+                            </span>
+                        )}
+                        <div className="flex gap-2">
+                            <button onClick={load} disabled={isLoading} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-sm disabled:opacity-50">{isLoading ? 'Loading...' : 'Refresh'}</button>
+                            <button onClick={handleExportJson} disabled={entries.length === 0} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded text-white text-sm disabled:opacity-50">Export JSON</button>
+                            <button onClick={handleExportCsv} disabled={entries.length === 0} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded text-white text-sm disabled:opacity-50">Export CSV</button>
+                        </div>
+                    </div>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+                        <input type="text" placeholder="Search records, fields, values..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="col-span-2 bg-gray-700/50 p-2 rounded text-white" />
+                        <select value={entityTypeFilter} onChange={e => setEntityTypeFilter(e.target.value as AuditEntityType | 'All')} className="bg-gray-700/50 p-2 rounded text-white">
+                            <option value="All">All Entities</option>
+                            {ENTITY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <select value={actionFilter} onChange={e => setActionFilter(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white">
+                            <option value="All">All Actions</option>
+                            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+                        </select>
+                        <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white">
+                            <option value="All">All Users</option>
+                            {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+                        </select>
+                        <div className="flex gap-1">
+                            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} title="From" className="w-1/2 bg-gray-700/50 p-2 rounded text-white" />
+                            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} title="To" className="w-1/2 bg-gray-700/50 p-2 rounded text-white" />
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto custom-scrollbar max-h-[55vh] overflow-y-auto">
+                        <table className="w-full text-sm">
+                            <thead className="text-xs text-gray-300 uppercase bg-gray-900/30">
+                                <tr>
+                                    <th className="px-3 py-2 text-left">#</th>
+                                    <th className="px-3 py-2 text-left">When</th>
+                                    <th className="px-3 py-2 text-left">Entity</th>
+                                    <th className="px-3 py-2 text-left">Action</th>
+                                    <th className="px-3 py-2 text-left">User</th>
+                                    <th className="px-3 py-2 text-left">Details</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pageEntries.length === 0 ? (
+                                    <tr><td colSpan={6} className="px-3 py-4 text-center text-gray-400">{entries.length === 0 ? 'No changes recorded yet.' : 'No audit entries match your filters.'}</td></tr>
+                                ) : (
+                                    pageEntries.map(entry => (
+                                        <React.Fragment key={entry.id}>
+                                            <tr onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="border-b border-gray-700 hover:bg-gray-700/30 cursor-pointer">
+                                                <td className="px-3 py-2 text-gray-400">{entry.sequence}</td>
+                                                <td className="px-3 py-2 whitespace-nowrap">{format(parseISO(entry.timestamp), 'MMM d, yyyy HH:mm')}</td>
+                                                <td className="px-3 py-2"><span className="text-gray-400 text-xs">{entry.entityType}</span><br /><span className="text-white">{entry.entityLabel}</span></td>
+                                                <td className="px-3 py-2 text-cyan-400">{entry.action}</td>
+                                                <td className="px-3 py-2">{entry.actor}</td>
+                                                <td className="px-3 py-2 text-gray-400">{entry.details}</td>
+                                            </tr>
+                                            {expandedId === entry.id && (
+                                                <tr className="bg-gray-900/40">
+                                                    <td colSpan={6} className="px-3 py-3 text-xs space-y-2">
+                                                        {entry.changes.length > 0 && (
+                                                            <ul className="space-y-1">
+                                                                {entry.changes.map(change => (
+                                                                    <li key={change.field} className="break-all">
+                                                                        <span className="text-gray-300 font-semibold">{change.field}:</span> <span className="text-red-300">{change.before}</span> &rarr; <span className="text-green-300">{change.after}</span>
+                                                                    </li>
+                                                                ))}
+                                                            </ul>
+                                                        )}
+                                                        <p className="text-gray-500 font-mono break-all">ID: {entry.entityId}{entry.parentEntityId ? ` (parent ${entry.parentEntityId})` : ''}</p>
+                                                        <p className="text-gray-500 font-mono break-all">Hash: {entry.hash}</p>
+                                                        <p className="text-gray-500 font-mono break-all">Previous: {entry.previousHash}</p>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                    {totalPages > 1 && (
+                        <div className="flex justify-center items-center space-x-2 text-sm">
+                            <button onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))} disabled={currentPage === 1} className="px-3 py-1 bg-gray-700 rounded text-white disabled:opacity-50">Previous</button>
+                            <span>Page {currentPage} of {totalPages}</span>
+                            <button onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))} disabled={currentPage === totalPages} className="px-3 py-1 bg-gray-700 rounded text-white disabled:opacity-50">Next</button>
+                        </div>
+                    )}
+                </div>
+                <div className="p-4 border-t border-gray-700 flex justify-end">
+                    <button onClick={onClose} className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AuditExplorerModal;
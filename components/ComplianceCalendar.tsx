@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useData } from '../context/DataContext';
+import {
+    buildCalendarEvents, calendarFeedConfig, calendarOwners, CalendarEvent, CalendarEventKind, filterCalendarEvents, publishCalendarFeed, toIcsEvent
+} from '../services/complianceCalendar';
+import { addDays, addMonths, format, isSameDay, parseISO, startOfMonth, startOfWeek } from '../utils/dateUtils';
+import { downloadFile, toIcsCalendar } from '../utils/exportUtils';
+
+const kindColors: Record<CalendarEventKind, string> = {
+    'License Expiry': 'bg-red-600/30 text-red-300',
+    'Renewal Reminder': 'bg-yellow-600/30 text-yellow-300',
+    'Policy Review': 'bg-indigo-600/30 text-indigo-300',
+    'Action Item Due': 'bg-cyan-600/30 text-cyan-300',
+    'Risk Review': 'bg-purple-600/30 text-purple-300',
+    'Regulatory Filing': 'bg-green-600/30 text-green-300',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MAX_EVENTS_PER_MONTH_DAY = 3;
+// Edits often come in bursts, e.g. reconciling statuses, so the feed is republished once they settle.
+const FEED_PUBLISH_DELAY_MS = 2000;
+
+// Month or week grid of every upcoming deadline. Clicking an entry hands it back to the parent,
+// which opens the details modal for the record it came from.
+const ComplianceCalendar: React.FC<{ onSelectEvent: (event: CalendarEvent) => void }> = ({ onSelectEvent }) => {
+    const { licenses, policies, regulatoryUpdates, riskAssessments, regulators, jurisdictions, isLoading } = useData();
+    const [view, setView] = useState<'month' | 'week'>('month');
+    const [cursor, setCursor] = useState(() => new Date());
+    const [jurisdictionId, setJurisdictionId] = useState('');
+    const [owner, setOwner] = useState('');
+    const [expandedDay, setExpandedDay] = useState<string | null>(null);
+    const [feedError, setFeedError] = useState<string | null>(null);
+
+    const allEvents = useMemo(
+        () => buildCalendarEvents({ licenses, policies, regulatoryUpdates, riskAssessments, regulators }),
+        [licenses, policies, regulatoryUpdates, riskAssessments, regulators]
+    );
+    const owners = useMemo(() => calendarOwners(allEvents), [allEvents]);
+
+    // Keeps the subscription feed in step with the data while the app is open.
+    useEffect(() => {
+        if (isLoading) return;
+        const timer = setTimeout(() => {
+            publishCalendarFeed(toIcsCalendar('Compliance Deadlines', allEvents.map(toIcsEvent)))
+                .then(() => setFeedError(null))
+                .catch(err => {
+                    console.error("Failed to publish the calendar feed:", err);
+                    setFeedError(err instanceof Error ? err.message : String(err));
+                });
+        }, FEED_PUBLISH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [allEvents, isLoading]);
+    const events = useMemo(() => filterCalendarEvents(allEvents, { jurisdictionId, owner }), [allEvents, jurisdictionId, owner]);
+
+    // Month view always shows six full weeks so the grid does not jump between months.
+    const days = useMemo(() => {
+        const first = view === 'month' ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+        return Array.from({ length: view === 'month' ? 42 : 7 }, (_, i) => addDays(first, i));
+    }, [view, cursor]);
+
+    const eventsByDay = useMemo(() => {
+        const byDay = new Map<string, CalendarEvent[]>();
+        events.forEach(event => {
+            const key = format(parseISO(event.date), 'yyyy-MM-dd');
+            byDay.set(key, [...(byDay.get(key) || []), event]);
+        });
+        return byDay;
+    }, [events]);
+
+    // Exports every event matching the filters, not just the ones in the visible range.
+    const handleExportIcs = () => {
+        const jurisdiction = jurisdictions.find(jur => jur.id === jurisdictionId);
+        const name = ['Compliance Deadlines', jurisdiction?.name, owner].filter(Boolean).join(' - ');
+        downloadFile(`compliance-deadlines-${format(new Date(), 'yyyy-MM-dd')}.ics`, toIcsCalendar(name, events.map(toIcsEvent)), 'text/calendar');
+    };
+
+    const step = (direction: 1 | -1) => setCursor(prev => view === 'month' ? addMonths(startOfMonth(prev), direction) : addDays(prev, 7 * direction));
+    const today = new Date();
+    const heading = view === 'month' ? format(cursor, 'MMM yyyy') : `Week of ${format(days[0], 'MMM d, yyyy')}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center flex-wrap gap-3">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => step(-1)} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">&larr;</button>
+                    <button onClick={() => setCursor(new Date())} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">Today</button>
+                    <button onClick={() => step(1)} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">&rarr;</button>
+                    <span className="ml-2 text-white font-semibold">{heading}</span>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                    <select value={jurisdictionId} onChange={e => setJurisdictionId(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white text-sm">
+                        <option value="">All Jurisdictions</option>
+                        {jurisdictions.map(jur => <option key={jur.id} value={jur.id}>{jur.name}</option>)}
+                    </select>
+                    <select value={owner} onChange={e => setOwner(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white text-sm">
+                        <option value="">All Owners / Assignees</option>
+                        {owners.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                    <button onClick={handleExportIcs} disabled={events.length === 0} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50">Export .ics</button>
+                    <div className="flex rounded overflow-hidden border border-gray-600 text-sm">
+                        {(['month', 'week'] as const).map(mode => (
+                            <button key={mode} onClick={() => setView(mode)} className={`px-3 py-1 capitalize ${view === mode ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{mode}</button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-400">
+                Subscribe to every deadline from your calendar app at{' '}
+                <a href={calendarFeedConfig.url} className="text-cyan-400 hover:underline break-all">{calendarFeedConfig.url}</a>.
+                {feedError && <span className="text-red-400"> The feed could not be updated ({feedError}); it shows the last published copy.</span>}
+            </p>
+
+            <div className="grid grid-cols-7 gap-px bg-gray-700 border border-gray-700 rounded overflow-hidden text-xs">
+                {WEEKDAYS.map(day => <div key={day} className="bg-gray-900/60 px-2 py-1 text-gray-400 font-semibold uppercase">{day}</div>)}
+                {days.map(day => {
+                    const key = format(day, 'yyyy-MM-dd');
+                    const dayEvents = eventsByDay.get(key) || [];
+                    const limit = view === 'month' && expandedDay !== key ? MAX_EVENTS_PER_MONTH_DAY : dayEvents.length;
+                    const outsideMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+                    return (
+                        <div key={key} className={`bg-gray-800 p-1 ${view === 'month' ? 'min-h-[6rem]' : 'min-h-[16rem]'} ${outsideMonth ? 'opacity-40' : ''}`}>
+                            <div className={`mb-1 text-right ${isSameDay(day, today) ? 'text-cyan-400 font-bold' : 'text-gray-400'}`}>
+                                {view === 'week' ? format(day, 'MMM d, yyyy') : day.getDate()}
+                            </div>
+                            <div className="space-y-1">
+                                {dayEvents.slice(0, limit).map(event => (
+                                    <button
+                                        key={event.id}
+                                        onClick={() => onSelectEvent(event)}
+                                        title={`${event.kind}: ${event.title}${event.owner ? ` (${event.owner})` : ''}`}
+                                        className={`block w-full text-left truncate px-1 py-0.5 rounded ${kindColors[event.kind]} hover:brightness-125`}
+                                    >
+                                        {event.title}
+                                    </button>
+                                ))}
+                                {dayEvents.length > limit && (
+                                    <button onClick={() => setExpandedDay(key)} className="text-gray-400 hover:text-white">+{dayEvents.length - limit} more</button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs">
+                {(Object.keys(kindColors) as CalendarEventKind[]).map(kind => (
+                    <span key={kind} className={`px-2 py-0.5 rounded ${kindColors[kind]}`}>{kind}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ComplianceCalendar;
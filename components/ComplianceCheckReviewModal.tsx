@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { ComplianceCheckResult } from '../types';
+import { ComplianceCheckReview } from '../services/complianceCheckService';
+import { format, parseISO } from '../utils/dateUtils';
+
+const RISK_LEVELS: ComplianceCheckResult['riskLevel'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+const ComplianceCheckReviewModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    check: ComplianceCheckResult | null;
+    // signOff=false only saves the annotations; the check stays Pending Review.
+    onSave: (check: ComplianceCheckResult, review: ComplianceCheckReview, signOff: boolean) => void;
+    isLoading: boolean;
+}> = ({ isOpen, onClose, check, onSave, isLoading }) => {
+    const [riskLevel, setRiskLevel] = useState<ComplianceCheckResult['riskLevel']>('Low');
+    const [licenses, setLicenses] = useState<string[]>([]);
+    const [newLicense, setNewLicense] = useState('');
+    const [notes, setNotes] = useState('');
+
+    useEffect(() => {
+        if (check) {
+            setRiskLevel(check.riskLevel);
+            setLicenses(check.suggestedLicenses);
+            setNotes(check.notes || '');
+            setNewLicense('');
+        }
+    }, [check]);
+
+    if (!isOpen || !check) return null;
+
+    const aiRiskLevel = check.assessment?.riskLevel || check.riskLevel;
+    const review: ComplianceCheckReview = { riskLevel, suggestedLicenses: licenses, notes };
+
+    const handleAddLicense = () => {
+        const value = newLicense.trim();
+        if (value && !licenses.includes(value)) setLicenses(prev => [...prev, value]);
+        setNewLicense('');
+    };
+
+    const handleSignOff = () => {
+        if (window.confirm('Sign off this compliance check? The reviewed risk level and licenses become final.')) {
+            onSave(check, review, true);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-4xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Review AI Compliance Check</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300 max-h-[80vh] overflow-y-auto custom-scrollbar">
+                    <div>
+                        <p className="text-white font-medium">{check.featureDescription}</p>
+                        <p className="text-xs text-gray-400">Checked {format(parseISO(check.checkDate), 'MMM d, yyyy HH:mm')}</p>
+                    </div>
+                    <div className="p-3 bg-yellow-600/10 border border-yellow-600/40 rounded text-sm text-yellow-300">
+                        Unreviewed AI draft. Nothing below is final until a compliance officer signs it off.
+                    </div>
+                    <div className="p-3 bg-gray-900/50 rounded text-sm whitespace-pre-line max-h-60 overflow-y-auto custom-scrollbar">
+                        <strong>AI Report:</strong><br />
+                        {check.aiReport}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-gray-300 text-sm font-bold mb-2">Risk Level (AI rated {aiRiskLevel}):</label>
+                            <select value={riskLevel} onChange={e => setRiskLevel(e.target.value as ComplianceCheckResult['riskLevel'])} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                                {RISK_LEVELS.map(level => <option key={level} value={level}>{level}{level === aiRiskLevel ? ' (AI)' : ''}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-gray-300 text-sm font-bold mb-2">Suggested Licenses:</label>
+                            {licenses.length === 0 ? (
+                                <p className="text-gray-400 text-sm mb-2">None.</p>
+                            ) : (
+                                <ul className="space-y-1 mb-2">
+                                    {licenses.map(lic => (
+                                        <li key={lic} className="flex justify-between items-center bg-gray-700/30 px-2 py-1 rounded text-sm">
+                                            <span>{lic}</span>
+                                            <button type="button" onClick={() => setLicenses(prev => prev.filter(item => item !== lic))} className="text-red-400 hover:text-red-500 text-xs">Remove</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <div className="flex gap-2">
+                                <input type="text" value={newLicense} onChange={e => setNewLicense(e.target.value)} placeholder="e.g., EMI Authorisation (Ireland)" className="flex-1 bg-gray-700/50 p-2 rounded text-white text-sm" />
+                                <button type="button" onClick={handleAddLicense} disabled={!newLicense.trim()} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-white text-sm disabled:opacity-50">Add</button>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-gray-300 text-sm font-bold mb-2">Reviewer Notes:</label>
+                        <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={4} className="w-full bg-gray-700/50 p-2 rounded text-white" placeholder="Corrections, caveats and the reasoning behind any override..." />
+                    </div>
+                </div>
+                <div className="p-4 border-t border-gray-700 flex justify-end space-x-4">
+                    <button onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
+                    <button onClick={() => onSave(check, review, false)} disabled={isLoading} className="px-6 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded disabled:opacity-50">Save Notes</button>
+                    <button onClick={handleSignOff} disabled={isLoading} className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded disabled:opacity-50">Sign Off</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ComplianceCheckReviewModal;
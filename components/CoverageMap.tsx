@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../context/DataContext';
+import { MapFeature, Position, worldMap } from '../data/worldMap';
+import { CoverageStatus, licenseCoverageStatus, regionCoverage, unmappedJurisdictions } from '../services/coverageMap';
+import { RecordLink } from '../types';
+import { format, parseISO } from '../utils/dateUtils';
+
+type Bounds = [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+
+const REGIONS: { name: string; bounds: Bounds }[] = [
+    { name: 'World', bounds: [-170, -57, 170, 75] },
+    { name: 'North America', bounds: [-170, 12, -50, 73] },
+    { name: 'South America', bounds: [-85, -57, -30, 13] },
+    { name: 'Europe', bounds: [-12, 35, 30, 60] },
+    { name: 'Asia-Pacific', bounds: [95, -45, 160, 12] },
+];
+
+const statusFill: Record<CoverageStatus, string> = {
+    'Active': 'fill-green-600',
+    'Pending Renewal': 'fill-yellow-500',
+    'Expired': 'fill-red-600',
+    'None': 'fill-gray-600',
+};
+
+const statusBadge: Record<CoverageStatus, string> = {
+    'Active': 'bg-green-600/30 text-green-300',
+    'Pending Renewal': 'bg-yellow-600/30 text-yellow-300',
+    'Expired': 'bg-red-600/30 text-red-300',
+    'None': 'bg-gray-600/30 text-gray-300',
+};
+
+// Features smaller than this (in degrees) also get a marker so they can still be found and clicked.
+const MARKER_THRESHOLD = 1.5;
+
+// Equirectangular projection: one SVG unit per degree, north up.
+const project = ([lon, lat]: Position): [number, number] => [lon + 180, 90 - lat];
+
+const ringsOf = (feature: MapFeature): Position[][] =>
+    feature.geometry.type === 'Polygon' ? feature.geometry.coordinates : feature.geometry.coordinates.flat();
+
+const pathOf = (feature: MapFeature): string =>
+    ringsOf(feature).map(ring => ring.map((point, i) => `${i === 0 ? 'M' : 'L'}${project(point).join(' ')}`).join(' ') + ' Z').join(' ');
+
+const boundsOf = (feature: MapFeature): Bounds => {
+    const points = ringsOf(feature).flat();
+    return [
+        Math.min(...points.map(p => p[0])), Math.min(...points.map(p => p[1])),
+        Math.max(...points.map(p => p[0])), Math.max(...points.map(p => p[1])),
+    ];
+};
+
+// Pads the area and keeps a minimum size so small countries are not blown up to fill the map.
+const viewBoxOf = ([minLon, minLat, maxLon, maxLat]: Bounds, pad = 0): string => {
+    const width = Math.max(maxLon - minLon + pad * 2, 24);
+    const height = Math.max(maxLat - minLat + pad * 2, 12);
+    const [x, y] = project([(minLon + maxLon) / 2 - width / 2, (minLat + maxLat) / 2 + height / 2]);
+    return `${x} ${y} ${width} ${height}`;
+};
+
+// Offline map of where we are licensed. Regions are colored by their best license; clicking one
+// zooms in and lists its licenses and open regulatory updates, which open in the parent's modals.
+const CoverageMap: React.FC<{ onOpenRecord: (link: RecordLink) => void }> = ({ onOpenRecord }) => {
+    const { licenses, jurisdictions, regulatoryUpdates } = useData();
+    const [viewBox, setViewBox] = useState(() => viewBoxOf(REGIONS[0].bounds));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+    const features = useMemo(() => worldMap.features.map(feature => {
+        const bounds = boundsOf(feature);
+        return {
+            feature,
+            bounds,
+            path: pathOf(feature),
+            isTiny: bounds[2] - bounds[0] < MARKER_THRESHOLD && bounds[3] - bounds[1] < MARKER_THRESHOLD,
+            coverage: regionCoverage(feature.id, { licenses, jurisdictions, regulatoryUpdates }),
+        };
+        // Countries first so their states are drawn on top.
+    }).sort((a, b) => Number(a.feature.id.includes('-')) - Number(b.feature.id.includes('-'))), [licenses, jurisdictions, regulatoryUpdates]);
+
+    const unmapped = useMemo(
+        () => unmappedJurisdictions(worldMap.features.map(feature => feature.id), { licenses, jurisdictions, regulatoryUpdates }),
+        [licenses, jurisdictions, regulatoryUpdates]
+    );
+
+    const selected = features.find(entry => entry.feature.id === selectedId);
+    const hovered = features.find(entry => entry.feature.id === hoveredId);
+    const markerRadius = Number(viewBox.split(' ')[2]) / 150;
+
+    const selectFeature = (id: string) => {
+        const entry = features.find(candidate => candidate.feature.id === id);
+        if (!entry) return;
+        setSelectedId(id);
+        setViewBox(viewBoxOf(entry.bounds, 4));
+    };
+
+    const showRegion = (bounds: Bounds) => {
+        setSelectedId(null);
+        setViewBox(viewBoxOf(bounds));
+    };
+
+    const fillOf = (entry: typeof features[number]) =>
+        entry.coverage.jurisdictions.length === 0 ? 'fill-gray-700' : statusFill[entry.coverage.status];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center flex-wrap gap-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                    {REGIONS.map(region => (
+                        <button key={region.name} onClick={() => showRegion(region.bounds)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">{region.name}</button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-gray-300 flex-wrap">
+                    {(Object.keys(statusFill) as CoverageStatus[]).map(status => (
+                        <span key={status} className="flex items-center gap-1">
+                            <svg width="12" height="12"><rect width="12" height="12" rx="2" className={statusFill[status]} /></svg>
+                            {status === 'None' ? 'No License' : status}
+                        </span>
+                    ))}
+                    <span className="flex items-center gap-1">
+                        <svg width="12" height="12"><rect width="12" height="12" rx="2" className="fill-gray-700" /></svg>
+                        Not in Registry
+                    </span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="lg:col-span-2 bg-gray-900/60 rounded-lg relative">
+                    <svg viewBox={viewBox} className="w-full h-96" role="img" aria-label="License coverage map">
+                        {features.map(entry => (
+                            <path
+                                key={entry.feature.id}
+                                d={entry.path}
+                                onClick={() => selectFeature(entry.feature.id)}
+                                onMouseEnter={() => setHoveredId(entry.feature.id)}
+                                onMouseLeave={() => setHoveredId(null)}
+                                className={`${fillOf(entry)} cursor-pointer hover:opacity-80 ${entry.feature.id === selectedId ? 'stroke-white' : 'stroke-gray-900'}`}
+                                strokeWidth={entry.feature.id === selectedId ? 2 : 0.75}
+                                vectorEffect="non-scaling-stroke"
+                            >
+                                <title>{entry.feature.properties.name}</title>
+                            </path>
+                        ))}
+                        {features.filter(entry => entry.isTiny).map(entry => {
+                            const [x, y] = project([(entry.bounds[0] + entry.bounds[2]) / 2, (entry.bounds[1] + entry.bounds[3]) / 2]);
+                            return (
+                                <circle
+                                    key={`${entry.feature.id}-marker`}
+                                    cx={x} cy={y} r={markerRadius}
+                                    onClick={() => selectFeature(entry.feature.id)}
+                                    onMouseEnter={() => setHoveredId(entry.feature.id)}
+                                    onMouseLeave={() => setHoveredId(null)}
+                                    className={`${fillOf(entry)} stroke-white cursor-pointer hover:opacity-80`}
+                                    strokeWidth={1}
+                                    vectorEffect="non-scaling-stroke"
+                                >
+                                    <title>{entry.feature.properties.name}</title>
+                                </circle>
+                            );
+                        })}
+                    </svg>
+                    {hovered && (
+                        <div className="absolute top-2 left-2 bg-gray-800/90 rounded px-2 py-1 text-xs text-white pointer-events-none">
+                            {hovered.feature.properties.name}: {hovered.coverage.jurisdictions.length === 0 ? 'not in the registry' : `${hovered.coverage.licenses.length} license(s), ${hovered.coverage.openUpdates.length} open update(s)`}
+                        </div>
+                    )}
+                </div>
+
+                <div className="bg-gray-700/30 rounded-lg p-4 text-sm max-h-96 overflow-y-auto">
+                    {!selected ? (
+                        <div className="space-y-3">
+                            <p className="text-gray-400">Select a country or state to see its licenses and open regulatory updates.</p>
+                            {unmapped.length > 0 && (
+                                <div>
+                                    <h4 className="text-gray-300 font-semibold mb-1">Not on the map</h4>
+                                    <ul className="space-y-1">
+                                        {unmapped.map(jur => {
+                                            const held = licenses.filter(lic => lic.jurisdictionId === jur.id);
+                                            return (
+                                                <li key={jur.id} className="flex justify-between gap-2">
+                                                    <span className="text-white">{jur.name}</span>
+                                                    <span className="text-gray-400">{held.length} license(s)</span>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div className="flex justify-between items-start gap-2">
+                                <div>
+                                    <h4 className="text-lg font-semibold text-white">{selected.feature.properties.name}</h4>
+                                    {selected.coverage.jurisdictions.length > 0 && (
+                                        <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs ${statusBadge[selected.coverage.status]}`}>
+                                            {selected.coverage.status === 'None' ? 'No License' : selected.coverage.status}
+                                        </span>
+                                    )}
+                                </div>
+                                <button onClick={() => showRegion(REGIONS[0].bounds)} className="text-gray-400 hover:text-white text-xs whitespace-nowrap">Back to World</button>
+                            </div>
+
+                            {selected.coverage.jurisdictions.length === 0 ? (
+                                <p className="text-gray-400">This country is not in the jurisdiction registry.</p>
+                            ) : (
+                                <>
+                                    <div>
+                                        <h5 className="text-gray-300 font-semibold mb-1">Licenses ({selected.coverage.licenses.length})</h5>
+                                        {selected.coverage.licenses.length === 0 ? (
+                                            <p className="text-gray-500">None held.</p>
+                                        ) : (
+                                            <ul className="space-y-1">
+                                                {selected.coverage.licenses.map(lic => (
+                                                    <li key={lic.id} className="flex justify-between items-center gap-2">
+                                                        <button onClick={() => onOpenRecord({ type: 'license', id: lic.id })} className="text-blue-400 hover:underline text-left">{lic.name}</button>
+                                                        <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${statusBadge[licenseCoverageStatus(lic)]}`}>{lic.status}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <h5 className="text-gray-300 font-semibold mb-1">Open Regulatory Updates ({selected.coverage.openUpdates.length})</h5>
+                                        {selected.coverage.openUpdates.length === 0 ? (
+                                            <p className="text-gray-500">Nothing outstanding.</p>
+                                        ) : (
+                                            <ul className="space-y-1">
+                                                {selected.coverage.openUpdates.map(upd => (
+                                                    <li key={upd.id}>
+                                                        <button onClick={() => onOpenRecord({ type: 'regulatoryUpdate', id: upd.id })} className="text-blue-400 hover:underline text-left">{upd.title}</button>
+                                                        <p className="text-xs text-gray-400">{upd.severity} &middot; {upd.status} &middot; {format(parseISO(upd.publicationDate), 'MMM d, yyyy')}</p>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CoverageMap;
@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import { Jurisdiction, JurisdictionHoliday, Regulator } from '../types';
+import { useData } from '../context/DataContext';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import {
+    assertJurisdictionDeletable, descendantsOf, findDanglingJurisdictionReferences, flattenTree, isInEEA, levelOf, validateJurisdiction
+} from '../services/jurisdictionRegistry';
+import { resolveRegulator } from '../services/regulatorDirectory';
+import { generateId } from '../utils/idUtils';
+
+const LEVELS: NonNullable<Jurisdiction['level']>[] = ['Supranational', 'Country', 'Subdivision'];
+
+const emptyJurisdiction = (): Jurisdiction => ({
+    id: '', name: '', countryCode: '', currency: '', isEEA: false, primaryRegulator: '', level: 'Country', holidays: [],
+});
+
+const JurisdictionForm: React.FC<{
+    jurisdiction: Jurisdiction;
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    onSubmit: (jurisdiction: Jurisdiction) => void;
+    onCancel: () => void;
+    isSaving: boolean;
+}> = ({ jurisdiction, jurisdictions, regulators, onSubmit, onCancel, isSaving }) => {
+    const [formState, setFormState] = useState<Jurisdiction>(jurisdiction);
+    const [newHoliday, setNewHoliday] = useState<JurisdictionHoliday>({ date: '', name: '' });
+
+    const primaryRegulator = resolveRegulator(regulators, formState.primaryRegulatorId);
+    const draft: Jurisdiction = {
+        ...formState,
+        name: formState.name.trim(),
+        countryCode: formState.countryCode.trim().toUpperCase(),
+        currency: formState.currency.trim().toUpperCase(),
+        subdivisionCode: formState.subdivisionCode?.trim().toUpperCase() || undefined,
+        parentId: formState.parentId || undefined,
+        primaryRegulatorId: primaryRegulator?.id,
+        primaryRegulator: primaryRegulator?.shortName || '',
+    };
+    const problems = validateJurisdiction(draft, jurisdictions);
+    // A jurisdiction cannot sit below itself or its own descendants, so those are left out of the parent list.
+    const below = new Set([formState.id, ...descendantsOf(jurisdictions, formState.id).map(jur => jur.id)]);
+    const parentOptions = flattenTree(jurisdictions).filter(({ jurisdiction: jur }) => !below.has(jur.id));
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormState(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleAddHoliday = () => {
+        if (!newHoliday.date || !newHoliday.name.trim()) return;
+        setFormState(prev => ({
+            ...prev,
+            holidays: [...(prev.holidays || []), { date: newHoliday.date, name: newHoliday.name.trim() }].sort((a, b) => a.date.localeCompare(b.date)),
+        }));
+        setNewHoliday({ date: '', name: '' });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (problems.length > 0) return;
+        onSubmit(draft);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-4 bg-gray-900/50 rounded border border-gray-700 space-y-4 text-sm">
+            <h4 className="text-lg font-semibold text-white">{jurisdiction.id ? `Edit ${jurisdiction.name}` : 'New Jurisdiction'}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Name:</label>
+                    <input type="text" name="name" value={formState.name} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Level:</label>
+                    <select name="level" value={levelOf(formState)} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                        {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Parent:</label>
+                    <select name="parentId" value={formState.parentId || ''} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                        <option value="">None (top level)</option>
+                        {parentOptions.map(({ jurisdiction: jur, depth }) => (
+                            <option key={jur.id} value={jur.id}>{'  '.repeat(depth)}{jur.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Country Code:</label>
+                    <input type="text" name="countryCode" value={formState.countryCode} onChange={handleChange} placeholder="US" className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Subdivision Code:</label>
+                    <input type="text" name="subdivisionCode" value={formState.subdivisionCode || ''} onChange={handleChange} placeholder="US-CA" className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Currency:</label>
+                    <input type="text" name="currency" value={formState.currency} onChange={handleChange} placeholder="USD" className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+            </div>
+            <div>
+                <label className="block text-gray-300 font-bold mb-1">Primary Regulator:</label>
+                <select name="primaryRegulatorId" value={formState.primaryRegulatorId || ''} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                    <option value="">Select Regulator</option>
+                    {[...regulators].sort((a, b) => a.shortName.localeCompare(b.shortName)).map(reg => (
+                        <option key={reg.id} value={reg.id}>{reg.shortName} - {reg.name}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Other regulators are linked from the regulator directory. Saving adds this jurisdiction to the primary regulator's coverage.</p>
+            </div>
+            <div>
+                <label className="block text-gray-300 font-bold mb-1">Public Holidays:</label>
+                {(formState.holidays || []).length === 0 ? (
+                    <p className="text-gray-400 mb-2">No holidays of its own.</p>
+                ) : (
+                    <ul className="mb-2 space-y-1">
+                        {(formState.holidays || []).map((holiday, index) => (
+                            <li key={`${holiday.date}-${index}`} className="flex justify-between items-center bg-gray-700/30 px-2 py-1 rounded">
+                                <span>{holiday.date} - {holiday.name}</span>
+                                <button type="button" onClick={() => setFormState(prev => ({ ...prev, holidays: (prev.holidays || []).filter((_, i) => i !== index) }))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex gap-2">
+                    <input type="date" value={newHoliday.date} onChange={e => setNewHoliday(prev => ({ ...prev, date: e.target.value }))} className="bg-gray-700/50 p-2 rounded text-white" />
+                    <input type="text" value={newHoliday.name} onChange={e => setNewHoliday(prev => ({ ...prev, name: e.target.value }))} placeholder="Holiday name" className="flex-1 bg-gray-700/50 p-2 rounded text-white" />
+                    <button type="button" onClick={handleAddHoliday} disabled={!newHoliday.date || !newHoliday.name.trim()} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50">Add</button>
+                </div>
+            </div>
+            {problems.length > 0 && (
+                <ul className="text-red-400 list-disc list-inside">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
+                <button type="submit" disabled={isSaving || problems.length > 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">Save</button>
+            </div>
+        </form>
+    );
+};
+
+// The jurisdiction registry: the tree every license, policy and regulatory update points into.
+// Deletes are refused while anything still references the jurisdiction.
+const JurisdictionRegistryModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+    const { jurisdictions, licenses, policies, regulatoryUpdates, regulators, actions } = useData();
+    const { currentUser, can } = useCurrentUser();
+    const { showToast } = useNotifications();
+    const [editing, setEditing] = useState<Jurisdiction | null>(null);
+    const [isSaving, setSaving] = useState(false);
+
+    const sources = { jurisdictions, licenses, policies, regulatoryUpdates, regulators };
+    const rows = useMemo(() => flattenTree(jurisdictions), [jurisdictions]);
+    const issues = useMemo(
+        () => findDanglingJurisdictionReferences({ jurisdictions, licenses, policies, regulatoryUpdates, regulators }),
+        [jurisdictions, licenses, policies, regulatoryUpdates, regulators]
+    );
+
+    if (!isOpen) return null;
+    const canManage = can('manageJurisdictions');
+
+    // Hiding the controls is not enough: the user can be switched while the modal is open.
+    const requireManage = (): boolean => {
+        if (can('manageJurisdictions')) return true;
+        showToast(`As ${currentUser.role} you cannot change the jurisdiction registry.`, 'error');
+        return false;
+    };
+
+    const handleSave = async (jurisdiction: Jurisdiction) => {
+        if (!requireManage()) return;
+        setSaving(true);
+        try {
+            const isNew = !jurisdiction.id;
+            const saved = isNew ? { ...jurisdiction, id: `JUR-${generateId()}` } : jurisdiction;
+            const next = isNew ? [...jurisdictions, saved] : jurisdictions.map(jur => jur.id === saved.id ? saved : jur);
+            // isEEA follows the hierarchy, so moving a jurisdiction can change it for everything below as well.
+            const withEEA = { ...saved, isEEA: isInEEA(next, saved) };
+            if (isNew) {
+                await actions.add('jurisdictions', withEEA);
+            } else {
+                await actions.update('jurisdictions', withEEA);
+            }
+            for (const jur of next.filter(other => other.id !== saved.id && other.isEEA !== isInEEA(next, other))) {
+                await actions.update('jurisdictions', { ...jur, isEEA: !jur.isEEA }, { auditAction: 'EEA Membership Recomputed' });
+            }
+            const primary = resolveRegulator(regulators, saved.primaryRegulatorId);
+            if (primary && !primary.jurisdictionIds.includes(saved.id)) {
+                await actions.update('regulators', { ...primary, jurisdictionIds: [...primary.jurisdictionIds, saved.id] });
+            }
+            showToast(`Jurisdiction "${saved.name}" saved.`, 'success');
+            setEditing(null);
+        } catch (err) {
+            console.error("Failed to save jurisdiction:", err);
+            showToast('Failed to save jurisdiction.', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (jurisdiction: Jurisdiction) => {
+        if (!requireManage()) return;
+        try {
+            assertJurisdictionDeletable(jurisdiction.id, sources);
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : String(err), 'error');
+            return;
+        }
+        if (!window.confirm(`Delete jurisdiction "${jurisdiction.name}"? This cannot be undone.`)) return;
+        setSaving(true);
+        try {
+            await actions.remove('jurisdictions', jurisdiction.id);
+            showToast(`Jurisdiction "${jurisdiction.name}" deleted.`, 'success');
+        } catch (err) {
+            console.error("Failed to delete jurisdiction:", err);
+            showToast('Failed to delete jurisdiction.', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-5xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Jurisdiction Registry</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-6 text-gray-300">
+                    {issues.length > 0 && (
+                        <div className="p-3 bg-red-900/30 border border-red-700 rounded text-sm">
+                            <h4 className="font-semibold text-red-300 mb-2">{issues.length} broken jurisdiction reference(s)</h4>
+                            <ul className="list-disc list-inside space-y-1">
+                                {issues.map(issue => (
+                                    <li key={`${issue.recordType}-${issue.recordId}`}>{issue.recordType} "{issue.label}" ({issue.recordId}): {issue.problem}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {editing && canManage ? (
+                        <JurisdictionForm
+                            key={editing.id || 'new'}
+                            jurisdiction={editing}
+                            jurisdictions={jurisdictions}
+                            regulators={regulators}
+                            onSubmit={handleSave}
+                            onCancel={() => setEditing(null)}
+                            isSaving={isSaving}
+                        />
+                    ) : canManage && (
+                        <button onClick={() => setEditing(emptyJurisdiction())} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm font-medium">Add Jurisdiction</button>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                <tr>
+                                    <th className="px-4 py-2">Name</th>
+                                    <th className="px-4 py-2">Level</th>
+                                    <th className="px-4 py-2">Code</th>
+                                    <th className="px-4 py-2">Currency</th>
+                                    <th className="px-4 py-2">Regulators</th>
+                                    <th className="px-4 py-2">Holidays</th>
+                                    <th className="px-4 py-2">EEA</th>
+                                    {canManage && <th className="px-4 py-2">Actions</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(({ jurisdiction: jur, depth }) => (
+                                    <tr key={jur.id} className="border-b border-gray-700 hover:bg-gray-800/50">
+                                        <td className="px-4 py-2 text-white" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>{jur.name}</td>
+                                        <td className="px-4 py-2">{levelOf(jur)}</td>
+                                        <td className="px-4 py-2">{jur.subdivisionCode || jur.countryCode}</td>
+                                        <td className="px-4 py-2">{jur.currency}</td>
+                                        <td className="px-4 py-2">{regulators.filter(reg => reg.jurisdictionIds.includes(jur.id)).map(reg => reg.shortName).join(', ') || jur.primaryRegulator}</td>
+                                        <td className="px-4 py-2">{(jur.holidays || []).length}</td>
+                                        <td className="px-4 py-2">{jur.isEEA ? 'Yes' : 'No'}</td>
+                                        {canManage && (
+                                            <td className="px-4 py-2 space-x-3 whitespace-nowrap">
+                                                <button onClick={() => setEditing(jur)} className="text-cyan-400 hover:text-cyan-300">Edit</button>
+                                                <button onClick={() => handleDelete(jur)} disabled={isSaving} className="text-red-400 hover:text-red-300 disabled:opacity-50">Delete</button>
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JurisdictionRegistryModal;
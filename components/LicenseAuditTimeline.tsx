@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { LicenseAuditEntry } from '../types';
+import { format, parseISO } from '../utils/dateUtils';
+
+const LicenseAuditTimeline: React.FC<{ entries: LicenseAuditEntry[] }> = ({ entries }) => {
+    const [actionFilter, setActionFilter] = useState('All');
+    const [userFilter, setUserFilter] = useState('All');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    const actions = useMemo(() => Array.from(new Set(entries.map(entry => entry.action))).sort(), [entries]);
+    const users = useMemo(() => Array.from(new Set(entries.map(entry => entry.changerId))).sort(), [entries]);
+
+    const filteredEntries = useMemo(() => {
+        const term = searchTerm.toLowerCase();
+        return entries
+            .filter(entry => actionFilter === 'All' || entry.action === actionFilter)
+            .filter(entry => userFilter === 'All' || entry.changerId === userFilter)
+            .filter(entry => !fromDate || format(parseISO(entry.timestamp), 'yyyy-MM-dd') >= fromDate)
+            .filter(entry => !toDate || format(parseISO(entry.timestamp), 'yyyy-MM-dd') <= toDate)
+            .filter(entry => !term ||
+                entry.details.toLowerCase().includes(term) ||
+                (entry.changes || []).some(change =>
+                    change.field.toLowerCase().includes(term) ||
+                    change.before.toLowerCase().includes(term) ||
+                    change.after.toLowerCase().includes(term)))
+            .sort((a, b) => parseISO(b.timestamp).getTime() - parseISO(a.timestamp).getTime());
+    }, [entries, actionFilter, userFilter, searchTerm, fromDate, toDate]);
+
+    if (entries.length === 0) {
+        return <p className="text-gray-400">No audit entries.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                <input type="text" placeholder="Search changes..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="col-span-2 md:col-span-1 bg-gray-700/50 p-2 rounded text-white" />
+                <select value={actionFilter} onChange={e => setActionFilter(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white">
+                    <option value="All">All Actions</option>
+                    {actions.map(action => <option key={action} value={action}>{action}</option>)}
+                </select>
+                <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className="bg-gray-700/50 p-2 rounded text-white">
+                    <option value="All">All Users</option>
+                    {users.map(user => <option key={user} value={user}>{user}</option>)}
+                </select>
+                <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} title="From" className="bg-gray-700/50 p-2 rounded text-white" />
+                <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} title="To" className="bg-gray-700/50 p-2 rounded text-white" />
+            </div>
+            {filteredEntries.length === 0 ? (
+                <p className="text-gray-400 text-sm">No audit entries match your filters.</p>
+            ) : (
+                <ol className="relative border-l border-gray-600 ml-2 space-y-4 text-sm max-h-80 overflow-y-auto custom-scrollbar pr-2">
+                    {filteredEntries.map(entry => (
+                        <li key={entry.id} className="ml-4">
+                            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-cyan-500 border border-gray-800"></span>
+                            <div>
+                                <span className="font-medium text-cyan-400">{entry.action}</span> by {entry.changerId} on {format(parseISO(entry.timestamp), 'MMM d, yyyy HH:mm')}
+                            </div>
+                            {entry.details && <p className="text-gray-400 text-xs mt-1">{entry.details}</p>}
+                            {entry.changes && entry.changes.length > 0 && (
+                                <table className="w-full mt-2 text-xs bg-gray-700/30 rounded">
+                                    <thead className="text-gray-400 uppercase">
+                                        <tr>
+                                            <th className="px-2 py-1 text-left">Field</th>
+                                            <th className="px-2 py-1 text-left">Before</th>
+                                            <th className="px-2 py-1 text-left">After</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {entry.changes.map(change => (
+                                            <tr key={change.field} className="border-t border-gray-600/50">
+                                                <td className="px-2 py-1 text-gray-300">{change.field}</td>
+                                                <td className="px-2 py-1 text-red-300 break-all">{change.before}</td>
+                                                <td className="px-2 py-1 text-green-300 break-all">{change.after}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default LicenseAuditTimeline;
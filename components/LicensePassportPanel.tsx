@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Jurisdiction, License, PassportNotification } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { jurisdictionName } from '../services/jurisdictionRegistry';
+import { eeaMemberStates, homeMemberState, isLicenseInForce, PassportChange, removePassport, savePassport } from '../services/passporting';
+import { format, parseISO } from '../utils/dateUtils';
+
+const MODES: PassportNotification['mode'][] = ['Freedom of Services', 'Branch', 'Agent'];
+const STATUSES: PassportNotification['status'][] = ['Planned', 'Notified', 'Active', 'Refused', 'Withdrawn'];
+
+const statusColors: Record<PassportNotification['status'], string> = {
+    'Planned': 'text-gray-300',
+    'Notified': 'text-yellow-400',
+    'Active': 'text-green-400',
+    'Refused': 'text-red-400',
+    'Withdrawn': 'text-gray-500',
+};
+
+const emptyPassport: PassportNotification = {
+    id: '', hostJurisdictionId: '', mode: 'Freedom of Services', status: 'Planned', conditions: '', updatedBy: '', updatedDate: '',
+};
+
+// Date inputs work in yyyy-MM-dd; passports store ISO strings.
+const toInputDate = (iso?: string) => iso ? format(parseISO(iso), 'yyyy-MM-dd') : '';
+const fromInputDate = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+const LicensePassportPanel: React.FC<{
+    license: License;
+    jurisdictions: Jurisdiction[];
+    onChange: (change: PassportChange) => void;
+    isLoading: boolean;
+}> = ({ license, jurisdictions, onChange, isLoading }) => {
+    const { currentUser, can } = useCurrentUser();
+    const [draft, setDraft] = useState<PassportNotification | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const home = homeMemberState(license, jurisdictions);
+    const passports = license.passports || [];
+    const canEdit = can('editLicense');
+
+    // Rules live in the service; anything it rejects is shown here instead of being saved.
+    const run = (step: () => PassportChange) => {
+        try {
+            setError(null);
+            onChange(step());
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleRemove = (passport: PassportNotification) => {
+        if (window.confirm(`Remove the ${passport.mode} passport into ${jurisdictionName(jurisdictions, passport.hostJurisdictionId)}? Withdrawn passports are usually kept for the record.`)) {
+            run(() => removePassport(license, passport.id, jurisdictions));
+        }
+    };
+
+    if (!home && passports.length === 0) return null;
+
+    return (
+        <div className="space-y-3">
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            {home ? (
+                <p className="text-gray-400 text-sm">
+                    Home state: <span className="text-white">{home.name}</span>.
+                    {!isLicenseInForce(license) && <span className="text-red-400"> This license is {license.status.toLowerCase()}, so its passports give no access until it is back in force.</span>}
+                </p>
+            ) : (
+                <p className="text-yellow-400 text-sm">This license is no longer issued in an EEA member state; the passports below cannot be relied on.</p>
+            )}
+
+            {passports.length === 0 ? (
+                <p className="text-gray-400 text-sm">No passport notifications recorded.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                        <tr>
+                            <th className="px-3 py-2 text-left">Host State</th>
+                            <th className="px-3 py-2 text-left">Mode</th>
+                            <th className="px-3 py-2 text-left">Status</th>
+                            <th className="px-3 py-2 text-left">Notified</th>
+                            <th className="px-3 py-2 text-left">Effective</th>
+                            <th className="px-3 py-2 text-left">Conditions</th>
+                            {canEdit && <th className="px-3 py-2"></th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {passports.map(passport => (
+                            <tr key={passport.id} className="border-b border-gray-700 align-top">
+                                <td className="px-3 py-2 text-white">{jurisdictionName(jurisdictions, passport.hostJurisdictionId)}</td>
+                                <td className="px-3 py-2">{passport.mode}</td>
+                                <td className={`px-3 py-2 ${statusColors[passport.status]}`}>{passport.status}</td>
+                                <td className="px-3 py-2">{passport.notificationDate ? format(parseISO(passport.notificationDate), 'MMM d, yyyy') : '-'}</td>
+                                <td className="px-3 py-2">{passport.effectiveDate ? format(parseISO(passport.effectiveDate), 'MMM d, yyyy') : '-'}</td>
+                                <td className="px-3 py-2 text-gray-400 whitespace-pre-line">{passport.conditions || '-'}</td>
+                                {canEdit && (
+                                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                                        <button onClick={() => { setError(null); setDraft(passport); }} disabled={isLoading} className="text-indigo-400 hover:text-indigo-300 mr-3 disabled:opacity-50">Edit</button>
+                                        <button onClick={() => handleRemove(passport)} disabled={isLoading} className="text-red-400 hover:text-red-300 disabled:opacity-50">Remove</button>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {canEdit && home && !draft && (
+                <div className="flex justify-end">
+                    <button onClick={() => { setError(null); setDraft(emptyPassport); }} disabled={isLoading} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm disabled:opacity-50">Record Passport</button>
+                </div>
+            )}
+
+            {draft && (
+                <div className="bg-gray-700/30 p-4 rounded space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                        <select value={draft.hostJurisdictionId} onChange={e => setDraft({ ...draft, hostJurisdictionId: e.target.value })} className="bg-gray-700/50 p-2 rounded text-white">
+                            <option value="">Host member state...</option>
+                            {eeaMemberStates(jurisdictions).filter(jur => jur.id !== home?.id).map(jur => <option key={jur.id} value={jur.id}>{jur.name}</option>)}
+                        </select>
+                        <select value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as PassportNotification['mode'] })} className="bg-gray-700/50 p-2 rounded text-white">
+                            {MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                        </select>
+                        <select value={draft.status} onChange={e => setDraft({ ...draft, status: e.target.value as PassportNotification['status'] })} className="bg-gray-700/50 p-2 rounded text-white">
+                            {STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                        </select>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-xs text-gray-400">Notification date
+                                <input type="date" value={toInputDate(draft.notificationDate)} onChange={e => setDraft({ ...draft, notificationDate: fromInputDate(e.target.value) })} className="w-full bg-gray-700/50 p-2 rounded text-white text-sm" />
+                            </label>
+                            <label className="text-xs text-gray-400">Effective date
+                                <input type="date" value={toInputDate(draft.effectiveDate)} onChange={e => setDraft({ ...draft, effectiveDate: fromInputDate(e.target.value) })} className="w-full bg-gray-700/50 p-2 rounded text-white text-sm" />
+                            </label>
+                        </div>
+                    </div>
+                    <textarea
+                        value={draft.conditions}
+                        onChange={e => setDraft({ ...draft, conditions: e.target.value })}
+                        placeholder="Host-state conditions, e.g. local reporting or a central contact point"
+                        rows={2}
+                        className="w-full bg-gray-700/50 p-2 rounded text-white text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => { setError(null); setDraft(null); }} className="px-3 py-1 border border-gray-600 text-gray-300 rounded hover:bg-gray-700 text-sm">Cancel</button>
+                        <button onClick={() => run(() => savePassport(license, draft, jurisdictions, currentUser.name))} disabled={isLoading} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm disabled:opacity-50">Save Passport</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LicensePassportPanel;
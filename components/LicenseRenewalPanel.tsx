@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Jurisdiction, License } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import {
+    assignStageOwner, cancelRenewal, completeRenewal, completeStage, getActiveRenewal, openRenewal, RenewalChange, setChecklistItemDone
+} from '../services/renewalWorkflow';
+import { format, isPast, parseISO } from '../utils/dateUtils';
+
+const LicenseRenewalPanel: React.FC<{
+    license: License;
+    jurisdiction: Jurisdiction | undefined;
+    onChange: (change: RenewalChange) => void;
+    isLoading: boolean;
+}> = ({ license, jurisdiction, onChange, isLoading }) => {
+    const { currentUser, users, can } = useCurrentUser();
+    const [error, setError] = useState<string | null>(null);
+    const renewal = getActiveRenewal(license);
+    const pastRenewals = (license.renewals || []).filter(entry => entry.status !== 'In Progress');
+    const canManage = can('manageLicenseRenewal');
+
+    // Workflow rules live in the service; any rule it rejects is shown here instead of being saved.
+    const run = (step: () => RenewalChange) => {
+        try {
+            setError(null);
+            onChange(step());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCancel = () => {
+        const reason = window.prompt('Why is this renewal being cancelled?');
+        if (reason !== null) run(() => cancelRenewal(license, currentUser.name, reason));
+    };
+
+    const ownerOptions = (owner: string) => Array.from(new Set([owner, ...users.map(user => user.name)]));
+
+    return (
+        <div className="space-y-4">
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            {!renewal ? (
+                <div className="flex justify-between items-center">
+                    <p className="text-gray-400 text-sm">No renewal in progress. Expires {format(parseISO(license.expiryDate), 'MMM d, yyyy')}; renews every {license.renewalFrequencyMonths} months.</p>
+                    {canManage && (
+                        <button onClick={() => run(() => openRenewal(license, jurisdiction, currentUser.name))} disabled={isLoading} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm disabled:opacity-50">Open Renewal</button>
+                    )}
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-sm">
+                        Opened by {renewal.openedBy} on {format(parseISO(renewal.openedDate), 'MMM d, yyyy')}. Deadline:{' '}
+                        <span className={isPast(parseISO(renewal.deadline)) ? 'text-red-400 font-semibold' : 'text-white'}>{format(parseISO(renewal.deadline), 'MMM d, yyyy')}</span>
+                    </p>
+
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                            <tr>
+                                <th className="px-3 py-2 text-left">Stage</th>
+                                <th className="px-3 py-2 text-left">Owner</th>
+                                <th className="px-3 py-2 text-left">Due</th>
+                                <th className="px-3 py-2 text-left">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {renewal.stages.map(stage => {
+                                const overdue = stage.status !== 'Completed' && isPast(parseISO(stage.dueDate));
+                                return (
+                                    <tr key={stage.name} className="border-b border-gray-700">
+                                        <td className="px-3 py-2 text-white">{stage.name}</td>
+                                        <td className="px-3 py-2">
+                                            {canManage && stage.status !== 'Completed' ? (
+                                                <select value={stage.owner} onChange={e => run(() => assignStageOwner(license, stage.name, e.target.value))} disabled={isLoading} className="bg-gray-700/50 p-1 rounded text-white text-sm">
+                                                    {ownerOptions(stage.owner).map(name => <option key={name} value={name}>{name}</option>)}
+                                                </select>
+                                            ) : stage.owner}
+                                        </td>
+                                        <td className={`px-3 py-2 ${overdue ? 'text-red-400 font-semibold' : ''}`}>{format(parseISO(stage.dueDate), 'MMM d, yyyy')}{overdue ? ' (overdue)' : ''}</td>
+                                        <td className="px-3 py-2">
+                                            <span className={stage.status === 'Completed' ? 'text-green-400' : stage.status === 'In Progress' ? 'text-yellow-400' : 'text-gray-400'}>{stage.status}</span>
+                                            {stage.completedBy && <span className="text-xs text-gray-500"> by {stage.completedBy}</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    <div>
+                        <h5 className="font-semibold text-white mb-2">Checklist ({renewal.checklist.filter(item => item.done).length}/{renewal.checklist.length})</h5>
+                        <ul className="space-y-1 text-sm">
+                            {renewal.checklist.map(item => (
+                                <li key={item.id} className="flex items-start space-x-2">
+                                    <input type="checkbox" checked={item.done} disabled={!canManage || isLoading} onChange={e => run(() => setChecklistItemDone(license, item.id, e.target.checked, currentUser.name))} className="mt-1" />
+                                    <span className={item.done ? 'line-through text-gray-500' : ''}>
+                                        <span className="text-xs text-gray-400">[{item.kind} - {item.stage}]</span> {item.description}{item.required ? '' : ' (optional)'}
+                                        {item.done && item.completedBy && <span className="text-xs text-gray-500"> - {item.completedBy}</span>}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        {canManage && <button onClick={handleCancel} disabled={isLoading} className="px-3 py-1 border border-gray-600 text-gray-300 rounded hover:bg-gray-700 text-sm disabled:opacity-50">Cancel Renewal</button>}
+                        {canManage && renewal.stages[renewal.stages.length - 1].status !== 'In Progress' && (
+                            <button onClick={() => run(() => completeStage(license, currentUser.name))} disabled={isLoading} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm disabled:opacity-50">Complete Current Stage</button>
+                        )}
+                        {can('completeLicenseRenewal') && renewal.stages[renewal.stages.length - 1].status === 'In Progress' && (
+                            <button onClick={() => run(() => completeRenewal(license, currentUser.name))} disabled={isLoading} className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-sm disabled:opacity-50">Approve &amp; Complete Renewal</button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {pastRenewals.length > 0 && (
+                <div>
+                    <h5 className="font-semibold text-white mb-2">Past Renewals</h5>
+                    <ul className="space-y-1 text-sm text-gray-400">
+                        {pastRenewals.map(entry => (
+                            <li key={entry.id}>
+                                {entry.status} on {format(parseISO(entry.closedDate || entry.openedDate), 'MMM d, yyyy')} by {entry.closedBy || entry.openedBy}
+                                {entry.newExpiryDate ? ` - new expiry ${format(parseISO(entry.newExpiryDate), 'MMM d, yyyy')}` : ''}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LicenseRenewalPanel;
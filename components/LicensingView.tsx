@@ -1,166 +1,59 @@
-import React, { useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Card from './Card';
-import { DataContext } from '../context/DataContext';
-import { GoogleGenAI } from "@google/genai";
+import LicenseAuditTimeline from './LicenseAuditTimeline';
+import AuditExplorerModal from './AuditExplorerModal';
+import ComplianceCheckReviewModal from './ComplianceCheckReviewModal';
+import LicenseRenewalPanel from './LicenseRenewalPanel';
+import ComplianceCalendar from './ComplianceCalendar';
+import CoverageMap from './CoverageMap';
+import LicensePassportPanel from './LicensePassportPanel';
+import PolicyVersionHistory from './PolicyVersionHistory';
+import PolicyApprovalPanel from './PolicyApprovalPanel';
+import ApprovalChainModal from './ApprovalChainModal';
+import AttestationsModal from './AttestationsModal';
+import RegulatoryFeedsModal from './RegulatoryFeedsModal';
+import JurisdictionRegistryModal from './JurisdictionRegistryModal';
+import RegulatorDirectoryModal from './RegulatorDirectoryModal';
+import PassportingModal from './PassportingModal';
+import { useData, useDataSelector } from '../context/DataContext';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import {
+    selectBrokenPolicyLinks, selectLicenseStatusMismatches, selectLicensesWithoutAmlKycPolicy, selectOpenHighSeverityUpdates, selectUpcomingRenewals
+} from '../context/selectors';
 import { format, parseISO, isPast, isFuture, addMonths, addDays } from '../utils/dateUtils';
 import { 
     License, LicenseDocument, LicenseAuditEntry, CompliancePolicy, PolicyDocument, 
     RegulatoryUpdate, ActionItem, ComplianceCheckResult, RiskAssessment, RiskItem, 
-    Jurisdiction 
+    Jurisdiction, Permission, RecordLink, Regulator, PolicyRevision
 } from '../types';
-
-// --- Mock Data Generation (Extensive) ---
-let nextId = 1000;
-const generateId = () => `_${nextId++}_${Date.now()}`;
-
-const mockJurisdictions: Jurisdiction[] = [
-    { id: 'JUR001', name: 'California', countryCode: 'US', currency: 'USD', isEEA: false, primaryRegulator: 'DFPI' },
-    { id: 'JUR002', name: 'New York', countryCode: 'US', currency: 'USD', isEEA: false, primaryRegulator: 'DFS' },
-    { id: 'JUR003', name: 'United Kingdom', countryCode: 'GB', currency: 'GBP', isEEA: true, primaryRegulator: 'FCA' },
-    { id: 'JUR004', name: 'Ireland', countryCode: 'IE', currency: 'EUR', isEEA: true, primaryRegulator: 'CBI' },
-    { id: 'JUR005', name: 'Brazil', countryCode: 'BR', currency: 'BRL', isEEA: false, primaryRegulator: 'BACEN' },
-    { id: 'JUR006', name: 'Australia', countryCode: 'AU', currency: 'AUD', isEEA: false, primaryRegulator: 'ASIC' },
-    { id: 'JUR007', name: 'Singapore', countryCode: 'SG', currency: 'SGD', isEEA: false, primaryRegulator: 'MAS' },
-];
-
-const createMockLicense = (overrides?: Partial<License>): License => {
-    const id = generateId();
-    const issue = addMonths(new Date(), -Math.floor(Math.random() * 24));
-    const expiry = addMonths(issue, Math.floor(Math.random() * 36) + 12); // 1 to 4 years
-    const statusOptions: License['status'][] = ['Active', 'Pending Renewal', 'Expired', 'Revoked'];
-    const selectedStatus = statusOptions[Math.floor(Math.random() * statusOptions.length)];
-    const jurisdiction = mockJurisdictions[Math.floor(Math.random() * mockJurisdictions.length)];
-
-    return {
-        id: `LIC-${id}`,
-        name: `Money Transmitter License ${jurisdiction.name}`,
-        jurisdiction: jurisdiction.name,
-        status: selectedStatus,
-        expiryDate: expiry.toISOString(),
-        issueDate: issue.toISOString(),
-        regulatoryBody: jurisdiction.primaryRegulator,
-        licenseNumber: `L${Math.floor(100000 + Math.random() * 900000)}`,
-        scope: "General Money Transmission & Electronic Payments",
-        renewalFrequencyMonths: 12 + Math.floor(Math.random() * 24),
-        documents: [],
-        auditTrail: [],
-        associatedPolicies: [],
-        notes: "Standard license for payment operations.",
-        contactPerson: "John Doe",
-        contactEmail: "john.doe@example.com",
-        renewalCostUSD: 5000 + Math.floor(Math.random() * 15000),
-        lastRenewalDate: addMonths(issue, Math.floor(Math.random() * 12)).toISOString(),
-        nextRenewalReminderDate: addMonths(expiry, -3).toISOString(),
-        jurisdictionId: jurisdiction.id,
-        ...overrides,
-    };
-};
-
-const createMockPolicy = (overrides?: Partial<CompliancePolicy>): CompliancePolicy => {
-    const id = generateId();
-    const categoryOptions: CompliancePolicy['category'][] = ['AML', 'KYC', 'Sanctions', 'Consumer Protection', 'Data Privacy', 'Operational Risk'];
-    const effective = addMonths(new Date(), -Math.floor(Math.random() * 18));
-    const review = addMonths(effective, 12 + Math.floor(Math.random() * 24));
-    const jurisdictionIds = Array.from({ length: Math.floor(Math.random() * 3) + 1 }, () => mockJurisdictions[Math.floor(Math.random() * mockJurisdictions.length)].id);
-
-    return {
-        id: `POL-${id}`,
-        name: `Anti-Money Laundering Policy v${Math.floor(Math.random() * 3) + 1}.0`,
-        description: "Comprehensive policy outlining procedures to prevent money laundering activities.",
-        category: categoryOptions[Math.floor(Math.random() * categoryOptions.length)],
-        version: `${Math.floor(Math.random() * 3) + 1}.0`,
-        effectiveDate: effective.toISOString(),
-        reviewDate: review.toISOString(),
-        documents: [],
-        applicableJurisdictions: jurisdictionIds,
-        responsibleDepartment: "Compliance",
-        status: "Active",
-        lastUpdatedBy: "Admin User",
-        lastUpdateDate: new Date().toISOString(),
-        relatedLicenses: [],
-        ...overrides,
-    };
-};
-
-const createMockRegulatoryUpdate = (overrides?: Partial<RegulatoryUpdate>): RegulatoryUpdate => {
-    const id = generateId();
-    const severityOptions: RegulatoryUpdate['severity'][] = ['High', 'Medium', 'Low'];
-    const statusOptions: RegulatoryUpdate['status'][] = ['New', 'Under Review', 'Impact Assessed', 'Implemented'];
-    const publication = addDays(new Date(), -Math.floor(Math.random() * 90));
-    const jurisdictionIds = Array.from({ length: Math.floor(Math.random() * 2) + 1 }, () => mockJurisdictions[Math.floor(Math.random() * mockJurisdictions.length)].id);
-
-    return {
-        id: `REG-${id}`,
-        title: `New AML Directive for ${jurisdictionIds.map(jid => mockJurisdictions.find(j => j.id === jid)?.name).join(', ')}`,
-        source: "EU Parliament",
-        publicationDate: publication.toISOString(),
-        summary: "New directive introduces stricter requirements for customer due diligence and suspicious transaction reporting.",
-        fullTextUrl: "https://example.com/new-directive-full-text",
-        severity: severityOptions[Math.floor(Math.random() * severityOptions.length)],
-        status: statusOptions[Math.floor(Math.random() * statusOptions.length)],
-        relevantJurisdictions: jurisdictionIds,
-        assignedTo: "Compliance Team",
-        impactAssessmentNotes: "",
-        actionItems: [],
-        lastUpdated: new Date().toISOString(),
-        ...overrides,
-    };
-};
-
-const createMockComplianceCheckResult = (feature: string, licenses: string[]): ComplianceCheckResult => {
-    const id = generateId();
-    const riskOptions: ComplianceCheckResult['riskLevel'][] = ['Low', 'Medium', 'High', 'Critical'];
-    return {
-        id: `CCR-${id}`,
-        featureDescription: feature,
-        checkDate: new Date().toISOString(),
-        aiReport: `AI analysis for "${feature}" indicates a ${riskOptions[Math.floor(Math.random() * riskOptions.length)]} risk level. Potential new licenses required: ${licenses.join(', ') || 'None'}. Further review is recommended.`,
-        suggestedLicenses: licenses,
-        riskLevel: riskOptions[Math.floor(Math.random() * riskOptions.length)],
-        status: 'Completed',
-    };
-};
-
-// Initial mock data - significantly increased quantity
-let mockLicenses: License[] = Array.from({ length: 50 }, (_, i) => createMockLicense({
-    name: `License ${i + 1} - ${mockJurisdictions[i % mockJurisdictions.length].name}`,
-    status: i % 5 === 0 ? 'Expired' : (i % 7 === 0 ? 'Pending Renewal' : 'Active'),
-}));
-let mockCompliancePolicies: CompliancePolicy[] = Array.from({ length: 30 }, (_, i) => createMockPolicy({
-    name: `Policy ${i + 1} - ${['AML', 'KYC', 'Data Privacy'][i % 3]}`,
-    status: i % 10 === 0 ? 'Draft' : 'Active',
-}));
-let mockRegulatoryUpdates: RegulatoryUpdate[] = Array.from({ length: 40 }, (_, i) => createMockRegulatoryUpdate({
-    title: `Reg Update ${i + 1}: ${['New Reporting', 'Customer Due Diligence', 'Sanctions Update'][i % 3]}`,
-    severity: (['High', 'Medium', 'Low'][i % 3]) as RegulatoryUpdate['severity'],
-}));
-let mockComplianceCheckHistory: ComplianceCheckResult[] = [];
-let mockRiskAssessments: RiskAssessment[] = [];
-
-// Simulate data loading and storage
-const simulateApiCall = <T,>(data: T, delay = 500): Promise<T> => {
-    return new Promise(resolve => setTimeout(() => resolve(data), delay));
-};
+import { generateId } from '../utils/idUtils';
+import { calculateInherentRisk, calculateResidualRisk, highestRisk } from '../utils/riskUtils';
+import { computeLicenseStatus, deriveLicenseStatus, describeStatusReason, isManualStatus, LicenseStatusMismatch, MANUAL_LICENSE_STATUSES } from '../utils/licenseStatus';
+import { closesRegulatoryUpdate, retiresPolicy, signsOffRiskAssessment } from '../utils/permissions';
+import { createMockLicense, createMockPolicy } from '../data/mockData';
+import {
+    buildPortfolioContext, ComplianceCheckReview, createComplianceCheckResult, createRiskAssessmentDraft, signOffComplianceCheck
+} from '../services/complianceCheckService';
+import { complianceAIProvider } from '../services/aiProvider';
+import { RenewalChange } from '../services/renewalWorkflow';
+import { canPassport, PassportChange } from '../services/passporting';
+import { restoreRevisionAsDraft } from '../services/policyRevisions';
+import { awaitingStep, PolicyApprovalChange, prepareManualSave } from '../services/policyApproval';
+import { licenseIdsLinkedToPolicy, policyAppliesIn, policyIdsLinkedToLicense, repairPolicyLinks } from '../services/policyLinks';
+import { flattenTree, jurisdictionName, leafJurisdictions, resolveJurisdiction } from '../services/jurisdictionRegistry';
+import { licenseRegulator, regulatorsCovering, resolveRegulator, updateRegulator } from '../services/regulatorDirectory';
 
 // --- Helper Components & Utilities (Internal or Exported if needed) ---
 export const truncateText = (text: string, length: number) => {
     return text.length > length ? text.substring(0, length) + '...' : text;
 };
 
-export const NotificationToast: React.FC<{ message: string; type: 'success' | 'error' | 'info'; onClose: () => void }> = ({ message, type, onClose }) => {
-    const bgColor = type === 'success' ? 'bg-green-600' : type === 'error' ? 'bg-red-600' : 'bg-blue-600';
-    useEffect(() => {
-        const timer = setTimeout(onClose, 5000);
-        return () => clearTimeout(timer);
-    }, [onClose]);
-
-    return (
-        <div className={`fixed bottom-4 right-4 ${bgColor} text-white p-3 rounded shadow-lg flex items-center justify-between z-[100]`}>
-            <span>{message}</span>
-            <button onClick={onClose} className="ml-4 font-bold text-lg">&times;</button>
-        </div>
-    );
-};
+// A regulator name that opens the regulator directory when the name resolves to a directory entry.
+const RegulatorLink: React.FC<{ name: string; regulator: Regulator | undefined; onOpen: (link: RecordLink) => void }> = ({ name, regulator, onOpen }) =>
+    regulator
+        ? <button type="button" onClick={() => onOpen({ type: 'regulator', id: regulator.id })} className="text-cyan-400 hover:underline" title={regulator.name}>{name || regulator.shortName}</button>
+        : <span>{name || 'N/A'}</span>;
 
 // --- Sub-components for Modals (Moved outside LicensingView) ---
 
@@ -171,20 +64,25 @@ const LicenseFormModal: React.FC<{
     onSubmit: (license: License) => void;
     isLoading: boolean;
     onUploadDocument: (licenseId: string, doc: Omit<LicenseDocument, 'id' | 'uploadDate' | 'uploadedBy'>, file: File) => void;
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    policies: CompliancePolicy[];
     showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
-}> = ({ isOpen, onClose, license, onSubmit, isLoading, onUploadDocument, showNotification }) => {
-    const [formState, setFormState] = useState<License>(license || createMockLicense({ id: '', name: '', jurisdiction: '', status: 'Active', expiryDate: '', issueDate: '', regulatoryBody: '', licenseNumber: '', scope: '', renewalFrequencyMonths: 12, documents: [], auditTrail: [], associatedPolicies: [], notes: '', contactPerson: '', contactEmail: '', renewalCostUSD: 0, lastRenewalDate: '', nextRenewalReminderDate: '', jurisdictionId: '' }));
+}> = ({ isOpen, onClose, license, onSubmit, isLoading, onUploadDocument, jurisdictions, regulators, policies, showNotification }) => {
+    const { can } = useCurrentUser();
+    const [formState, setFormState] = useState<License>(license || createMockLicense({ id: '', name: '', status: 'Active', expiryDate: '', issueDate: '', regulatoryBody: '', licenseNumber: '', scope: '', renewalFrequencyMonths: 12, documents: [], auditTrail: [], associatedPolicies: [], notes: '', contactPerson: '', contactEmail: '', renewalCostUSD: 0, lastRenewalDate: '', nextRenewalReminderDate: '', jurisdictionId: '' }));
     const [docFile, setDocFile] = useState<File | null>(null);
     const [docName, setDocName] = useState('');
     const [docType, setDocType] = useState<LicenseDocument['type']>('Certificate');
+    const [docRegulatorId, setDocRegulatorId] = useState('');
 
     useEffect(() => {
         if (license) {
-            setFormState(license);
+            setFormState({ ...license, associatedPolicies: policyIdsLinkedToLicense(license, policies) });
         } else {
             const now = new Date();
             setFormState(createMockLicense({
-                id: '', name: '', jurisdiction: '', regulatoryBody: '', licenseNumber: '', scope: 'General Money Transmission',
+                id: '', name: '', regulatoryBody: '', licenseNumber: '', scope: 'General Money Transmission',
                 status: 'Active', issueDate: now.toISOString(), expiryDate: addMonths(now, 24).toISOString(),
                 renewalFrequencyMonths: 24, documents: [], auditTrail: [], associatedPolicies: [], notes: '',
                 contactPerson: '', contactEmail: '', renewalCostUSD: 0, lastRenewalDate: now.toISOString(),
@@ -200,24 +98,53 @@ const LicenseFormModal: React.FC<{
         setFormState(prev => ({ ...prev, [name]: value }));
     };
 
+    const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { value } = e.target;
+        setFormState(prev => ({ ...prev, status: value === 'Automatic' ? deriveLicenseStatus(prev) : value as License['status'] }));
+    };
+
     const handleJurisdictionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const jurisdictionId = e.target.value;
-        const selectedJurisdiction = mockJurisdictions.find(j => j.id === jurisdictionId);
+        const selectedJurisdiction = resolveJurisdiction(jurisdictions, jurisdictionId);
         if (selectedJurisdiction) {
             setFormState(prev => ({
                 ...prev,
                 jurisdictionId: selectedJurisdiction.id,
-                jurisdiction: selectedJurisdiction.name,
+                regulatorId: selectedJurisdiction.primaryRegulatorId,
                 regulatoryBody: selectedJurisdiction.primaryRegulator
             }));
         }
     };
 
+    const handleRegulatorChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const regulator = resolveRegulator(regulators, e.target.value);
+        setFormState(prev => ({ ...prev, regulatorId: regulator?.id, regulatoryBody: regulator?.shortName || '' }));
+    };
+
+    const handlePolicyToggle = (policyId: string) => setFormState(prev => ({
+        ...prev,
+        associatedPolicies: prev.associatedPolicies.includes(policyId) ? prev.associatedPolicies.filter(id => id !== policyId) : [...prev.associatedPolicies, policyId],
+    }));
+
+    // Policies that apply in the license's jurisdiction come first; links to deleted policies are listed so they can be removed.
+    const sortedPolicies = [...policies].sort((a, b) => a.name.localeCompare(b.name));
+    const applicablePolicies = formState.jurisdictionId ? sortedPolicies.filter(pol => policyAppliesIn(pol, formState.jurisdictionId, jurisdictions)) : [];
+    const otherPolicies = sortedPolicies.filter(pol => !applicablePolicies.includes(pol));
+    const unknownPolicyIds = formState.associatedPolicies.filter(id => !policies.some(pol => pol.id === id));
+
+    // Regulators supervising the license's jurisdiction come first in the picker.
+    const coveringRegulators = formState.jurisdictionId ? regulatorsCovering(regulators, jurisdictions, formState.jurisdictionId) : [];
+    const otherRegulators = regulators.filter(reg => !coveringRegulators.includes(reg)).sort((a, b) => a.shortName.localeCompare(b.shortName));
+    const currentRegulator = licenseRegulator(formState, regulators);
+
     const handleDocumentUpload = () => {
         if (formState.id && docFile && docName) {
-            onUploadDocument(formState.id, { name: docName, type: docType, version: '1.0', url: '' }, docFile);
+            // Correspondence defaults to the license's own regulator.
+            const regulatorId = docType === 'Correspondence' ? docRegulatorId || currentRegulator?.id : undefined;
+            onUploadDocument(formState.id, { name: docName, type: docType, version: '1.0', url: '', regulatorId }, docFile);
             setDocFile(null);
             setDocName('');
+            setDocRegulatorId('');
         } else {
             showNotification("Please select a file and enter a name for the document.", "info");
         }
@@ -230,6 +157,10 @@ const LicenseFormModal: React.FC<{
             showNotification("Please fill in all required license fields (Name, Jurisdiction, Issue/Expiry Dates).", "error");
             return;
         }
+        if (!resolveJurisdiction(jurisdictions, formState.jurisdictionId)) {
+            showNotification(`Jurisdiction ${formState.jurisdictionId} is not in the registry. Pick another one.`, "error");
+            return;
+        }
         onSubmit(formState);
     };
 
@@ -250,8 +181,9 @@ const LicenseFormModal: React.FC<{
                             <label className="block text-gray-300 text-sm font-bold mb-2">Jurisdiction:</label>
                             <select name="jurisdictionId" value={formState.jurisdictionId} onChange={handleJurisdictionChange} className="w-full bg-gray-700/50 p-2 rounded text-white" required>
                                 <option value="">Select Jurisdiction</option>
-                                {mockJurisdictions.map(jur => (
-                                    <option key={jur.id} value={jur.id}>{jur.name} ({jur.countryCode})</option>
+                                {/* Licenses are issued at the leaves, e.g. California rather than the United States. */}
+                                {leafJurisdictions(jurisdictions).map(jur => (
+                                    <option key={jur.id} value={jur.id}>{jur.name} ({jur.subdivisionCode || jur.countryCode})</option>
                                 ))}
                             </select>
                         </div>
@@ -261,7 +193,17 @@ const LicenseFormModal: React.FC<{
                         </div>
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Regulatory Body:</label>
-                            <input type="text" name="regulatoryBody" value={formState.regulatoryBody} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                            <select value={currentRegulator?.id || ''} onChange={handleRegulatorChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                                <option value="">{formState.regulatoryBody && !currentRegulator ? `${formState.regulatoryBody} (not in directory)` : 'Select Regulator'}</option>
+                                {coveringRegulators.length > 0 && (
+                                    <optgroup label="Supervises this jurisdiction">
+                                        {coveringRegulators.map(reg => <option key={reg.id} value={reg.id}>{reg.shortName} - {reg.name}</option>)}
+                                    </optgroup>
+                                )}
+                                <optgroup label="Other regulators">
+                                    {otherRegulators.map(reg => <option key={reg.id} value={reg.id}>{reg.shortName} - {reg.name}</option>)}
+                                </optgroup>
+                            </select>
                         </div>
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Issue Date:</label>
@@ -273,8 +215,10 @@ const LicenseFormModal: React.FC<{
                         </div>
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Status:</label>
-                            <select name="status" value={formState.status} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
-                                {['Active', 'Expired', 'Pending Renewal', 'Revoked', 'Suspended'].map(status => <option key={status} value={status}>{status}</option>)}
+                            {/* Only Revoked and Suspended are chosen by hand; anything else is worked out from the dates on save. */}
+                            <select value={isManualStatus(formState.status) ? formState.status : 'Automatic'} onChange={handleStatusChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                                <option value="Automatic">Automatic ({deriveLicenseStatus(formState)})</option>
+                                {MANUAL_LICENSE_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
                             </select>
                         </div>
                         <div>
@@ -310,8 +254,32 @@ const LicenseFormModal: React.FC<{
                         <label className="block text-gray-300 text-sm font-bold mb-2">Notes:</label>
                         <textarea name="notes" value={formState.notes} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white h-24"></textarea>
                     </div>
+                    <div>
+                        <label className="block text-gray-300 text-sm font-bold mb-2">Linked Policies ({formState.associatedPolicies.length}):</label>
+                        <div className="bg-gray-700/50 p-3 rounded max-h-48 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                            {unknownPolicyIds.map(id => (
+                                <label key={id} className="flex items-center text-red-400">
+                                    <input type="checkbox" checked onChange={() => handlePolicyToggle(id)} className="form-checkbox h-4 w-4 text-cyan-600 bg-gray-600 border-gray-500 rounded" />
+                                    <span className="ml-2">Unknown Policy ({id}) - untick to remove</span>
+                                </label>
+                            ))}
+                            {[{ heading: 'Applies in this jurisdiction', items: applicablePolicies }, { heading: 'Other policies', items: otherPolicies }]
+                                .filter(group => group.items.length > 0)
+                                .map(group => (
+                                    <div key={group.heading}>
+                                        <p className="text-xs text-gray-400 uppercase mt-1">{group.heading}</p>
+                                        {group.items.map(pol => (
+                                            <label key={pol.id} className="flex items-center text-gray-300">
+                                                <input type="checkbox" checked={formState.associatedPolicies.includes(pol.id)} onChange={() => handlePolicyToggle(pol.id)} className="form-checkbox h-4 w-4 text-cyan-600 bg-gray-600 border-gray-500 rounded" />
+                                                <span className="ml-2">{pol.name} <span className="text-xs text-gray-500">({pol.category}, {pol.status})</span></span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                ))}
+                        </div>
+                    </div>
 
-                    {license && (
+                    {license && can('uploadLicenseDocument') && (
                         <div className="space-y-4 pt-4 border-t border-gray-700">
                             <h4 className="text-lg font-semibold text-white">Documents</h4>
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -320,6 +288,12 @@ const LicenseFormModal: React.FC<{
                                 <select value={docType} onChange={e => setDocType(e.target.value as LicenseDocument['type'])} className="w-full bg-gray-700/50 p-2 rounded text-white">
                                     {['Application', 'Certificate', 'Renewal', 'Amendment', 'Correspondence', 'Other'].map(type => <option key={type} value={type}>{type}</option>)}
                                 </select>
+                                {docType === 'Correspondence' && (
+                                    <select value={docRegulatorId || currentRegulator?.id || ''} onChange={e => setDocRegulatorId(e.target.value)} className="w-full md:col-span-3 bg-gray-700/50 p-2 rounded text-white">
+                                        <option value="">Correspondence with: (choose regulator)</option>
+                                        {[...regulators].sort((a, b) => a.shortName.localeCompare(b.shortName)).map(reg => <option key={reg.id} value={reg.id}>Correspondence with: {reg.shortName} - {reg.name}</option>)}
+                                    </select>
+                                )}
                                 <button type="button" onClick={handleDocumentUpload} className="w-full md:col-span-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded disabled:opacity-50 flex items-center justify-center text-white" disabled={isLoading || !docFile || !docName}>
                                     {isLoading ? 'Uploading...' : 'Upload Document'}
                                 </button>
@@ -331,7 +305,7 @@ const LicenseFormModal: React.FC<{
                                     <ul className="space-y-2">
                                         {formState.documents.map(doc => (
                                             <li key={doc.id} className="flex justify-between items-center bg-gray-700/30 p-2 rounded text-sm">
-                                                <a href={doc.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">{doc.name} ({doc.type})</a>
+                                                <a href={doc.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">{doc.name} ({doc.type}{doc.regulatorId ? `, ${resolveRegulator(regulators, doc.regulatorId)?.shortName || 'unknown regulator'}` : ''})</a>
                                                 <span className="text-gray-400 text-xs">Uploaded: {format(parseISO(doc.uploadDate), 'MMM d, yyyy')}</span>
                                             </li>
                                         ))}
@@ -360,7 +334,14 @@ const LicenseDetailsModal: React.FC<{
     onDelete: (id: string) => void;
     onEdit: (license: License) => void;
     allPolicies: CompliancePolicy[];
-}> = ({ isOpen, onClose, license, onDelete, onEdit, allPolicies }) => {
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    onRenewalChange: (change: RenewalChange) => void;
+    onPassportChange: (change: PassportChange) => void;
+    onOpenRecord: (link: RecordLink) => void;
+    isLoading: boolean;
+}> = ({ isOpen, onClose, license, onDelete, onEdit, allPolicies, jurisdictions, regulators, onRenewalChange, onPassportChange, onOpenRecord, isLoading }) => {
+    const { can } = useCurrentUser();
     if (!isOpen || !license) return null;
 
     const handleDeleteClick = () => {
@@ -384,9 +365,9 @@ const LicenseDetailsModal: React.FC<{
                 </div>
                 <div className="p-6 space-y-6 text-gray-300">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div><strong>Jurisdiction:</strong> {license.jurisdiction}</div>
+                        <div><strong>Jurisdiction:</strong> {jurisdictionName(jurisdictions, license.jurisdictionId)}</div>
                         <div><strong>License Number:</strong> {license.licenseNumber}</div>
-                        <div><strong>Regulatory Body:</strong> {license.regulatoryBody}</div>
+                        <div><strong>Regulatory Body:</strong> <RegulatorLink name={license.regulatoryBody} regulator={licenseRegulator(license, regulators)} onOpen={onOpenRecord} /></div>
                         <div><strong>Scope:</strong> {license.scope}</div>
                         <div><strong>Status:</strong> <span className={license.status === 'Active' ? 'text-green-400' : license.status === 'Expired' ? 'text-red-400' : 'text-yellow-400'}>{license.status}</span></div>
                         <div><strong>Issue Date:</strong> {format(parseISO(license.issueDate), 'MMM d, yyyy')}</div>
@@ -439,25 +420,31 @@ const LicenseDetailsModal: React.FC<{
                         )}
                     </div>
 
+                    <div className="border-t border-gray-700 pt-4">
+                        <h4 className="text-lg font-semibold text-white mb-3">Renewal</h4>
+                        <LicenseRenewalPanel
+                            license={license}
+                            jurisdiction={jurisdictions.find(jur => jur.id === license.jurisdictionId)}
+                            onChange={onRenewalChange}
+                            isLoading={isLoading}
+                        />
+                    </div>
+
+                    {(canPassport(license, jurisdictions) || (license.passports || []).length > 0) && (
+                        <div className="border-t border-gray-700 pt-4">
+                            <h4 className="text-lg font-semibold text-white mb-3">EEA Passporting ({(license.passports || []).length})</h4>
+                            <LicensePassportPanel license={license} jurisdictions={jurisdictions} onChange={onPassportChange} isLoading={isLoading} />
+                        </div>
+                    )}
+
                     <div className="border-t border-gray-700 pt-4">
                         <h4 className="text-lg font-semibold text-white mb-3">Audit Trail ({license.auditTrail.length})</h4>
-                        {license.auditTrail.length === 0 ? (
-                            <p className="text-gray-400">No audit entries.</p>
-                        ) : (
-                            <ul className="space-y-2 text-sm max-h-48 overflow-y-auto custom-scrollbar p-2 bg-gray-700/30 rounded">
-                                {license.auditTrail.map(entry => (
-                                    <li key={entry.id} className="border-b border-gray-600/50 pb-2 last:border-b-0">
-                                        <span className="font-medium text-cyan-400">{entry.action}</span> by {entry.changerId} on {format(parseISO(entry.timestamp), 'MMM d, yyyy HH:mm')}
-                                        <p className="text-gray-400 text-xs mt-1">{entry.details}</p>
-                                    </li>
-                                ))}
-                            </ul>
-                        )}
+                        <LicenseAuditTimeline entries={license.auditTrail} />
                     </div>
 
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-700">
-                        <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>
-                        <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>
+                        {can('deleteLicense') && <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>}
+                        {can('editLicense') && <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>}
                         <button onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Close</button>
                     </div>
                 </div>
@@ -472,26 +459,29 @@ const PolicyFormModal: React.FC<{
     policy: CompliancePolicy | null;
     onSubmit: (policy: CompliancePolicy) => void;
     isLoading: boolean;
+    jurisdictions: Jurisdiction[];
+    licenses: License[];
     showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
-}> = ({ isOpen, onClose, policy, onSubmit, isLoading, showNotification }) => {
-    const [formState, setFormState] = useState<CompliancePolicy>(policy || createMockPolicy({ id: '', name: '', description: '', category: 'AML', version: '1.0', effectiveDate: '', reviewDate: '', documents: [], applicableJurisdictions: [], responsibleDepartment: '', status: 'Active', lastUpdatedBy: '', lastUpdateDate: '', relatedLicenses: [] }));
+}> = ({ isOpen, onClose, policy, onSubmit, isLoading, jurisdictions, licenses, showNotification }) => {
+    const { currentUser } = useCurrentUser();
+    const [formState, setFormState] = useState<CompliancePolicy>(policy || createMockPolicy({ id: '', name: '', description: '', category: 'AML', version: '1.0', effectiveDate: '', reviewDate: '', documents: [], applicableJurisdictions: [], responsibleDepartment: '', status: 'Draft', lastUpdatedBy: '', lastUpdateDate: '', relatedLicenses: [] }));
     const [selectedJurisdictions, setSelectedJurisdictions] = useState<string[]>(policy?.applicableJurisdictions || []);
 
     useEffect(() => {
         if (policy) {
-            setFormState(policy);
+            setFormState({ ...policy, relatedLicenses: licenseIdsLinkedToPolicy(policy, licenses) });
             setSelectedJurisdictions(policy.applicableJurisdictions || []);
         } else {
             const now = new Date();
             setFormState(createMockPolicy({
                 id: '', name: '', description: '', category: 'AML', version: '1.0',
                 effectiveDate: now.toISOString(), reviewDate: addMonths(now, 12).toISOString(),
-                documents: [], applicableJurisdictions: [], responsibleDepartment: 'Compliance', status: 'Active',
-                lastUpdatedBy: 'Current User', lastUpdateDate: now.toISOString(), relatedLicenses: []
+                documents: [], applicableJurisdictions: [], responsibleDepartment: 'Compliance', status: 'Draft',
+                lastUpdatedBy: currentUser.name, lastUpdateDate: now.toISOString(), relatedLicenses: []
             }));
             setSelectedJurisdictions([]);
         }
-    }, [policy]);
+    }, [policy, currentUser.name]);
 
     if (!isOpen) return null;
 
@@ -508,6 +498,17 @@ const PolicyFormModal: React.FC<{
         );
     };
 
+    const handleLicenseToggle = (licenseId: string) => setFormState(prev => ({
+        ...prev,
+        relatedLicenses: prev.relatedLicenses.includes(licenseId) ? prev.relatedLicenses.filter(id => id !== licenseId) : [...prev.relatedLicenses, licenseId],
+    }));
+
+    // Licenses issued in (or below) the selected jurisdictions come first; links to deleted licenses are listed so they can be removed.
+    const sortedLicenses = [...licenses].sort((a, b) => a.name.localeCompare(b.name));
+    const coveredLicenses = sortedLicenses.filter(lic => policyAppliesIn({ ...formState, applicableJurisdictions: selectedJurisdictions }, lic.jurisdictionId, jurisdictions));
+    const otherLicenses = sortedLicenses.filter(lic => !coveredLicenses.includes(lic));
+    const unknownLicenseIds = formState.relatedLicenses.filter(id => !licenses.some(lic => lic.id === id));
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!formState.name || !formState.description || !formState.category || selectedJurisdictions.length === 0) {
@@ -559,15 +560,25 @@ const PolicyFormModal: React.FC<{
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Status:</label>
                             <select name="status" value={formState.status} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
-                                {['Active', 'Draft', 'Under Review', 'Retired'].map(status => <option key={status} value={status}>{status}</option>)}
+                                {['Active', 'Draft', 'Under Review', 'Retired'].map(status => (
+                                    // Active and Under Review are reached through the approval workflow, never picked by hand.
+                                    <option key={status} value={status} disabled={(status === 'Active' || status === 'Under Review') && policy?.status !== status}>{status}</option>
+                                ))}
                             </select>
                         </div>
                     </div>
+                    {(policy?.status === 'Active' || policy?.status === 'Under Review') && (
+                        <p className="text-sm text-yellow-400">
+                            {policy.status === 'Active'
+                                ? 'Changing this policy saves it as a draft of the next version; the current version stays in force until the draft is approved.'
+                                : 'Changing this policy withdraws it from review; it must be submitted for approval again.'}
+                        </p>
+                    )}
                     <div>
                         <label className="block text-gray-300 text-sm font-bold mb-2">Applicable Jurisdictions:</label>
                         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 bg-gray-700/50 p-3 rounded max-h-48 overflow-y-auto custom-scrollbar">
-                            {mockJurisdictions.map(jur => (
-                                <label key={jur.id} className="inline-flex items-center text-gray-300 text-sm">
+                            {flattenTree(jurisdictions).map(({ jurisdiction: jur, depth }) => (
+                                <label key={jur.id} className="inline-flex items-center text-gray-300 text-sm" style={{ paddingLeft: `${depth}rem` }}>
                                     <input
                                         type="checkbox"
                                         value={jur.id}
@@ -580,6 +591,30 @@ const PolicyFormModal: React.FC<{
                             ))}
                         </div>
                     </div>
+                    <div>
+                        <label className="block text-gray-300 text-sm font-bold mb-2">Linked Licenses ({formState.relatedLicenses.length}):</label>
+                        <div className="bg-gray-700/50 p-3 rounded max-h-48 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                            {unknownLicenseIds.map(id => (
+                                <label key={id} className="flex items-center text-red-400">
+                                    <input type="checkbox" checked onChange={() => handleLicenseToggle(id)} className="form-checkbox h-4 w-4 text-cyan-600 bg-gray-600 border-gray-500 rounded" />
+                                    <span className="ml-2">Unknown License ({id}) - untick to remove</span>
+                                </label>
+                            ))}
+                            {[{ heading: 'In the selected jurisdictions', items: coveredLicenses }, { heading: 'Other licenses', items: otherLicenses }]
+                                .filter(group => group.items.length > 0)
+                                .map(group => (
+                                    <div key={group.heading}>
+                                        <p className="text-xs text-gray-400 uppercase mt-1">{group.heading}</p>
+                                        {group.items.map(lic => (
+                                            <label key={lic.id} className="flex items-center text-gray-300">
+                                                <input type="checkbox" checked={formState.relatedLicenses.includes(lic.id)} onChange={() => handleLicenseToggle(lic.id)} className="form-checkbox h-4 w-4 text-cyan-600 bg-gray-600 border-gray-500 rounded" />
+                                                <span className="ml-2">{lic.name} <span className="text-xs text-gray-500">({jurisdictionName(jurisdictions, lic.jurisdictionId)}, {lic.status})</span></span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                ))}
+                        </div>
+                    </div>
 
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-700">
                         <button type="button" onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
@@ -600,7 +635,12 @@ const PolicyDetailsModal: React.FC<{
     onDelete: (id: string) => void;
     onEdit: (policy: CompliancePolicy) => void;
     allLicenses: License[];
-}> = ({ isOpen, onClose, policy, onDelete, onEdit, allLicenses }) => {
+    jurisdictions: Jurisdiction[];
+    onRestoreRevision: (policy: CompliancePolicy, revision: PolicyRevision) => void;
+    onApprovalChange: (change: PolicyApprovalChange) => void;
+    isLoading: boolean;
+}> = ({ isOpen, onClose, policy, onDelete, onEdit, allLicenses, jurisdictions, onRestoreRevision, onApprovalChange, isLoading }) => {
+    const { can } = useCurrentUser();
     if (!isOpen || !policy) return null;
 
     const handleDeleteClick = () => {
@@ -617,7 +657,7 @@ const PolicyDetailsModal: React.FC<{
 
     return (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
-            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-3xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-5xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
                 <div className="p-4 border-b border-gray-700 flex justify-between items-center">
                     <h3 className="text-xl font-semibold text-white">Policy Details: {policy.name}</h3>
                     <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
@@ -626,7 +666,7 @@ const PolicyDetailsModal: React.FC<{
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div><strong>Category:</strong> {policy.category}</div>
                         <div><strong>Version:</strong> {policy.version}</div>
-                        <div><strong>Status:</strong> <span className={policy.status === 'Active' ? 'text-green-400' : policy.status === 'Draft' ? 'text-yellow-400' : 'text-gray-400'}>{policy.status}</span></div>
+                        <div><strong>Status:</strong> <span className={policy.status === 'Active' ? 'text-green-400' : policy.status === 'Draft' ? 'text-yellow-400' : policy.status === 'Under Review' ? 'text-cyan-400' : 'text-gray-400'}>{policy.status}</span></div>
                         <div><strong>Effective Date:</strong> {format(parseISO(policy.effectiveDate), 'MMM d, yyyy')}</div>
                         <div><strong>Review Date:</strong> {policy.reviewDate ? format(parseISO(policy.reviewDate), 'MMM d, yyyy') : 'N/A'}</div>
                         <div><strong>Responsible Department:</strong> {policy.responsibleDepartment}</div>
@@ -645,10 +685,7 @@ const PolicyDetailsModal: React.FC<{
                             <p className="text-gray-400">No specific jurisdictions listed.</p>
                         ) : (
                             <ul className="list-disc list-inside space-y-1">
-                                {policy.applicableJurisdictions.map(jurId => {
-                                    const jurisdiction = mockJurisdictions.find(j => j.id === jurId);
-                                    return <li key={jurId}>{jurisdiction ? jurisdiction.name : `Unknown Jurisdiction (${jurId})`}</li>;
-                                })}
+                                {policy.applicableJurisdictions.map(jurId => <li key={jurId}>{jurisdictionName(jurisdictions, jurId)}</li>)}
                             </ul>
                         )}
                     </div>
@@ -683,9 +720,19 @@ const PolicyDetailsModal: React.FC<{
                         )}
                     </div>
 
+                    <div className="border-t border-gray-700 pt-4">
+                        <h4 className="text-lg font-semibold text-white mb-3">Approval</h4>
+                        <PolicyApprovalPanel policy={policy} onChange={onApprovalChange} isLoading={isLoading} />
+                    </div>
+
+                    <div className="border-t border-gray-700 pt-4">
+                        <h4 className="text-lg font-semibold text-white mb-3">Version History</h4>
+                        <PolicyVersionHistory policy={policy} jurisdictions={jurisdictions} onRestore={revision => onRestoreRevision(policy, revision)} isLoading={isLoading} />
+                    </div>
+
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-700">
-                        <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>
-                        <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>
+                        {can('deletePolicy') && <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>}
+                        {can('editPolicy') && <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>}
                         <button onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Close</button>
                     </div>
                 </div>
@@ -700,7 +747,11 @@ const RegulatoryUpdateDetailsModal: React.FC<{
     update: RegulatoryUpdate | null;
     onUpdate: (update: RegulatoryUpdate) => void;
     isLoading: boolean;
-}> = ({ isOpen, onClose, update, onUpdate, isLoading }) => {
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    onOpenRecord: (link: RecordLink) => void;
+}> = ({ isOpen, onClose, update, onUpdate, isLoading, jurisdictions, regulators, onOpenRecord }) => {
+    const { can } = useCurrentUser();
     const [formState, setFormState] = useState<RegulatoryUpdate | null>(null);
 
     useEffect(() => {
@@ -764,7 +815,17 @@ const RegulatoryUpdateDetailsModal: React.FC<{
                 </div>
                 <form onSubmit={handleSubmit} className="p-6 space-y-6 text-gray-300">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div><strong>Source:</strong> {formState.source}</div>
+                        <div><strong>Source:</strong> <RegulatorLink name={formState.source} regulator={updateRegulator(formState, regulators)} onOpen={onOpenRecord} /></div>
+                        <div>
+                            <label className="block text-gray-300 text-sm font-bold mb-2">Issuing Regulator:</label>
+                            <select value={updateRegulator(formState, regulators)?.id || ''} onChange={e => {
+                                const regulator = resolveRegulator(regulators, e.target.value);
+                                setFormState(prev => prev ? { ...prev, regulatorId: regulator?.id, source: regulator?.shortName || prev.source } : null);
+                            }} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                                <option value="">Not a regulator in the directory</option>
+                                {[...regulators].sort((x, y) => x.shortName.localeCompare(y.shortName)).map(reg => <option key={reg.id} value={reg.id}>{reg.shortName} - {reg.name}</option>)}
+                            </select>
+                        </div>
                         <div><strong>Publication Date:</strong> {format(parseISO(formState.publicationDate), 'MMM d, yyyy')}</div>
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Severity:</label>
@@ -775,7 +836,9 @@ const RegulatoryUpdateDetailsModal: React.FC<{
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Status:</label>
                             <select name="status" value={formState.status} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
-                                {['New', 'Under Review', 'Impact Assessed', 'Implemented'].map(stat => <option key={stat} value={stat}>{stat}</option>)}
+                                {['New', 'Under Review', 'Impact Assessed', 'Implemented'].map(stat => (
+                                    <option key={stat} value={stat} disabled={stat === 'Implemented' && !can('closeRegulatoryUpdate') && update?.status !== 'Implemented'}>{stat}</option>
+                                ))}
                             </select>
                         </div>
                         <div><strong>Assigned To:</strong> {formState.assignedTo}</div>
@@ -794,10 +857,7 @@ const RegulatoryUpdateDetailsModal: React.FC<{
                             <p className="text-gray-400">Not specified.</p>
                         ) : (
                             <ul className="list-disc list-inside space-y-1">
-                                {formState.relevantJurisdictions.map(jurId => {
-                                    const jurisdiction = mockJurisdictions.find(j => j.id === jurId);
-                                    return <li key={jurId}>{jurisdiction ? jurisdiction.name : `Unknown Jurisdiction (${jurId})`}</li>;
-                                })}
+                                {formState.relevantJurisdictions.map(jurId => <li key={jurId}>{jurisdictionName(jurisdictions, jurId)}</li>)}
                             </ul>
                         )}
                     </div>
@@ -844,9 +904,11 @@ const RegulatoryUpdateDetailsModal: React.FC<{
 
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-700">
                         <button type="button" onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
-                        <button type="submit" disabled={isLoading} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">
-                            {isLoading ? 'Saving...' : 'Save Changes'}
-                        </button>
+                        {can('editRegulatoryUpdate') && (
+                            <button type="submit" disabled={isLoading} className="px-6 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">
+                                {isLoading ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        )}
                     </div>
                 </form>
             </div>
@@ -862,6 +924,7 @@ const RiskAssessmentFormModal: React.FC<{
     isLoading: boolean;
     showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
 }> = ({ isOpen, onClose, assessment, onSubmit, isLoading, showNotification }) => {
+    const { currentUser, can } = useCurrentUser();
     const [formState, setFormState] = useState<RiskAssessment>(assessment || {
         id: '', assessmentDate: new Date().toISOString(), assessedBy: '', scope: '',
         identifiedRisks: [], overallRiskRating: 'Low', mitigationPlan: '', status: 'Pending', reviewDate: ''
@@ -872,12 +935,12 @@ const RiskAssessmentFormModal: React.FC<{
             setFormState(assessment);
         } else {
             setFormState({
-                id: '', assessmentDate: new Date().toISOString(), assessedBy: 'Current User', scope: '',
+                id: '', assessmentDate: new Date().toISOString(), assessedBy: currentUser.name, scope: '',
                 identifiedRisks: [], overallRiskRating: 'Low', mitigationPlan: '', status: 'Pending',
                 reviewDate: addMonths(new Date(), 6).toISOString()
             });
         }
-    }, [assessment]);
+    }, [assessment, currentUser.name]);
 
     if (!isOpen) return null;
 
@@ -892,14 +955,8 @@ const RiskAssessmentFormModal: React.FC<{
         (risk as any)[field] = value; // Type assertion because field is generic
         // Recalculate inherent/residual risk if likelihood/impact changes
         if (field === 'likelihood' || field === 'impact') {
-            const likelihoodOrder = { 'Low': 1, 'Medium': 2, 'High': 3 };
-            const impactOrder = { 'Low': 1, 'Medium': 2, 'High': 3 };
-
-            const inherentScore = (likelihoodOrder[(risk.likelihood || 'Low') as 'Low' | 'Medium' | 'High'] || 0) *
-                                  (impactOrder[(risk.impact || 'Low') as 'Low' | 'Medium' | 'High'] || 0);
-            risk.inherentRisk = inherentScore >= 6 ? 'Critical' : inherentScore >= 4 ? 'High' : inherentScore >= 2 ? 'Medium' : 'Low';
-            // Simplified residual risk calculation (assuming mitigation reduces by one level if controls are present)
-            risk.residualRisk = risk.mitigationControls && risk.mitigationControls.length > 0 && risk.inherentRisk !== 'Low' ? (risk.inherentRisk === 'Critical' ? 'High' : risk.inherentRisk === 'High' ? 'Medium' : 'Low') : risk.inherentRisk;
+            risk.inherentRisk = calculateInherentRisk(risk.likelihood || 'Low', risk.impact || 'Low');
+            risk.residualRisk = calculateResidualRisk(risk.inherentRisk, risk.mitigationControls || []);
         }
 
         setFormState(prev => ({ ...prev, identifiedRisks: updatedRisks }));
@@ -940,10 +997,7 @@ const RiskAssessmentFormModal: React.FC<{
             return;
         }
         // Simple overall risk calculation
-        const maxRisk = formState.identifiedRisks.reduce((max, risk) => {
-            const riskOrder = { 'Low': 1, 'Medium': 2, 'High': 3, 'Critical': 4 };
-            return riskOrder[risk.residualRisk] > riskOrder[max] ? risk.residualRisk : max;
-        }, 'Low' as RiskAssessment['overallRiskRating']);
+        const maxRisk = highestRisk(formState.identifiedRisks.map(risk => risk.residualRisk));
         onSubmit({ ...formState, overallRiskRating: maxRisk });
     };
 
@@ -971,7 +1025,10 @@ const RiskAssessmentFormModal: React.FC<{
                         <div>
                             <label className="block text-gray-300 text-sm font-bold mb-2">Status:</label>
                             <select name="status" value={formState.status} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
-                                {['Completed', 'Pending', 'Rejected'].map(status => <option key={status} value={status}>{status}</option>)}
+                                {['Completed', 'Pending', 'Rejected'].map(status => (
+                                    // Completing an assessment is the sign-off.
+                                    <option key={status} value={status} disabled={status === 'Completed' && !can('signOffRiskAssessment') && assessment?.status !== 'Completed'}>{status}</option>
+                                ))}
                             </select>
                         </div>
                     </div>
@@ -1049,9 +1106,11 @@ const RiskAssessmentDetailsModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
     assessment: RiskAssessment | null;
+    sourceCheck?: ComplianceCheckResult;
     onDelete: (id: string) => void;
     onEdit: (assessment: RiskAssessment) => void;
-}> = ({ isOpen, onClose, assessment, onDelete, onEdit }) => {
+}> = ({ isOpen, onClose, assessment, sourceCheck, onDelete, onEdit }) => {
+    const { can } = useCurrentUser();
     if (!isOpen || !assessment) return null;
 
     const handleDeleteClick = () => {
@@ -1090,6 +1149,14 @@ const RiskAssessmentDetailsModal: React.FC<{
                         <div><strong>Overall Risk Rating:</strong> <span className={getRiskColorClass(assessment.overallRiskRating)}>{assessment.overallRiskRating}</span></div>
                         <div><strong>Status:</strong> <span className={assessment.status === 'Completed' ? 'text-green-400' : 'text-yellow-400'}>{assessment.status}</span></div>
                         <div><strong>Next Review Date:</strong> {assessment.reviewDate ? format(parseISO(assessment.reviewDate), 'MMM d, yyyy') : 'N/A'}</div>
+                        {assessment.sourceCheckId && (
+                            <div className="md:col-span-2">
+                                <strong>Drafted From AI Check:</strong>{' '}
+                                {sourceCheck
+                                    ? `${truncateText(sourceCheck.featureDescription, 80)} (${format(parseISO(sourceCheck.checkDate), 'MMM d, yyyy')}, ${sourceCheck.status === 'Completed' ? `signed-off risk ${sourceCheck.riskLevel}` : 'pending review'})`
+                                    : `${assessment.sourceCheckId} (no longer available)`}
+                            </div>
+                        )}
                     </div>
 
                     {assessment.mitigationPlan && (
@@ -1129,8 +1196,8 @@ const RiskAssessmentDetailsModal: React.FC<{
                     </div>
 
                     <div className="flex justify-end space-x-4 pt-4 border-t border-gray-700">
-                        <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>
-                        <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>
+                        {can('deleteRiskAssessment') && <button onClick={handleDeleteClick} className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded">Delete</button>}
+                        {can('editRiskAssessment') && <button onClick={handleEditClick} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded">Edit</button>}
                         <button onClick={onClose} className="px-6 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Close</button>
                     </div>
                 </div>
@@ -1143,7 +1210,13 @@ const AICheckHistoryModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
     history: ComplianceCheckResult[];
-}> = ({ isOpen, onClose, history }) => {
+    riskAssessments: RiskAssessment[];
+    onCreateRiskAssessment: (check: ComplianceCheckResult) => void;
+    onViewRiskAssessment: (assessment: RiskAssessment) => void;
+    onReview: (check: ComplianceCheckResult) => void;
+    isLoading: boolean;
+}> = ({ isOpen, onClose, history, riskAssessments, onCreateRiskAssessment, onViewRiskAssessment, onReview, isLoading }) => {
+    const { can } = useCurrentUser();
     if (!isOpen) return null;
 
     return (
@@ -1158,37 +1231,71 @@ const AICheckHistoryModal: React.FC<{
                         <p className="text-gray-400">No past AI compliance checks found.</p>
                     ) : (
                         <div className="space-y-6">
-                            {history.map(check => (
-                                <div key={check.id} className="bg-gray-700/30 p-4 rounded border border-gray-600">
-                                    <div className="flex justify-between items-center mb-2">
-                                        <h4 className="font-semibold text-white text-lg">{truncateText(check.featureDescription, 80)}</h4>
-                                        <span className="text-sm text-gray-400">{format(parseISO(check.checkDate), 'MMM d, yyyy HH:mm')}</span>
-                                    </div>
-                                    <p className="text-sm">
-                                        <strong>Risk Level:</strong> <span className={
-                                            check.riskLevel === 'Critical' ? 'text-red-400' :
-                                            check.riskLevel === 'High' ? 'text-orange-400' :
-                                            check.riskLevel === 'Medium' ? 'text-yellow-400' : 'text-green-400'
-                                        }>{check.riskLevel}</span>
-                                    </p>
-                                    <p className="text-sm">
-                                        <strong>Suggested Licenses:</strong> {check.suggestedLicenses.length > 0 ? check.suggestedLicenses.join(', ') : 'None'}
-                                    </p>
-                                    <div className="mt-3 p-3 bg-gray-900/50 rounded text-sm whitespace-pre-line max-h-48 overflow-y-auto custom-scrollbar">
-                                        <strong>AI Report:</strong><br />
-                                        {check.aiReport}
-                                    </div>
-                                    {check.notes && (
-                                        <div className="mt-3 p-3 bg-gray-900/50 rounded text-sm whitespace-pre-line">
-                                            <strong>Reviewer Notes:</strong><br />
-                                            {check.notes}
+                            {history.map(check => {
+                                const linkedAssessment = riskAssessments.find(ra => ra.id === check.riskAssessmentId);
+                                return (
+                                    <div key={check.id} className="bg-gray-700/30 p-4 rounded border border-gray-600">
+                                        <div className="flex justify-between items-center mb-2">
+                                            <h4 className="font-semibold text-white text-lg">{truncateText(check.featureDescription, 80)}</h4>
+                                            <span className="text-sm text-gray-400">{format(parseISO(check.checkDate), 'MMM d, yyyy HH:mm')}</span>
                                         </div>
-                                    )}
-                                    {check.reviewedBy && (
-                                        <p className="text-xs text-gray-500 mt-2">Reviewed by {check.reviewedBy} on {format(parseISO(check.reviewDate || ''), 'MMM d, yyyy')}</p>
-                                    )}
-                                </div>
-                            ))}
+                                        <p className="text-sm">
+                                            <span className={`px-2 py-1 mr-2 rounded-full text-xs font-semibold ${check.status === 'Completed' ? 'bg-green-600/30 text-green-400' : 'bg-yellow-600/30 text-yellow-400'}`}>
+                                                {check.status === 'Completed' ? `Signed Off${check.reviewOutcome ? ` (${check.reviewOutcome})` : ''}` : 'Pending Review'}
+                                            </span>
+                                            <strong>{check.status === 'Completed' ? 'Risk Level:' : 'AI Draft Risk Level:'}</strong> <span className={
+                                                check.riskLevel === 'Critical' ? 'text-red-400' :
+                                                check.riskLevel === 'High' ? 'text-orange-400' :
+                                                check.riskLevel === 'Medium' ? 'text-yellow-400' : 'text-green-400'
+                                            }>{check.riskLevel}</span>
+                                            {check.status === 'Completed' && check.assessment && check.assessment.riskLevel !== check.riskLevel && (
+                                                <span className="text-gray-400"> (AI rated {check.assessment.riskLevel})</span>
+                                            )}
+                                        </p>
+                                        <p className="text-sm">
+                                            <strong>{check.status === 'Completed' ? 'Suggested Licenses:' : 'AI Suggested Licenses:'}</strong> {check.suggestedLicenses.length > 0 ? check.suggestedLicenses.join(', ') : 'None'}
+                                        </p>
+                                        {check.assessment && (
+                                            <p className="text-sm">
+                                                <strong>Covered By:</strong> {check.assessment.coveredBy.length > 0 ? check.assessment.coveredBy.map(cov => cov.licenseName).join(', ') : 'No existing license'}
+                                                {' | '}<strong>Gaps:</strong> <span className={check.assessment.coverageGaps.length > 0 ? 'text-orange-400' : 'text-green-400'}>{check.assessment.coverageGaps.length}</span>
+                                            </p>
+                                        )}
+                                        {check.assessment && check.assessment.impactedComplianceAreas.length > 0 && (
+                                            <p className="text-sm">
+                                                <strong>Impacted Areas:</strong> {check.assessment.impactedComplianceAreas.join(', ')}
+                                            </p>
+                                        )}
+                                        <div className="mt-3 p-3 bg-gray-900/50 rounded text-sm whitespace-pre-line max-h-48 overflow-y-auto custom-scrollbar">
+                                            <strong>AI Report:</strong><br />
+                                            {check.aiReport}
+                                        </div>
+                                        {check.notes && (
+                                            <div className="mt-3 p-3 bg-gray-900/50 rounded text-sm whitespace-pre-line">
+                                                <strong>Reviewer Notes:</strong><br />
+                                                {check.notes}
+                                            </div>
+                                        )}
+                                        {check.reviewedBy && (
+                                            <p className="text-xs text-gray-500 mt-2">Reviewed by {check.reviewedBy} on {format(parseISO(check.reviewDate || ''), 'MMM d, yyyy')}</p>
+                                        )}
+                                        <div className="flex justify-end gap-2 mt-3">
+                                            {check.status === 'Pending Review' && can('signOffComplianceCheck') && (
+                                                <button onClick={() => onReview(check)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-white text-sm">Review</button>
+                                            )}
+                                            {linkedAssessment ? (
+                                                <button onClick={() => onViewRiskAssessment(linkedAssessment)} className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-white text-sm">
+                                                    View Risk Assessment ({linkedAssessment.status})
+                                                </button>
+                                            ) : can('editRiskAssessment') && (
+                                                <button onClick={() => onCreateRiskAssessment(check)} disabled={isLoading} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 rounded text-white text-sm disabled:opacity-50">
+                                                    Create Risk Assessment
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
                         </div>
                     )}
                 </div>
@@ -1201,24 +1308,38 @@ const AICheckHistoryModal: React.FC<{
 };
 
 // --- Main LicensingView Component ---
-const LicensingView: React.FC = () => {
-    const context = useContext(DataContext);
-    if (!context) throw new Error("LicensingView must be within DataProvider");
+const selectUpcomingRenewals3Months = selectUpcomingRenewals(3); // Remind within 3 months
+// How often license statuses are re-checked against the clock while the app stays open.
+const STATUS_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 
-    // Existing context and AI state
-    const { licenses: initialLicenses, setLicenses: setContextLicenses } = context; // using context's licenses for initial load
+const LicensingView: React.FC = () => {
+    // Domain data lives in the shared store; this view only keeps UI state.
+    const {
+        licenses: allLicenses, policies: allPolicies, regulatoryUpdates: allRegulatoryUpdates,
+        complianceChecks: allComplianceChecks, riskAssessments: allRiskAssessments, jurisdictions, regulators, policyRevisions, loadError, actions,
+        isLoading: isDataLoading
+    } = useData();
+    const upcomingRenewals = useDataSelector(selectUpcomingRenewals3Months);
+    const highSeverityRegUpdates = useDataSelector(selectOpenHighSeverityUpdates).length;
+    const [statusClock, setStatusClock] = useState(() => Date.now());
+    useEffect(() => {
+        const timer = setInterval(() => setStatusClock(Date.now()), STATUS_CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, []);
+    const selectStatusMismatchesNow: ReturnType<typeof selectLicenseStatusMismatches> = useMemo(() => selectLicenseStatusMismatches(new Date(statusClock)), [statusClock]);
+    const statusMismatches = useDataSelector(selectStatusMismatchesNow);
+    const brokenPolicyLinks = useDataSelector(selectBrokenPolicyLinks);
+    const licensesWithoutAmlKyc = useDataSelector(selectLicensesWithoutAmlKycPolicy);
+    const pendingReviewCount = allComplianceChecks.filter(check => check.status === 'Pending Review').length;
+    const { currentUser, can } = useCurrentUser();
+
+    // AI state
     const [isCheckerOpen, setCheckerOpen] = useState(false);
     const [featureDesc, setFeatureDesc] = useState("A new feature to allow cross-border payments to Brazil.");
     const [complianceReport, setComplianceReport] = useState('');
     const [isLoading, setIsLoading] = useState(false);
 
     // --- Local Component State (Extensive) ---
-    const [allLicenses, setAllLicenses] = useState<License[]>(mockLicenses);
-    const [allPolicies, setAllPolicies] = useState<CompliancePolicy[]>(mockCompliancePolicies);
-    const [allRegulatoryUpdates, setAllRegulatoryUpdates] = useState<RegulatoryUpdate[]>(mockRegulatoryUpdates);
-    const [allComplianceChecks, setAllComplianceChecks] = useState<ComplianceCheckResult[]>(mockComplianceCheckHistory);
-    const [allRiskAssessments, setAllRiskAssessments] = useState<RiskAssessment[]>(mockRiskAssessments);
-
     const [isLicenseModalOpen, setLicenseModalOpen] = useState(false);
     const [editingLicense, setEditingLicense] = useState<License | null>(null);
     const [viewingLicense, setViewingLicense] = useState<License | null>(null);
@@ -1238,6 +1359,15 @@ const LicensingView: React.FC = () => {
     const [isViewRiskAssessmentModalOpen, setViewRiskAssessmentModalOpen] = useState(false);
 
     const [isAICheckHistoryOpen, setAICheckHistoryOpen] = useState(false);
+    const [reviewingCheck, setReviewingCheck] = useState<ComplianceCheckResult | null>(null);
+    const [isAuditExplorerOpen, setAuditExplorerOpen] = useState(false);
+    const [isJurisdictionRegistryOpen, setJurisdictionRegistryOpen] = useState(false);
+    const [isPassportingOpen, setPassportingOpen] = useState(false);
+    const [isApprovalChainOpen, setApprovalChainOpen] = useState(false);
+    const [isAttestationsOpen, setAttestationsOpen] = useState(false);
+    const [isRegulatoryFeedsOpen, setRegulatoryFeedsOpen] = useState(false);
+    const [isRegulatorDirectoryOpen, setRegulatorDirectoryOpen] = useState(false);
+    const [directoryRegulatorId, setDirectoryRegulatorId] = useState<string | null>(null);
 
     // Filter & Pagination State for Licenses
     const [licenseSearchTerm, setLicenseSearchTerm] = useState('');
@@ -1264,49 +1394,36 @@ const LicensingView: React.FC = () => {
     const [currentPageRegUpdates, setCurrentPageRegUpdates] = useState(1);
     const [regUpdatesPerPage] = useState(10);
 
-    // Notification State
-    const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+    // Toasts queue in the shared notification center; inbox links land here to open their record.
+    const { showToast: showNotification, pendingLink, clearPendingLink } = useNotifications();
 
-    const showNotification = useCallback((message: string, type: 'success' | 'error' | 'info') => {
-        setNotification({ message, type });
-    }, []);
+    useEffect(() => {
+        if (loadError) showNotification(loadError, 'error');
+    }, [loadError, showNotification]);
+
+    // Buttons are already hidden per role; handlers re-check so no path slips through.
+    const requirePermission = (permission: Permission, actionLabel: string): boolean => {
+        if (can(permission)) return true;
+        showNotification(`As ${currentUser.role} you cannot ${actionLabel}.`, 'error');
+        return false;
+    };
 
     // --- AI Compliance Check Handlers ---
     const handleCheckCompliance = async () => {
+        if (!requirePermission('runComplianceCheck', 'run AI compliance checks')) return;
         setIsLoading(true); setComplianceReport('');
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = `As a highly experienced financial compliance expert and regulatory lawyer, meticulously review the following new feature description and provide a comprehensive compliance assessment.
-            
-            **New Feature Description:** "${featureDesc}"
-            
-            **Our Existing Licensing Context (summary):** We currently hold various money transmitter licenses (e.g., California, New York, UK FCA, Ireland CBI) and are authorized for electronic money services in the EEA.
-            
-            **Your Task:**
-            1.  **Identify Potential New Licenses:** Based on the feature, what new licenses or regulatory registrations might be required? Consider different jurisdictions.
-            2.  **Key Compliance Areas:** Highlight the most critical compliance areas impacted by this feature (e.g., AML/KYC, consumer protection, data privacy, cross-border reporting, sanctions, capital requirements).
-            3.  **Regulatory Challenges/Risks:** Describe specific regulatory challenges or risks this feature might introduce.
-            4.  **Mitigation Strategies:** Suggest high-level strategies or considerations to mitigate these risks and ensure compliance.
-            5.  **Jurisdictional Nuances:** If applicable, point out significant differences or specific requirements in key potential jurisdictions (e.g., Brazil, if mentioned).
-            
-            Provide your response in a structured, professional report format, suitable for internal compliance review.`;
-
-            // Using the requested model from instructions
-            const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt });
-            const aiText = response.text || "No response generated.";
-            setComplianceReport(aiText);
-
-            // Simulate parsing AI response for suggested licenses (simple regex for now)
-            const suggestedLics = (aiText.match(/(?:new licenses required:|potential new licenses:|licenses needed:)\s*([^\n\r]+)/i)?.[1] || '')
-                                   .split(/,|\sand\s/i).map(s => s.trim()).filter(Boolean);
-
-            const newCheckResult = createMockComplianceCheckResult(featureDesc, suggestedLics);
-            setAllComplianceChecks(prev => [newCheckResult, ...prev]);
-            showNotification('AI compliance check completed successfully!', 'success');
+            const portfolio = buildPortfolioContext({ licenses: allLicenses, policies: allPolicies, regulatoryUpdates: allRegulatoryUpdates, jurisdictions, policyRevisions });
+            const assessment = await complianceAIProvider.assessFeature(featureDesc, portfolio);
+            const newCheckResult = createComplianceCheckResult(featureDesc, assessment);
+            setComplianceReport(newCheckResult.aiReport);
+            await actions.add('complianceChecks', newCheckResult);
+            showNotification('AI compliance check completed and queued for review.', 'success');
 
         } catch (err) {
             console.error("AI compliance check failed:", err);
-            setComplianceReport("Error: Could not complete AI compliance check. Please try again or check API key.");
+            const detail = err instanceof Error ? `\n\n${err.message}` : '';
+            setComplianceReport(`Error: Could not complete AI compliance check. Please try again or check the AI provider configuration.${detail}`);
             showNotification('Failed to complete AI compliance check.', 'error');
         } finally {
             setIsLoading(false);
@@ -1314,44 +1431,159 @@ const LicensingView: React.FC = () => {
     };
 
     // --- License Management Handlers ---
-    const handleAddEditLicense = async (licenseData: License) => {
+    // A link is stored on both records. Once one side is saved, the store's link actions bring the
+    // other side in line; links to records that no longer exist are left for "Repair Links".
+    const saveLinkedPolicies = async (license: License) => {
+        for (const policy of allPolicies) {
+            if (license.associatedPolicies.includes(policy.id)) await actions.linkPolicy(license.id, policy.id);
+            else if (policy.relatedLicenses.includes(license.id)) await actions.unlinkPolicy(license.id, policy.id);
+        }
+    };
+
+    const saveLinkedLicenses = async (policy: CompliancePolicy) => {
+        for (const license of allLicenses) {
+            if (policy.relatedLicenses.includes(license.id)) await actions.linkPolicy(license.id, policy.id);
+            else if (license.associatedPolicies.includes(policy.id)) await actions.unlinkPolicy(license.id, policy.id);
+        }
+    };
+
+    const handleAddEditLicense = async (formData: License) => {
+        if (!requirePermission(formData.id ? 'editLicense' : 'createLicense', formData.id ? 'edit licenses' : 'create licenses')) return;
+        setIsLoading(true);
+        const licenseData = { ...formData, status: computeLicenseStatus(formData) };
+        try {
+            if (licenseData.id) { // Edit existing
+                // Documents are managed through uploads, so keep the stored list rather than the form's snapshot.
+                const stored = allLicenses.find(lic => lic.id === licenseData.id);
+                const saved = await actions.update('licenses', stored ? { ...licenseData, documents: stored.documents } : licenseData);
+                await saveLinkedPolicies(saved);
+                showNotification('License updated successfully!', 'success');
+            } else { // Add new
+                const saved = await actions.add('licenses', { ...licenseData, id: `LIC-${generateId()}`, documents: [], auditTrail: [] });
+                await saveLinkedPolicies(saved);
+                showNotification('License added successfully!', 'success');
+            }
+            setLicenseModalOpen(false);
+            setEditingLicense(null);
+        } catch (err) {
+            console.error("Failed to save license:", err);
+            showNotification('Failed to save license.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Brings every stored status in line with its dates, one audited update per transition.
+    const reconcileLicenseStatuses = useCallback(async (mismatches: LicenseStatusMismatch[]) => {
+        for (const { license, stored, computed } of mismatches) {
+            await actions.update('licenses', { ...license, status: computed }, {
+                auditAction: 'Status Recomputed',
+                auditDetails: `Status changed from ${stored} to ${computed}: ${describeStatusReason(license, computed)}.`,
+            });
+        }
+    }, [actions]);
+
+    const handleReconcileLicenseStatuses = async () => {
+        if (!requirePermission('editLicense', 'update license statuses')) return;
         setIsLoading(true);
-        if (licenseData.id) { // Edit existing
-            setAllLicenses(prev => prev.map(lic => lic.id === licenseData.id ? licenseData : lic));
-            showNotification('License updated successfully!', 'success');
-        } else { // Add new
-            const newLicense = { ...licenseData, id: `LIC-${generateId()}`, documents: [], auditTrail: [], associatedPolicies: [] };
-            setAllLicenses(prev => [newLicense, ...prev]);
-            showNotification('License added successfully!', 'success');
+        try {
+            await reconcileLicenseStatuses(statusMismatches);
+            showNotification(`Updated the status of ${statusMismatches.length} license(s).`, 'success');
+        } catch (err) {
+            console.error("Failed to reconcile license statuses:", err);
+            showNotification('Failed to reconcile license statuses.', 'error');
+        } finally {
+            setIsLoading(false);
         }
-        setLicenseModalOpen(false);
-        setEditingLicense(null);
-        setIsLoading(false);
-        // Update context if it's the source of truth for some features
-        // setContextLicenses(allLicenses); // Would need to ensure 'allLicenses' is up-to-date after state update
     };
 
+    // Statuses follow the dates without anyone clicking: whenever licenses drift, whether from an edit or
+    // from the clock passing a date, a user who may edit licenses brings them up to date, each change
+    // audited like the button's. A given set of drifted licenses is tried once, so a failing save is not
+    // retried in a loop; the banner and its button stay for that case.
+    const mismatchKey = statusMismatches.map(mismatch => `${mismatch.license.id}:${mismatch.computed}`).sort().join(',');
+    const autoReconciledKeyRef = useRef('');
+    const autoReconcilingRef = useRef(false);
+    useEffect(() => {
+        if (isDataLoading || !mismatchKey || !can('editLicense')) return;
+        if (autoReconcilingRef.current || autoReconciledKeyRef.current === mismatchKey) return;
+        autoReconciledKeyRef.current = mismatchKey;
+        autoReconcilingRef.current = true;
+        reconcileLicenseStatuses(statusMismatches)
+            .then(() => showNotification(`Updated the status of ${statusMismatches.length} license(s) to match their dates.`, 'info'))
+            .catch(err => {
+                console.error("Failed to reconcile license statuses:", err);
+                showNotification('Failed to reconcile license statuses.', 'error');
+            })
+            .finally(() => { autoReconcilingRef.current = false; });
+    }, [isDataLoading, mismatchKey, statusMismatches, can, reconcileLicenseStatuses, showNotification]);
+
     const handleDeleteLicense = async (licenseId: string) => {
+        if (!requirePermission('deleteLicense', 'delete licenses')) return;
         setIsLoading(true);
-        setAllLicenses(prev => prev.filter(lic => lic.id !== licenseId));
-        showNotification('License deleted successfully!', 'success');
-        setIsLoading(false);
+        try {
+            const license = allLicenses.find(lic => lic.id === licenseId);
+            if (license) await saveLinkedPolicies({ ...license, associatedPolicies: [] });
+            await actions.remove('licenses', licenseId);
+            showNotification('License deleted successfully!', 'success');
+        } catch (err) {
+            console.error("Failed to delete license:", err);
+            showNotification('Failed to delete license.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const handleUploadLicenseDocument = async (licenseId: string, document: Omit<LicenseDocument, 'id' | 'uploadDate' | 'uploadedBy'>, file: File) => {
+        const license = allLicenses.find(lic => lic.id === licenseId);
+        if (!license || !requirePermission('uploadLicenseDocument', 'upload license documents')) return;
         setIsLoading(true);
         const newDoc: LicenseDocument = {
             ...document,
             id: `DOC-${generateId()}`,
             uploadDate: new Date().toISOString(),
-            uploadedBy: "Current User", // Replace with actual user
+            uploadedBy: currentUser.name,
             url: URL.createObjectURL(file), // Simulate URL for display
         };
-        setAllLicenses(prev => prev.map(lic =>
-            lic.id === licenseId ? { ...lic, documents: [...lic.documents, newDoc] } : lic
-        ));
-        showNotification('Document uploaded successfully!', 'success');
-        setIsLoading(false);
+        try {
+            await actions.update('licenses', { ...license, documents: [...license.documents, newDoc] });
+            showNotification('Document uploaded successfully!', 'success');
+        } catch (err) {
+            console.error("Failed to upload license document:", err);
+            showNotification('Failed to upload document.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Each renewal step is saved with its own license history entry.
+    const handleRenewalChange = async ({ license, auditAction, auditDetails }: RenewalChange) => {
+        const permission = auditAction === 'Renewal Completed' ? 'completeLicenseRenewal' : 'manageLicenseRenewal';
+        if (!requirePermission(permission, 'manage license renewals')) return;
+        setIsLoading(true);
+        try {
+            await actions.update('licenses', license, { auditAction, auditDetails });
+            showNotification(`${auditAction}.`, 'success');
+        } catch (err) {
+            console.error("Failed to save license renewal:", err);
+            showNotification('Failed to save license renewal.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handlePassportChange = async ({ license, auditAction, auditDetails }: PassportChange) => {
+        if (!requirePermission('editLicense', 'record passport notifications')) return;
+        setIsLoading(true);
+        try {
+            await actions.update('licenses', license, { auditAction, auditDetails });
+            showNotification(`${auditAction}.`, 'success');
+        } catch (err) {
+            console.error("Failed to save passport notification:", err);
+            showNotification('Failed to save passport notification.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const openAddLicenseModal = () => { setEditingLicense(null); setLicenseModalOpen(true); };
@@ -1360,25 +1592,109 @@ const LicensingView: React.FC = () => {
 
     // --- Compliance Policy Handlers ---
     const handleAddEditPolicy = async (policyData: CompliancePolicy) => {
+        if (!requirePermission('editPolicy', 'edit policies')) return;
+        const previous = allPolicies.find(pol => pol.id === policyData.id);
+        if (retiresPolicy(previous, policyData) && !requirePermission('publishPolicy', 'retire active policies')) return;
+        let prepared: ReturnType<typeof prepareManualSave>;
+        try {
+            prepared = prepareManualSave(previous, policyData);
+        } catch (err) {
+            showNotification(err instanceof Error ? err.message : String(err), 'error');
+            return;
+        }
         setIsLoading(true);
-        if (policyData.id) { // Edit existing
-            setAllPolicies(prev => prev.map(pol => pol.id === policyData.id ? policyData : pol));
-            showNotification('Compliance policy updated successfully!', 'success');
-        } else { // Add new
-            const newPolicy = { ...policyData, id: `POL-${generateId()}`, documents: [], lastUpdateDate: new Date().toISOString(), lastUpdatedBy: "Current User" };
-            setAllPolicies(prev => [newPolicy, ...prev]);
-            showNotification('Compliance policy added successfully!', 'success');
+        try {
+            if (policyData.id) { // Edit existing
+                const saved = await actions.update('policies', { ...prepared.policy, lastUpdatedBy: currentUser.name, lastUpdateDate: new Date().toISOString() });
+                await saveLinkedLicenses(saved);
+                showNotification(prepared.notice || 'Compliance policy updated successfully!', prepared.notice ? 'info' : 'success');
+            } else { // Add new
+                const saved = await actions.add('policies', { ...prepared.policy, id: `POL-${generateId()}`, documents: [], lastUpdateDate: new Date().toISOString(), lastUpdatedBy: currentUser.name });
+                await saveLinkedLicenses(saved);
+                showNotification('Compliance policy added as a draft. Submit it for approval to make it active.', 'success');
+            }
+            setPolicyModalOpen(false);
+            setEditingPolicy(null);
+        } catch (err) {
+            console.error("Failed to save compliance policy:", err);
+            showNotification('Failed to save compliance policy.', 'error');
+        } finally {
+            setIsLoading(false);
         }
-        setPolicyModalOpen(false);
-        setEditingPolicy(null);
-        setIsLoading(false);
     };
 
     const handleDeletePolicy = async (policyId: string) => {
+        if (!requirePermission('deletePolicy', 'delete policies')) return;
         setIsLoading(true);
-        setAllPolicies(prev => prev.filter(pol => pol.id !== policyId));
-        showNotification('Compliance policy deleted successfully!', 'success');
-        setIsLoading(false);
+        try {
+            const policy = allPolicies.find(pol => pol.id === policyId);
+            if (policy) await saveLinkedLicenses({ ...policy, relatedLicenses: [] });
+            await actions.remove('policies', policyId);
+            showNotification('Compliance policy deleted successfully!', 'success');
+        } catch (err) {
+            console.error("Failed to delete compliance policy:", err);
+            showNotification('Failed to delete compliance policy.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Revisions themselves never change; restoring saves the old content as the policy's new draft.
+    const handleRestorePolicyRevision = async (policy: CompliancePolicy, revision: PolicyRevision) => {
+        if (!requirePermission('editPolicy', 'restore policy versions')) return;
+        setIsLoading(true);
+        try {
+            await actions.update('policies', prepareManualSave(policy, restoreRevisionAsDraft(policy, revision, currentUser.name)).policy, {
+                auditAction: 'Revision Restored',
+                auditDetails: `Restored revision ${revision.revisionNumber} (version ${revision.snapshot.version}) as a draft.`,
+            });
+            showNotification(`Revision ${revision.revisionNumber} restored as a draft.`, 'success');
+        } catch (err) {
+            console.error("Failed to restore policy revision:", err);
+            showNotification(err instanceof Error ? err.message : 'Failed to restore policy revision.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Submitting and deciding steps are policy edits; the final approval puts the policy in force.
+    const handlePolicyApprovalChange = async ({ policy, auditAction, auditDetails }: PolicyApprovalChange) => {
+        if (auditAction === 'Policy Approved') {
+            if (!requirePermission('publishPolicy', 'give policies final approval')) return;
+        } else if (!requirePermission('editPolicy', auditAction === 'Submitted for Approval' ? 'submit policies for approval' : 'approve or reject policy drafts')) {
+            return;
+        }
+        setIsLoading(true);
+        try {
+            await actions.update('policies', policy, { auditAction, auditDetails });
+            showNotification(`${auditAction}.`, 'success');
+        } catch (err) {
+            console.error("Failed to save policy approval:", err);
+            showNotification('Failed to save policy approval.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Drops links to deleted records and completes one-sided links.
+    const handleRepairPolicyLinks = async () => {
+        if (!requirePermission('editLicense', 'repair license-policy links') || !requirePermission('editPolicy', 'repair license-policy links')) return;
+        const repaired = repairPolicyLinks({ licenses: allLicenses, policies: allPolicies });
+        setIsLoading(true);
+        try {
+            for (const license of repaired.licenses) {
+                await actions.update('licenses', license, { auditAction: 'Policy Links Repaired', auditDetails: `Now linked to ${license.associatedPolicies.length} policy(ies).` });
+            }
+            for (const policy of repaired.policies) {
+                await actions.update('policies', policy, { auditAction: 'License Links Repaired', auditDetails: `Now linked to ${policy.relatedLicenses.length} license(s).` });
+            }
+            showNotification(`Repaired links on ${repaired.licenses.length} license(s) and ${repaired.policies.length} policy(ies).`, 'success');
+        } catch (err) {
+            console.error("Failed to repair license-policy links:", err);
+            showNotification('Failed to repair license-policy links.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const openAddPolicyModal = () => { setEditingPolicy(null); setPolicyModalOpen(true); };
@@ -1387,40 +1703,145 @@ const LicensingView: React.FC = () => {
 
     // --- Regulatory Update Handlers ---
     const handleUpdateRegulatoryUpdate = async (updateData: RegulatoryUpdate) => {
+        if (!requirePermission('editRegulatoryUpdate', 'edit regulatory updates')) return;
+        if (closesRegulatoryUpdate(allRegulatoryUpdates.find(upd => upd.id === updateData.id), updateData) && !requirePermission('closeRegulatoryUpdate', 'close regulatory updates')) return;
         setIsLoading(true);
-        setAllRegulatoryUpdates(prev => prev.map(upd => upd.id === updateData.id ? updateData : upd));
-        showNotification('Regulatory update processed successfully!', 'success');
-        setRegulatoryUpdateModalOpen(false);
-        setIsLoading(false);
+        try {
+            await actions.update('regulatoryUpdates', updateData);
+            showNotification('Regulatory update processed successfully!', 'success');
+            setRegulatoryUpdateModalOpen(false);
+        } catch (err) {
+            console.error("Failed to save regulatory update:", err);
+            showNotification('Failed to save regulatory update.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const openViewRegulatoryUpdateModal = (update: RegulatoryUpdate) => { setViewingRegulatoryUpdate(update); setRegulatoryUpdateModalOpen(true); };
 
     // --- Risk Assessment Handlers ---
     const handleAddEditRiskAssessment = async (assessmentData: RiskAssessment) => {
+        if (!requirePermission('editRiskAssessment', 'edit risk assessments')) return;
+        if (signsOffRiskAssessment(allRiskAssessments.find(ra => ra.id === assessmentData.id), assessmentData) && !requirePermission('signOffRiskAssessment', 'sign off risk assessments')) return;
         setIsLoading(true);
-        if (assessmentData.id) {
-            setAllRiskAssessments(prev => prev.map(ra => ra.id === assessmentData.id ? assessmentData : ra));
-            showNotification('Risk assessment updated successfully!', 'success');
-        } else {
-            const newAssessment = { ...assessmentData, id: `RA-${generateId()}`, assessmentDate: new Date().toISOString(), assessedBy: "Current User" };
-            setAllRiskAssessments(prev => [newAssessment, ...prev]);
-            showNotification('Risk assessment created successfully!', 'success');
+        try {
+            if (assessmentData.id) {
+                await actions.update('riskAssessments', assessmentData);
+                showNotification('Risk assessment updated successfully!', 'success');
+            } else {
+                await actions.add('riskAssessments', { ...assessmentData, id: `RA-${generateId()}`, assessmentDate: new Date().toISOString(), assessedBy: currentUser.name });
+                showNotification('Risk assessment created successfully!', 'success');
+            }
+            setRiskAssessmentModalOpen(false);
+            setEditingRiskAssessment(null);
+        } catch (err) {
+            console.error("Failed to save risk assessment:", err);
+            showNotification('Failed to save risk assessment.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleDeleteRiskAssessment = async (assessmentId: string) => {
+        if (!requirePermission('deleteRiskAssessment', 'delete risk assessments')) return;
+        setIsLoading(true);
+        try {
+            await actions.remove('riskAssessments', assessmentId);
+            // Let the source check be converted again.
+            const sourceCheck = allComplianceChecks.find(check => check.riskAssessmentId === assessmentId);
+            if (sourceCheck) {
+                await actions.update('complianceChecks', { ...sourceCheck, riskAssessmentId: undefined });
+            }
+            showNotification('Risk assessment deleted successfully!', 'success');
+        } catch (err) {
+            console.error("Failed to delete risk assessment:", err);
+            showNotification('Failed to delete risk assessment.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // --- AI Check Review Handlers ---
+    const handleSaveCheckReview = async (check: ComplianceCheckResult, review: ComplianceCheckReview, signOff: boolean) => {
+        if (!requirePermission('signOffComplianceCheck', 'review AI compliance checks')) return;
+        setIsLoading(true);
+        try {
+            if (signOff) {
+                const signedOff = signOffComplianceCheck(check, review, currentUser.name);
+                await actions.update('complianceChecks', signedOff, { auditAction: 'Signed Off', auditDetails: `Review outcome: ${signedOff.reviewOutcome}` });
+                showNotification('Compliance check signed off.', 'success');
+                setReviewingCheck(null);
+            } else {
+                await actions.update('complianceChecks', { ...check, notes: review.notes.trim() || undefined }, { auditAction: 'Review Notes Updated' });
+                showNotification('Review notes saved.', 'success');
+            }
+        } catch (err) {
+            console.error("Failed to save compliance check review:", err);
+            showNotification('Failed to save compliance check review.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Drafts a pending assessment from the check's findings and opens it for editing.
+    const handleCreateRiskAssessmentFromCheck = async (check: ComplianceCheckResult) => {
+        if (!requirePermission('editRiskAssessment', 'create risk assessments')) return;
+        setIsLoading(true);
+        try {
+            const draft = createRiskAssessmentDraft(check, currentUser.name);
+            await actions.add('riskAssessments', draft, { auditDetails: `Drafted from AI compliance check ${check.id}` });
+            await actions.update('complianceChecks', { ...check, riskAssessmentId: draft.id }, { auditAction: 'Risk Assessment Linked', auditDetails: `Linked to risk assessment ${draft.id}` });
+            showNotification('Draft risk assessment created from AI check.', 'success');
+            setAICheckHistoryOpen(false);
+            openEditRiskAssessmentModal(draft);
+        } catch (err) {
+            console.error("Failed to create risk assessment from AI check:", err);
+            showNotification('Failed to create risk assessment from AI check.', 'error');
+        } finally {
+            setIsLoading(false);
         }
-        setRiskAssessmentModalOpen(false);
-        setEditingRiskAssessment(null);
-        setIsLoading(false);
     };
 
     const openAddRiskAssessmentModal = () => { setEditingRiskAssessment(null); setRiskAssessmentModalOpen(true); };
     const openEditRiskAssessmentModal = (assessment: RiskAssessment) => { setEditingRiskAssessment(assessment); setRiskAssessmentModalOpen(true); };
     const openViewRiskAssessmentModal = (assessment: RiskAssessment) => { setViewingRiskAssessment(assessment); setViewRiskAssessmentModalOpen(true); };
 
+    // --- Record Links (calendar entries, inbox notifications) ---
+    const openRegulatorDirectory = (regulatorId: string | null) => {
+        setDirectoryRegulatorId(regulatorId);
+        setRegulatorDirectoryOpen(true);
+    };
+
+    const openRecord = (link: RecordLink) => {
+        const { type, id } = link;
+        const license = type === 'license' ? allLicenses.find(lic => lic.id === id) : undefined;
+        const policy = type === 'policy' ? allPolicies.find(pol => pol.id === id) : undefined;
+        const update = type === 'regulatoryUpdate' ? allRegulatoryUpdates.find(upd => upd.id === id) : undefined;
+        const assessment = type === 'riskAssessment' ? allRiskAssessments.find(ra => ra.id === id) : undefined;
+        const regulator = type === 'regulator' ? regulators.find(reg => reg.id === id) : undefined;
+        if (license) openViewLicenseModal(license);
+        else if (policy) openViewPolicyModal(policy);
+        else if (update) openViewRegulatoryUpdateModal(update);
+        else if (assessment) openViewRiskAssessmentModal(assessment);
+        else if (regulator) openRegulatorDirectory(regulator.id);
+        else showNotification('That record no longer exists.', 'info');
+    };
+
+    useEffect(() => {
+        if (!pendingLink || isDataLoading) return;
+        openRecord(pendingLink);
+        clearPendingLink();
+    }, [pendingLink, isDataLoading]);
+
     // --- Filtered and Paginated Data ---
+    const jurisdictionNameById = useMemo(() => new Map(jurisdictions.map(jur => [jur.id, jur.name])), [jurisdictions]);
+    const licenseJurisdictionName = (lic: License) => jurisdictionNameById.get(lic.jurisdictionId) || jurisdictionName(jurisdictions, lic.jurisdictionId);
+
     const filteredAndSortedLicenses = useMemo(() => {
         let filtered = allLicenses.filter(lic =>
             lic.name.toLowerCase().includes(licenseSearchTerm.toLowerCase()) ||
-            lic.jurisdiction.toLowerCase().includes(licenseSearchTerm.toLowerCase()) ||
+            licenseJurisdictionName(lic).toLowerCase().includes(licenseSearchTerm.toLowerCase()) ||
             lic.licenseNumber.toLowerCase().includes(licenseSearchTerm.toLowerCase())
         );
 
@@ -1429,8 +1850,8 @@ const LicensingView: React.FC = () => {
         }
 
         filtered.sort((a, b) => {
-            const aVal = a[licenseSortBy];
-            const bVal = b[licenseSortBy];
+            const aVal = licenseSortBy === 'jurisdiction' ? licenseJurisdictionName(a) : a[licenseSortBy];
+            const bVal = licenseSortBy === 'jurisdiction' ? licenseJurisdictionName(b) : b[licenseSortBy];
 
             if (typeof aVal === 'string' && typeof bVal === 'string') {
                 return licenseSortOrder === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
@@ -1442,7 +1863,7 @@ const LicensingView: React.FC = () => {
         });
 
         return filtered;
-    }, [allLicenses, licenseSearchTerm, licenseFilterStatus, licenseSortBy, licenseSortOrder]);
+    }, [allLicenses, jurisdictionNameById, licenseSearchTerm, licenseFilterStatus, licenseSortBy, licenseSortOrder]);
 
     const currentLicenses = useMemo(() => {
         const indexOfLastLicense = currentPageLicenses * licensesPerPage;
@@ -1523,16 +1944,15 @@ const LicensingView: React.FC = () => {
 
     const totalPagesRegUpdates = Math.ceil(filteredAndSortedRegulatoryUpdates.length / regUpdatesPerPage);
 
+    const mismatchedStatusById = useMemo(
+        () => new Map(statusMismatches.map(mismatch => [mismatch.license.id, mismatch.computed])),
+        [statusMismatches]
+    );
+
     // Dashboard Metrics
     const activeLicensesCount = allLicenses.filter(lic => lic.status === 'Active').length;
     const pendingRenewalLicensesCount = allLicenses.filter(lic => lic.status === 'Pending Renewal').length;
     const expiredLicensesCount = allLicenses.filter(lic => lic.status === 'Expired').length;
-    const upcomingRenewals = allLicenses.filter(lic => {
-        const reminderDate = new Date(lic.nextRenewalReminderDate);
-        return isFuture(reminderDate) && addMonths(new Date(), 3) > reminderDate; // Remind within 3 months
-    }).sort((a, b) => new Date(a.nextRenewalReminderDate).getTime() - new Date(b.nextRenewalReminderDate).getTime());
-
-    const highSeverityRegUpdates = allRegulatoryUpdates.filter(upd => upd.severity === 'High' && upd.status !== 'Implemented').length;
 
     // --- Main Render ---
     return (
@@ -1541,8 +1961,14 @@ const LicensingView: React.FC = () => {
                 <div className="flex justify-between items-center flex-wrap gap-4">
                     <h2 className="text-3xl font-bold text-white tracking-wider">Regulatory Compliance & Licensing Hub</h2>
                     <div className="flex gap-3">
-                        <button onClick={() => setAICheckHistoryOpen(true)} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium">AI Check History</button>
-                        <button onClick={() => setCheckerOpen(true)} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm font-medium">AI Compliance Check</button>
+                        <button onClick={() => openRegulatorDirectory(null)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Regulators</button>
+                        <button onClick={() => setJurisdictionRegistryOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Jurisdictions</button>
+                        <button onClick={() => setPassportingOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Passporting</button>
+                        {can('viewAuditLog') && <button onClick={() => setAuditExplorerOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Audit Log</button>}
+                        <button onClick={() => setAICheckHistoryOpen(true)} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium">
+                            AI Check History{pendingReviewCount > 0 ? ` (${pendingReviewCount} to review)` : ''}
+                        </button>
+                        {can('runComplianceCheck') && <button onClick={() => setCheckerOpen(true)} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg text-sm font-medium">AI Compliance Check</button>}
                     </div>
                 </div>
 
@@ -1571,6 +1997,47 @@ const LicensingView: React.FC = () => {
                     </Card>
                 </div>
 
+                {statusMismatches.length > 0 && (
+                    <div className="flex justify-between items-center gap-4 p-4 rounded-lg border border-yellow-600/50 bg-yellow-600/10">
+                        <p className="text-yellow-300 text-sm">
+                            {statusMismatches.length} license(s) have a stored status that no longer matches their dates, e.g. {statusMismatches[0].license.name} is stored as {statusMismatches[0].stored} but should be {statusMismatches[0].computed}.
+                        </p>
+                        {can('editLicense') && (
+                            <button onClick={handleReconcileLicenseStatuses} disabled={isLoading} className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg text-sm font-medium whitespace-nowrap disabled:opacity-50">Reconcile Statuses</button>
+                        )}
+                    </div>
+                )}
+
+                {brokenPolicyLinks.length > 0 && (
+                    <div className="flex justify-between items-center gap-4 p-4 rounded-lg border border-yellow-600/50 bg-yellow-600/10">
+                        <p className="text-yellow-300 text-sm">
+                            {brokenPolicyLinks.length} license-policy link(s) are broken, e.g. {brokenPolicyLinks[0].label} {brokenPolicyLinks[0].problem}.
+                        </p>
+                        {can('editLicense') && can('editPolicy') && (
+                            <button onClick={handleRepairPolicyLinks} disabled={isLoading} className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg text-sm font-medium whitespace-nowrap disabled:opacity-50">Repair Links</button>
+                        )}
+                    </div>
+                )}
+
+                {licensesWithoutAmlKyc.length > 0 && (
+                    <div className="p-4 rounded-lg border border-red-600/50 bg-red-600/10">
+                        <p className="text-red-300 text-sm">
+                            {licensesWithoutAmlKyc.length} license(s) are in jurisdictions with no AML/KYC policy in force:{' '}
+                            {Array.from(new Set(allLicenses.filter(lic => licensesWithoutAmlKyc.some(issue => issue.recordId === lic.id)).map(licenseJurisdictionName))).join(', ')}.
+                        </p>
+                    </div>
+                )}
+
+                {/* --- Compliance Calendar --- */}
+                <Card title="Compliance Calendar">
+                    <ComplianceCalendar onSelectEvent={event => openRecord(event.source)} />
+                </Card>
+
+                {/* --- License Coverage Map --- */}
+                <Card title="License Coverage Map">
+                    <CoverageMap onOpenRecord={openRecord} />
+                </Card>
+
                 {/* --- License Repository --- */}
                 <Card title="License Repository">
                     <div className="flex justify-between items-center mb-4 flex-wrap gap-3">
@@ -1607,7 +2074,7 @@ const LicensingView: React.FC = () => {
                         >
                             {licenseSortOrder === 'asc' ? '↑ Asc' : '↓ Desc'}
                         </button>
-                        <button onClick={openAddLicenseModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Add New License</button>
+                        {can('createLicense') && <button onClick={openAddLicenseModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Add New License</button>}
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
                         <table className="w-full text-sm">
@@ -1628,7 +2095,7 @@ const LicensingView: React.FC = () => {
                                     currentLicenses.map(lic => (
                                         <tr key={lic.id} className="border-b border-gray-700 hover:bg-gray-800/50">
                                             <td className="px-6 py-4 text-white font-medium">{lic.name}</td>
-                                            <td className="px-6 py-4 text-gray-300">{lic.jurisdiction}</td>
+                                            <td className="px-6 py-4 text-gray-300">{licenseJurisdictionName(lic)}</td>
                                             <td className="px-6 py-4 text-gray-300">{lic.licenseNumber}</td>
                                             <td>
                                                 <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
@@ -1638,13 +2105,16 @@ const LicensingView: React.FC = () => {
                                                 }`}>
                                                     {lic.status}
                                                 </span>
+                                                {mismatchedStatusById.has(lic.id) && (
+                                                    <span className="ml-1 text-yellow-400 cursor-help" title={`Dates say ${mismatchedStatusById.get(lic.id)}`}>&#9888;</span>
+                                                )}
                                             </td>
                                             <td className="px-6 py-4 text-gray-300">{format(parseISO(lic.expiryDate), 'MMM d, yyyy')}</td>
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center space-x-2">
                                                     <button onClick={() => openViewLicenseModal(lic)} className="text-cyan-500 hover:text-cyan-400 text-sm">View</button>
-                                                    <button onClick={() => openEditLicenseModal(lic)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>
-                                                    <button onClick={() => handleDeleteLicense(lic.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>
+                                                    {can('editLicense') && <button onClick={() => openEditLicenseModal(lic)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>}
+                                                    {can('deleteLicense') && <button onClick={() => handleDeleteLicense(lic.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1700,7 +2170,9 @@ const LicensingView: React.FC = () => {
                         >
                             {policySortOrder === 'asc' ? '↑ Asc' : '↓ Desc'}
                         </button>
-                        <button onClick={openAddPolicyModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Add New Policy</button>
+                        <button onClick={() => setApprovalChainOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Approval Chain</button>
+                        <button onClick={() => setAttestationsOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Attestations</button>
+                        {can('editPolicy') && <button onClick={openAddPolicyModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Add New Policy</button>}
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
                         <table className="w-full text-sm">
@@ -1727,17 +2199,19 @@ const LicensingView: React.FC = () => {
                                                 <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
                                                     pol.status === 'Active' ? 'bg-green-600/30 text-green-400' :
                                                     pol.status === 'Draft' ? 'bg-yellow-600/30 text-yellow-400' :
+                                                    pol.status === 'Under Review' ? 'bg-cyan-600/30 text-cyan-400' :
                                                     'bg-gray-600/30 text-gray-400'
                                                 }`}>
                                                     {pol.status}
                                                 </span>
+                                                {awaitingStep(pol) && <span className="block text-xs text-gray-400 mt-1">Awaiting {awaitingStep(pol)?.name}</span>}
                                             </td>
                                             <td className="px-6 py-4 text-gray-300">{format(parseISO(pol.effectiveDate), 'MMM d, yyyy')}</td>
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center space-x-2">
                                                     <button onClick={() => openViewPolicyModal(pol)} className="text-cyan-500 hover:text-cyan-400 text-sm">View</button>
-                                                    <button onClick={() => openEditPolicyModal(pol)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>
-                                                    <button onClick={() => handleDeletePolicy(pol.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>
+                                                    {can('editPolicy') && <button onClick={() => openEditPolicyModal(pol)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>}
+                                                    {can('deletePolicy') && <button onClick={() => handleDeletePolicy(pol.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1803,6 +2277,7 @@ const LicensingView: React.FC = () => {
                         >
                             {regUpdateSortOrder === 'asc' ? '↑ Asc' : '↓ Desc'}
                         </button>
+                        <button onClick={() => setRegulatoryFeedsOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium">Feeds</button>
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
                         <table className="w-full text-sm">
@@ -1845,7 +2320,7 @@ const LicensingView: React.FC = () => {
                                             </td>
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center space-x-2">
-                                                    <button onClick={() => openViewRegulatoryUpdateModal(upd)} className="text-cyan-500 hover:text-cyan-400 text-sm">View & Assess</button>
+                                                    <button onClick={() => openViewRegulatoryUpdateModal(upd)} className="text-cyan-500 hover:text-cyan-400 text-sm">{can('editRegulatoryUpdate') ? 'View & Assess' : 'View'}</button>
                                                 </div>
                                             </td>
                                         </tr>
@@ -1875,7 +2350,7 @@ const LicensingView: React.FC = () => {
                             onChange={(e) => setLicenseSearchTerm(e.target.value)}
                             className="w-full md:w-64 bg-gray-700/50 p-2 rounded text-white text-sm"
                         />
-                        <button onClick={openAddRiskAssessmentModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Create New Assessment</button>
+                        {can('editRiskAssessment') && <button onClick={openAddRiskAssessmentModal} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium">Create New Assessment</button>}
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
                         <table className="w-full text-sm">
@@ -1919,8 +2394,8 @@ const LicensingView: React.FC = () => {
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center space-x-2">
                                                     <button onClick={() => openViewRiskAssessmentModal(ra)} className="text-cyan-500 hover:text-cyan-400 text-sm">View</button>
-                                                    <button onClick={() => openEditRiskAssessmentModal(ra)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>
-                                                    <button onClick={() => handleDeleteLicense(ra.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>
+                                                    {can('editRiskAssessment') && <button onClick={() => openEditRiskAssessmentModal(ra)} className="text-indigo-500 hover:text-indigo-400 text-sm">Edit</button>}
+                                                    {can('deleteRiskAssessment') && <button onClick={() => handleDeleteRiskAssessment(ra.id)} className="text-red-500 hover:text-red-400 text-sm">Delete</button>}
                                                 </div>
                                             </td>
                                         </tr>
@@ -1937,7 +2412,10 @@ const LicensingView: React.FC = () => {
                 <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={() => setCheckerOpen(false)}>
                     <div className="bg-gray-800 rounded-lg shadow-2xl max-w-lg w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
                         <div className="p-4 border-b border-gray-700 flex justify-between items-center">
-                            <h3 className="text-lg font-semibold text-white">AI Compliance Checker</h3>
+                            <div>
+                                <h3 className="text-lg font-semibold text-white">AI Compliance Checker</h3>
+                                <p className="text-xs text-gray-400">Provider: {complianceAIProvider.name}</p>
+                            </div>
                             <button onClick={() => setCheckerOpen(false)} className="text-gray-400 hover:text-white text-2xl">&times;</button>
                         </div>
                         <div className="p-6 space-y-4">
@@ -1962,7 +2440,7 @@ const LicensingView: React.FC = () => {
                             </button>
                             {complianceReport && (
                                 <div className="p-3 bg-gray-900/50 rounded whitespace-pre-line text-sm text-gray-200 border border-gray-700 max-h-60 overflow-y-auto custom-scrollbar">
-                                    <h4 className="font-semibold text-cyan-400 mb-2">AI Compliance Report:</h4>
+                                    <h4 className="font-semibold text-cyan-400 mb-2">AI Compliance Report (draft, pending compliance review):</h4>
                                     {complianceReport}
                                 </div>
                             )}
@@ -1979,15 +2457,24 @@ const LicensingView: React.FC = () => {
                 onSubmit={handleAddEditLicense}
                 isLoading={isLoading}
                 onUploadDocument={handleUploadLicenseDocument}
+                jurisdictions={jurisdictions}
+                regulators={regulators}
+                policies={allPolicies}
                 showNotification={showNotification}
             />
             <LicenseDetailsModal
                 isOpen={isViewLicenseModalOpen}
                 onClose={() => setViewLicenseModalOpen(false)}
-                license={viewingLicense}
+                license={viewingLicense ? allLicenses.find(lic => lic.id === viewingLicense.id) || null : null} // Live record so new audit entries show up
                 onDelete={handleDeleteLicense}
                 onEdit={openEditLicenseModal}
                 allPolicies={allPolicies}
+                jurisdictions={jurisdictions}
+                regulators={regulators}
+                onRenewalChange={handleRenewalChange}
+                onPassportChange={handlePassportChange}
+                onOpenRecord={openRecord}
+                isLoading={isLoading}
             />
             <PolicyFormModal
                 isOpen={isPolicyModalOpen}
@@ -1995,15 +2482,21 @@ const LicensingView: React.FC = () => {
                 policy={editingPolicy}
                 onSubmit={handleAddEditPolicy}
                 isLoading={isLoading}
+                jurisdictions={jurisdictions}
+                licenses={allLicenses}
                 showNotification={showNotification}
             />
             <PolicyDetailsModal
                 isOpen={isViewPolicyModalOpen}
                 onClose={() => setViewPolicyModalOpen(false)}
-                policy={viewingPolicy}
+                policy={viewingPolicy ? allPolicies.find(pol => pol.id === viewingPolicy.id) || null : null} // Live record so restores show up
                 onDelete={handleDeletePolicy}
                 onEdit={openEditPolicyModal}
                 allLicenses={allLicenses}
+                jurisdictions={jurisdictions}
+                onRestoreRevision={handleRestorePolicyRevision}
+                onApprovalChange={handlePolicyApprovalChange}
+                isLoading={isLoading}
             />
             <RegulatoryUpdateDetailsModal
                 isOpen={isRegulatoryUpdateModalOpen}
@@ -2011,6 +2504,9 @@ const LicensingView: React.FC = () => {
                 update={viewingRegulatoryUpdate}
                 onUpdate={handleUpdateRegulatoryUpdate}
                 isLoading={isLoading}
+                jurisdictions={jurisdictions}
+                regulators={regulators}
+                onOpenRecord={openRecord}
             />
             <RiskAssessmentFormModal
                 isOpen={isRiskAssessmentModalOpen}
@@ -2024,23 +2520,56 @@ const LicensingView: React.FC = () => {
                 isOpen={isViewRiskAssessmentModalOpen}
                 onClose={() => setViewRiskAssessmentModalOpen(false)}
                 assessment={viewingRiskAssessment}
-                onDelete={handleDeleteLicense} // Reusing license delete handler for now, ideally specific
+                sourceCheck={allComplianceChecks.find(check => check.id === viewingRiskAssessment?.sourceCheckId)}
+                onDelete={handleDeleteRiskAssessment}
                 onEdit={openEditRiskAssessmentModal}
             />
             <AICheckHistoryModal
                 isOpen={isAICheckHistoryOpen}
                 onClose={() => setAICheckHistoryOpen(false)}
                 history={allComplianceChecks}
+                riskAssessments={allRiskAssessments}
+                onCreateRiskAssessment={handleCreateRiskAssessmentFromCheck}
+                onViewRiskAssessment={assessment => { setAICheckHistoryOpen(false); openViewRiskAssessmentModal(assessment); }}
+                onReview={check => { setAICheckHistoryOpen(false); setReviewingCheck(check); }}
+                isLoading={isLoading}
+            />
+            <ComplianceCheckReviewModal
+                isOpen={!!reviewingCheck}
+                onClose={() => setReviewingCheck(null)}
+                check={reviewingCheck}
+                onSave={handleSaveCheckReview}
+                isLoading={isLoading}
+            />
+            <AuditExplorerModal
+                isOpen={isAuditExplorerOpen}
+                onClose={() => setAuditExplorerOpen(false)}
+            />
+            <JurisdictionRegistryModal
+                isOpen={isJurisdictionRegistryOpen}
+                onClose={() => setJurisdictionRegistryOpen(false)}
+            />
+            <RegulatorDirectoryModal
+                isOpen={isRegulatorDirectoryOpen}
+                onClose={() => setRegulatorDirectoryOpen(false)}
+                initialRegulatorId={directoryRegulatorId}
+            />
+            <PassportingModal
+                isOpen={isPassportingOpen}
+                onClose={() => setPassportingOpen(false)}
+            />
+            <ApprovalChainModal
+                isOpen={isApprovalChainOpen}
+                onClose={() => setApprovalChainOpen(false)}
+            />
+            <AttestationsModal
+                isOpen={isAttestationsOpen}
+                onClose={() => setAttestationsOpen(false)}
+            />
+            <RegulatoryFeedsModal
+                isOpen={isRegulatoryFeedsOpen}
+                onClose={() => setRegulatoryFeedsOpen(false)}
             />
-
-            {/* --- Notification Toast --- */}
-            {notification && (
-                <NotificationToast
-                    message={notification.message}
-                    type={notification.type}
-                    onClose={() => setNotification(null)}
-                />
-            )}
         </>
     );
 };
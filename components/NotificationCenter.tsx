@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { InboxNotification } from '../types';
+import { useNotifications } from '../context/NotificationContext';
+import { format, parseISO } from '../utils/dateUtils';
+
+const categoryColors: Record<InboxNotification['category'], string> = {
+    'Renewal Reminder': 'text-yellow-400',
+    'Overdue Action Item': 'text-red-400',
+    'Policy Review Overdue': 'text-indigo-400',
+    'High Severity Update': 'text-red-500',
+    'Attestation Due': 'text-cyan-400',
+};
+
+// Bell in the header with the current user's inbox. Opening an entry marks it read and jumps to its record.
+const NotificationCenter: React.FC = () => {
+    const { inbox, unreadCount, setRead, markAllRead, openLink, showToast } = useNotifications();
+    const [isOpen, setOpen] = useState(false);
+    const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+
+    const visible = showUnreadOnly ? inbox.filter(entry => !entry.read) : inbox;
+
+    const run = async (step: () => Promise<void>) => {
+        try {
+            await step();
+        } catch (err) {
+            console.error("Failed to update notifications:", err);
+            showToast('Failed to update notifications.', 'error');
+        }
+    };
+
+    const handleOpen = (entry: InboxNotification) => {
+        run(() => setRead(entry.id, true));
+        if (entry.link) {
+            openLink(entry.link);
+            setOpen(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button onClick={() => setOpen(prev => !prev)} className="relative px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm border border-gray-600" aria-label="Notifications">
+                &#128276;
+                {unreadCount > 0 && (
+                    <span className="absolute -top-2 -right-2 bg-red-600 text-white text-xs font-bold rounded-full px-1.5 min-w-[1.25rem] text-center">{unreadCount > 99 ? '99+' : unreadCount}</span>
+                )}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-96 max-h-[70vh] flex flex-col bg-gray-800 border border-gray-700 rounded-lg shadow-2xl z-40">
+                    <div className="p-3 border-b border-gray-700 flex justify-between items-center">
+                        <h3 className="font-semibold text-white">Notifications</h3>
+                        <div className="flex items-center gap-3 text-xs">
+                            <label className="flex items-center space-x-1 text-gray-400">
+                                <input type="checkbox" checked={showUnreadOnly} onChange={e => setShowUnreadOnly(e.target.checked)} />
+                                <span>Unread only</span>
+                            </label>
+                            <button onClick={() => run(markAllRead)} disabled={unreadCount === 0} className="text-cyan-400 hover:text-cyan-300 disabled:opacity-50">Mark all read</button>
+                        </div>
+                    </div>
+                    <ul className="overflow-y-auto divide-y divide-gray-700">
+                        {visible.length === 0 ? (
+                            <li className="p-4 text-center text-gray-400 text-sm">{showUnreadOnly ? 'No unread notifications.' : 'No notifications yet.'}</li>
+                        ) : visible.map(entry => (
+                            <li key={entry.id} className={`p-3 text-sm ${entry.read ? 'opacity-60' : 'bg-gray-700/30'}`}>
+                                <div className="flex justify-between items-start gap-2">
+                                    <button onClick={() => handleOpen(entry)} className="text-left flex-1">
+                                        <div className="flex items-center gap-2">
+                                            {!entry.read && <span className="w-2 h-2 rounded-full bg-cyan-400 flex-shrink-0" />}
+                                            <span className="text-white font-medium">{entry.title}</span>
+                                        </div>
+                                        <p className="text-gray-400 mt-1">{entry.body}</p>
+                                        <p className="text-xs mt-1">
+                                            <span className={categoryColors[entry.category]}>{entry.category}</span>
+                                            <span className="text-gray-500"> - {format(parseISO(entry.createdDate), 'MMM d, yyyy HH:mm')}</span>
+                                        </p>
+                                    </button>
+                                    <button onClick={() => run(() => setRead(entry.id, !entry.read))} className="text-xs text-gray-400 hover:text-white whitespace-nowrap">
+                                        Mark {entry.read ? 'unread' : 'read'}
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { PassportNotification, RecordLink } from '../types';
+import { useData } from '../context/DataContext';
+import { useNotifications } from '../context/NotificationContext';
+import { jurisdictionName } from '../services/jurisdictionRegistry';
+import { buildPassportMatrix, homeMemberState, OperatingRoute } from '../services/passporting';
+import { format, parseISO } from '../utils/dateUtils';
+
+const routeColors: Record<OperatingRoute, string> = {
+    'Local License': 'bg-green-600/30 text-green-300',
+    'Passport': 'bg-cyan-600/30 text-cyan-300',
+    'Passport Pending': 'bg-yellow-600/30 text-yellow-300',
+    'None': 'bg-gray-700/50 text-gray-400',
+};
+
+const statusColors: Record<PassportNotification['status'], string> = {
+    'Planned': 'text-gray-300',
+    'Notified': 'text-yellow-400',
+    'Active': 'text-green-400',
+    'Refused': 'text-red-400',
+    'Withdrawn': 'text-gray-500',
+};
+
+// Where we can operate in the EEA, and the passport notifications behind it. Passports are recorded
+// on each license's details; this view reads across all of them.
+const PassportingModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { licenses, jurisdictions } = useData();
+    const { openLink } = useNotifications();
+    const [tab, setTab] = useState<'matrix' | 'notifications'>('matrix');
+    const [statusFilter, setStatusFilter] = useState<PassportNotification['status'] | ''>('');
+
+    const matrix = useMemo(() => buildPassportMatrix(licenses, jurisdictions), [licenses, jurisdictions]);
+    const notifications = useMemo(() => licenses
+        .flatMap(license => (license.passports || []).map(passport => ({ license, passport })))
+        .filter(entry => !statusFilter || entry.passport.status === statusFilter)
+        .sort((a, b) => jurisdictionName(jurisdictions, a.passport.hostJurisdictionId).localeCompare(jurisdictionName(jurisdictions, b.passport.hostJurisdictionId))),
+    [licenses, jurisdictions, statusFilter]);
+
+    if (!isOpen) return null;
+
+    const goTo = (link: RecordLink) => {
+        openLink(link);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-6xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">EEA Passporting</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300">
+                    <div className="flex gap-2">
+                        <button onClick={() => setTab('matrix')} className={`px-4 py-2 rounded text-sm ${tab === 'matrix' ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>Operating Matrix</button>
+                        <button onClick={() => setTab('notifications')} className={`px-4 py-2 rounded text-sm ${tab === 'notifications' ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>Notifications</button>
+                    </div>
+
+                    {tab === 'matrix' ? (
+                        matrix.scopes.length === 0 ? (
+                            <p className="text-gray-400">No licenses are issued in an EEA member state yet.</p>
+                        ) : (
+                            <div className="space-y-3">
+                                <p className="text-sm text-gray-400">
+                                    One row per member state, one column per license scope. A local license takes precedence over a passport;
+                                    licenses that are expired, revoked or suspended give no access.
+                                </p>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left">Member State</th>
+                                                {matrix.scopes.map(scope => <th key={scope} className="px-3 py-2 text-left">{scope}</th>)}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {matrix.rows.map(row => (
+                                                <tr key={row.memberState.id} className="border-b border-gray-700 align-top">
+                                                    <td className="px-3 py-2 text-white">{row.memberState.name}</td>
+                                                    {row.cells.map((cell, i) => (
+                                                        <td key={matrix.scopes[i]} className="px-3 py-2">
+                                                            <span className={`inline-block px-2 py-0.5 rounded text-xs ${routeColors[cell.route]}`}>{cell.route === 'None' ? 'No Access' : cell.route}</span>
+                                                            {cell.licenses.map(lic => (
+                                                                <button key={lic.id} onClick={() => goTo({ type: 'license', id: lic.id })} className="block text-xs text-blue-400 hover:underline text-left mt-1">
+                                                                    {lic.name}{cell.route !== 'Local License' ? ` (${homeMemberState(lic, jurisdictions)?.name})` : ''}
+                                                                </button>
+                                                            ))}
+                                                        </td>
+                                                    ))}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )
+                    ) : (
+                        <div className="space-y-3">
+                            <div className="flex justify-end">
+                                <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as PassportNotification['status'] | '')} className="bg-gray-700/50 p-2 rounded text-white text-sm">
+                                    <option value="">All Statuses</option>
+                                    {(Object.keys(statusColors) as PassportNotification['status'][]).map(status => <option key={status} value={status}>{status}</option>)}
+                                </select>
+                            </div>
+                            {notifications.length === 0 ? (
+                                <p className="text-gray-400">No passport notifications recorded. Record them from a license's details.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">Host State</th>
+                                            <th className="px-3 py-2 text-left">License</th>
+                                            <th className="px-3 py-2 text-left">Mode</th>
+                                            <th className="px-3 py-2 text-left">Status</th>
+                                            <th className="px-3 py-2 text-left">Notified</th>
+                                            <th className="px-3 py-2 text-left">Effective</th>
+                                            <th className="px-3 py-2 text-left">Conditions</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {notifications.map(({ license, passport }) => (
+                                            <tr key={passport.id} className="border-b border-gray-700 align-top">
+                                                <td className="px-3 py-2 text-white">{jurisdictionName(jurisdictions, passport.hostJurisdictionId)}</td>
+                                                <td className="px-3 py-2">
+                                                    <button onClick={() => goTo({ type: 'license', id: license.id })} className="text-blue-400 hover:underline text-left">{license.name}</button>
+                                                    <span className="block text-xs text-gray-500">{license.status}</span>
+                                                </td>
+                                                <td className="px-3 py-2">{passport.mode}</td>
+                                                <td className={`px-3 py-2 ${statusColors[passport.status]}`}>{passport.status}</td>
+                                                <td className="px-3 py-2">{passport.notificationDate ? format(parseISO(passport.notificationDate), 'MMM d, yyyy') : '-'}</td>
+                                                <td className="px-3 py-2">{passport.effectiveDate ? format(parseISO(passport.effectiveDate), 'MMM d, yyyy') : '-'}</td>
+                                                <td className="px-3 py-2 text-gray-400 whitespace-pre-line">{passport.conditions || '-'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PassportingModal;
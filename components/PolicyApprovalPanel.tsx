@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { ApprovalStep, CompliancePolicy, PolicyApprovalRound } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import {
+    approverProblem, awaitingStep, currentRound, decideApproval, decisionFor, latestRound, loadApprovalChain, pendingStep, PolicyApprovalChange, submitForApproval
+} from '../services/policyApproval';
+import { format, parseISO } from '../utils/dateUtils';
+
+const outcomeColors: Record<PolicyApprovalRound['outcome'], string> = {
+    'Pending': 'text-cyan-400',
+    'Approved': 'text-green-400',
+    'Rejected': 'text-red-400',
+    'Withdrawn': 'text-gray-400',
+};
+
+// One round's steps and who decided them, with comments.
+const RoundSteps: React.FC<{ round: PolicyApprovalRound }> = ({ round }) => {
+    const waitingOn = pendingStep(round);
+    return (
+        <ol className="space-y-2">
+            {round.steps.map((step, i) => {
+                const decision = decisionFor(round, step);
+                return (
+                    <li key={step.id} className="flex gap-3 text-sm">
+                        <span className="text-gray-500 w-5 text-right">{i + 1}.</span>
+                        <div className="flex-1">
+                            <span className="text-white">{step.name}</span>
+                            {decision ? (
+                                <span className={decision.decision === 'Approved' ? 'text-green-400' : 'text-red-400'}>
+                                    {' '}{decision.decision} by {decision.decidedBy} on {format(parseISO(decision.decidedDate), 'MMM d, yyyy HH:mm')}
+                                </span>
+                            ) : step === waitingOn ? (
+                                <span className="text-cyan-400"> Awaiting decision ({step.approverRoles.join(', ')}{step.sameDepartment ? ', same department' : ''})</span>
+                            ) : (
+                                <span className="text-gray-500"> {round.outcome === 'Pending' ? 'Not yet reached' : 'Not decided'}</span>
+                            )}
+                            {decision?.comments && <p className="text-gray-400 whitespace-pre-line">{decision.comments}</p>}
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+// Submitting a draft and deciding approval steps. The rules live in services/policyApproval;
+// anything they reject is shown here instead of being saved.
+const PolicyApprovalPanel: React.FC<{
+    policy: CompliancePolicy;
+    onChange: (change: PolicyApprovalChange) => void;
+    isLoading: boolean;
+}> = ({ policy, onChange, isLoading }) => {
+    const { currentUser, can } = useCurrentUser();
+    const [chain, setChain] = useState<ApprovalStep[]>([]);
+    const [comments, setComments] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const round = currentRound(policy);
+    const step = awaitingStep(policy);
+    const blocked = round && step ? approverProblem(step, round, policy, currentUser) : undefined;
+    const earlierRounds = (policy.approvals || []).filter(candidate => candidate !== round);
+
+    useEffect(() => {
+        if (policy.status !== 'Draft') return;
+        loadApprovalChain().then(setChain).catch(err => setError(err instanceof Error ? err.message : String(err)));
+    }, [policy.status]);
+
+    const run = (action: () => PolicyApprovalChange) => {
+        try {
+            setError(null);
+            onChange(action());
+            setComments('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const commentBox = (placeholder: string) => (
+        <textarea value={comments} onChange={e => setComments(e.target.value)} placeholder={placeholder} rows={2} className="w-full bg-gray-700/50 p-2 rounded text-white text-sm" />
+    );
+
+    return (
+        <div className="space-y-4">
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            {policy.status === 'Draft' && (
+                <div className="space-y-3">
+                    <p className="text-gray-400 text-sm">
+                        This draft becomes Active once it is approved by: <span className="text-white">{chain.map(chainStep => chainStep.name).join(' -> ') || '...'}</span>.
+                    </p>
+                    {can('editPolicy') && (
+                        <>
+                            {commentBox('What changed in this version (optional)')}
+                            <div className="flex justify-end">
+                                <button onClick={() => run(() => submitForApproval(policy, chain, currentUser, comments))} disabled={isLoading || chain.length === 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm disabled:opacity-50">Submit for Approval</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {round && (
+                <div className="bg-gray-700/30 p-4 rounded space-y-3">
+                    <p className="text-sm text-gray-400">Submitted by {round.submittedBy} on {format(parseISO(round.submittedDate), 'MMM d, yyyy HH:mm')}.</p>
+                    <RoundSteps round={round} />
+                    {step && (blocked ? (
+                        <p className="text-gray-400 text-sm">{blocked}</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {commentBox(`Comments for the ${step.name} decision (required to reject)`)}
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => run(() => decideApproval(policy, currentUser, 'Rejected', comments))} disabled={isLoading} className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm disabled:opacity-50">Reject</button>
+                                <button onClick={() => run(() => decideApproval(policy, currentUser, 'Approved', comments))} disabled={isLoading} className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-sm disabled:opacity-50">Approve as {step.name}</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {earlierRounds.length > 0 && (
+                <details className="text-sm" open={policy.status === 'Draft' && latestRound(policy)?.outcome === 'Rejected'}>
+                    <summary className="cursor-pointer text-gray-400 hover:text-white">Earlier rounds ({earlierRounds.length})</summary>
+                    <div className="mt-2 space-y-3">
+                        {[...earlierRounds].reverse().map(earlier => (
+                            <div key={earlier.id} className="bg-gray-700/30 p-3 rounded space-y-2">
+                                <p className="text-gray-400">
+                                    Submitted by {earlier.submittedBy} on {format(parseISO(earlier.submittedDate), 'MMM d, yyyy')}: <span className={outcomeColors[earlier.outcome]}>{earlier.outcome}</span>
+                                </p>
+                                <RoundSteps round={earlier} />
+                            </div>
+                        ))}
+                    </div>
+                </details>
+            )}
+        </div>
+    );
+};
+
+export default PolicyApprovalPanel;
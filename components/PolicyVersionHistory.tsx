@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CompliancePolicy, Jurisdiction, PolicyRevision } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { InForcePeriod, inForcePeriods, policyRevisionLog, revisionInForceOn, revisionLines } from '../services/policyRevisions';
+import { diffLines, DiffRow } from '../utils/textDiff';
+import { format, parseISO } from '../utils/dateUtils';
+
+const rowColors: Record<DiffRow['kind'], { left: string; right: string }> = {
+    'same': { left: 'text-gray-400', right: 'text-gray-400' },
+    'changed': { left: 'bg-red-900/30 text-red-200', right: 'bg-green-900/30 text-green-200' },
+    'removed': { left: 'bg-red-900/30 text-red-200', right: '' },
+    'added': { left: '', right: 'bg-green-900/30 text-green-200' },
+};
+
+const statusColor = (status: CompliancePolicy['status']) =>
+    status === 'Active' ? 'text-green-400' : status === 'Draft' ? 'text-yellow-400' : status === 'Under Review' ? 'text-cyan-400' : 'text-gray-400';
+
+const describePeriod = (period?: InForcePeriod) => {
+    if (!period) return <span className="text-gray-500">-</span>;
+    const from = format(parseISO(period.from), 'MMM d, yyyy');
+    if (!period.until) return parseISO(period.from) > new Date() ? `From ${from}` : `Since ${from}`;
+    return <>{from} - {format(parseISO(period.until), 'MMM d, yyyy')} <span className="block text-xs text-gray-500">Retired</span></>;
+};
+
+// Every saved revision of a policy, a side-by-side diff of any two, the revision in force on a
+// chosen date, and restoring an old revision as a new draft. History is re-read whenever the
+// policy changes, so a restore shows up as soon as it is saved.
+const PolicyVersionHistory: React.FC<{
+    policy: CompliancePolicy;
+    jurisdictions: Jurisdiction[];
+    onRestore: (revision: PolicyRevision) => void;
+    isLoading: boolean;
+}> = ({ policy, jurisdictions, onRestore, isLoading }) => {
+    const { can } = useCurrentUser();
+    const [revisions, setRevisions] = useState<PolicyRevision[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [leftNumber, setLeftNumber] = useState<number | null>(null);
+    const [rightNumber, setRightNumber] = useState<number | null>(null);
+    const [inForceDate, setInForceDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+    useEffect(() => {
+        let cancelled = false;
+        policyRevisionLog.listFor(policy.id)
+            .then(loaded => {
+                if (cancelled) return;
+                setRevisions(loaded);
+                setLoadError(null);
+                // Default to the latest change: the previous revision against the newest.
+                setRightNumber(loaded[loaded.length - 1]?.revisionNumber ?? null);
+                setLeftNumber(loaded[Math.max(loaded.length - 2, 0)]?.revisionNumber ?? null);
+            })
+            .catch(err => !cancelled && setLoadError(err instanceof Error ? err.message : String(err)));
+        return () => { cancelled = true; };
+    }, [policy]);
+
+    const left = revisions.find(rev => rev.revisionNumber === leftNumber);
+    const right = revisions.find(rev => rev.revisionNumber === rightNumber);
+    const diff = useMemo(
+        () => left && right ? diffLines(revisionLines(left, jurisdictions), revisionLines(right, jurisdictions)) : [],
+        [left, right, jurisdictions]
+    );
+    const periods = useMemo(() => inForcePeriods(revisions), [revisions]);
+    const inForceNow = revisionInForceOn(revisions, new Date());
+    const inForceOnDate = inForceDate ? revisionInForceOn(revisions, new Date(`${inForceDate}T23:59:59`)) : undefined;
+    const latest = revisions[revisions.length - 1];
+
+    if (loadError) return <p className="text-red-400 text-sm">Could not load version history: {loadError}</p>;
+    if (revisions.length === 0) {
+        return <p className="text-gray-400 text-sm">No revisions recorded yet. One is kept every time this policy's content or status is saved.</p>;
+    }
+
+    const handleRestore = (revision: PolicyRevision) => {
+        if (window.confirm(`Restore revision ${revision.revisionNumber} (version ${revision.snapshot.version}) as a new draft? The current content stays in the history.`)) {
+            onRestore(revision);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <table className="w-full text-sm">
+                <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                    <tr>
+                        <th className="px-3 py-2 text-left">Rev.</th>
+                        <th className="px-3 py-2 text-left">Version</th>
+                        <th className="px-3 py-2 text-left">Status</th>
+                        <th className="px-3 py-2 text-left">In Force</th>
+                        <th className="px-3 py-2 text-left">Saved</th>
+                        {can('editPolicy') && <th className="px-3 py-2"></th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {[...revisions].reverse().map(revision => (
+                        <tr key={revision.id} className="border-b border-gray-700 align-top">
+                            <td className="px-3 py-2 text-white">
+                                {revision.revisionNumber}
+                                {revision === inForceNow && <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-600/30 text-green-300">In force</span>}
+                            </td>
+                            <td className="px-3 py-2">{revision.snapshot.version}</td>
+                            <td className={`px-3 py-2 ${statusColor(revision.snapshot.status)}`}>{revision.snapshot.status}</td>
+                            <td className="px-3 py-2">{describePeriod(periods.find(period => period.revision === revision))}</td>
+                            <td className="px-3 py-2">
+                                {format(parseISO(revision.savedDate), 'MMM d, yyyy HH:mm')} by {revision.savedBy}
+                                {revision.note && <span className="block text-xs text-gray-400">{revision.note}</span>}
+                            </td>
+                            {can('editPolicy') && (
+                                <td className="px-3 py-2 text-right whitespace-nowrap">
+                                    {revision !== latest && (
+                                        <button onClick={() => handleRestore(revision)} disabled={isLoading} className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50">Restore as Draft</button>
+                                    )}
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="bg-gray-700/30 p-3 rounded text-sm flex flex-wrap items-center gap-3">
+                <label className="text-gray-400">In force on
+                    <input type="date" value={inForceDate} onChange={e => setInForceDate(e.target.value)} className="ml-2 bg-gray-700/50 p-1 rounded text-white" />
+                </label>
+                {!inForceDate ? null : inForceOnDate ? (
+                    <span className="text-white">
+                        Revision {inForceOnDate.revisionNumber}, version {inForceOnDate.snapshot.version} (effective {format(parseISO(inForceOnDate.snapshot.effectiveDate), 'MMM d, yyyy')})
+                    </span>
+                ) : (
+                    <span className="text-yellow-400">No version of this policy was in force on that date.</span>
+                )}
+            </div>
+
+            {revisions.length > 1 && (
+                <div className="space-y-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-gray-400">Compare</span>
+                        <select value={leftNumber ?? ''} onChange={e => setLeftNumber(Number(e.target.value))} className="bg-gray-700/50 p-1 rounded text-white">
+                            {revisions.map(rev => <option key={rev.id} value={rev.revisionNumber}>Revision {rev.revisionNumber} (v{rev.snapshot.version})</option>)}
+                        </select>
+                        <span className="text-gray-400">with</span>
+                        <select value={rightNumber ?? ''} onChange={e => setRightNumber(Number(e.target.value))} className="bg-gray-700/50 p-1 rounded text-white">
+                            {revisions.map(rev => <option key={rev.id} value={rev.revisionNumber}>Revision {rev.revisionNumber} (v{rev.snapshot.version})</option>)}
+                        </select>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs font-mono table-fixed">
+                            <tbody>
+                                {diff.map((row, i) => (
+                                    <tr key={i} className="align-top">
+                                        <td className={`px-2 py-0.5 whitespace-pre-wrap break-words border-r border-gray-700 ${rowColors[row.kind].left}`}>{row.left ?? ''}</td>
+                                        <td className={`px-2 py-0.5 whitespace-pre-wrap break-words ${rowColors[row.kind].right}`}>{row.right ?? ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {diff.every(row => row.kind === 'same') && <p className="text-gray-400 text-sm">These revisions are identical.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PolicyVersionHistory;
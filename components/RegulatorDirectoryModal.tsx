@@ -0,0 +1,406 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RecordLink, RegulatoryFiling, Regulator, RegulatorContact, RegulatorPortal } from '../types';
+import { useData } from '../context/DataContext';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import { flattenTree, jurisdictionName } from '../services/jurisdictionRegistry';
+import {
+    assertRegulatorDeletable, buildRegulatorDossier, findDanglingRegulatorReferences, submitFiling, validateRegulator
+} from '../services/regulatorDirectory';
+import { addMonths, format, parseISO } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+
+const FREQUENCIES: RegulatoryFiling['frequency'][] = ['Monthly', 'Quarterly', 'Semi-Annual', 'Annual', 'One-off'];
+
+const emptyRegulator = (): Regulator => ({
+    id: '', shortName: '', name: '', jurisdictionIds: [], website: '', contacts: [], portals: [], filings: [], notes: '',
+});
+
+const RegulatorForm: React.FC<{
+    regulator: Regulator;
+    onSubmit: (regulator: Regulator) => void;
+    onCancel: () => void;
+    isSaving: boolean;
+}> = ({ regulator, onSubmit, onCancel, isSaving }) => {
+    const { regulators, jurisdictions } = useData();
+    const [formState, setFormState] = useState<Regulator>(regulator);
+    const problems = validateRegulator(formState, regulators, jurisdictions);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setFormState(prev => ({ ...prev, [name]: value }));
+    };
+
+    const toggleJurisdiction = (id: string) => setFormState(prev => ({
+        ...prev,
+        jurisdictionIds: prev.jurisdictionIds.includes(id) ? prev.jurisdictionIds.filter(jurId => jurId !== id) : [...prev.jurisdictionIds, id],
+    }));
+
+    const setContact = (index: number, field: keyof RegulatorContact, value: string) =>
+        setFormState(prev => ({ ...prev, contacts: prev.contacts.map((contact, i) => i === index ? { ...contact, [field]: value } : contact) }));
+    const setPortal = (index: number, field: keyof RegulatorPortal, value: string) =>
+        setFormState(prev => ({ ...prev, portals: prev.portals.map((portal, i) => i === index ? { ...portal, [field]: value } : portal) }));
+    const setFiling = (index: number, field: keyof RegulatoryFiling, value: string) =>
+        setFormState(prev => ({ ...prev, filings: prev.filings.map((filing, i) => i === index ? { ...filing, [field]: value } : filing) }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (problems.length > 0) return;
+        onSubmit({ ...formState, shortName: formState.shortName.trim(), name: formState.name.trim(), website: formState.website.trim() });
+    };
+
+    const inputClass = 'w-full bg-gray-700/50 p-2 rounded text-white';
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+            <h4 className="text-lg font-semibold text-white">{regulator.id ? `Edit ${regulator.shortName}` : 'New Regulator'}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Short Name:</label>
+                    <input type="text" name="shortName" value={formState.shortName} onChange={handleChange} placeholder="FCA" className={inputClass} />
+                </div>
+                <div className="md:col-span-2">
+                    <label className="block text-gray-300 font-bold mb-1">Full Name:</label>
+                    <input type="text" name="name" value={formState.name} onChange={handleChange} placeholder="Financial Conduct Authority" className={inputClass} />
+                </div>
+                <div className="md:col-span-3">
+                    <label className="block text-gray-300 font-bold mb-1">Website:</label>
+                    <input type="url" name="website" value={formState.website} onChange={handleChange} className={inputClass} />
+                </div>
+            </div>
+            <div>
+                <label className="block text-gray-300 font-bold mb-1">Supervises:</label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-1 bg-gray-700/50 p-3 rounded max-h-40 overflow-y-auto custom-scrollbar">
+                    {flattenTree(jurisdictions).map(({ jurisdiction: jur, depth }) => (
+                        <label key={jur.id} className="inline-flex items-center" style={{ paddingLeft: `${depth}rem` }}>
+                            <input type="checkbox" checked={formState.jurisdictionIds.includes(jur.id)} onChange={() => toggleJurisdiction(jur.id)} className="h-4 w-4" />
+                            <span className="ml-2">{jur.name}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-1">
+                    <label className="text-gray-300 font-bold">Contacts:</label>
+                    <button type="button" onClick={() => setFormState(prev => ({ ...prev, contacts: [...prev.contacts, { id: generateId(), name: '', role: '', email: '' }] }))} className="text-cyan-400 hover:text-cyan-300 text-xs">+ Add Contact</button>
+                </div>
+                {formState.contacts.map((contact, index) => (
+                    <div key={contact.id} className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-2">
+                        <input type="text" placeholder="Name" value={contact.name} onChange={e => setContact(index, 'name', e.target.value)} className={inputClass} />
+                        <input type="text" placeholder="Role" value={contact.role} onChange={e => setContact(index, 'role', e.target.value)} className={inputClass} />
+                        <input type="email" placeholder="Email" value={contact.email} onChange={e => setContact(index, 'email', e.target.value)} className={inputClass} />
+                        <input type="tel" placeholder="Phone" value={contact.phone || ''} onChange={e => setContact(index, 'phone', e.target.value)} className={inputClass} />
+                        <button type="button" onClick={() => setFormState(prev => ({ ...prev, contacts: prev.contacts.filter(item => item.id !== contact.id) }))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-1">
+                    <label className="text-gray-300 font-bold">Portals:</label>
+                    <button type="button" onClick={() => setFormState(prev => ({ ...prev, portals: [...prev.portals, { id: generateId(), name: '', url: '', purpose: '' }] }))} className="text-cyan-400 hover:text-cyan-300 text-xs">+ Add Portal</button>
+                </div>
+                {formState.portals.map((portal, index) => (
+                    <div key={portal.id} className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+                        <input type="text" placeholder="Name" value={portal.name} onChange={e => setPortal(index, 'name', e.target.value)} className={inputClass} />
+                        <input type="url" placeholder="https://" value={portal.url} onChange={e => setPortal(index, 'url', e.target.value)} className={inputClass} />
+                        <input type="text" placeholder="Purpose" value={portal.purpose} onChange={e => setPortal(index, 'purpose', e.target.value)} className={inputClass} />
+                        <button type="button" onClick={() => setFormState(prev => ({ ...prev, portals: prev.portals.filter(item => item.id !== portal.id) }))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-1">
+                    <label className="text-gray-300 font-bold">Filing Calendar:</label>
+                    <button type="button" onClick={() => setFormState(prev => ({ ...prev, filings: [...prev.filings, { id: generateId(), name: '', frequency: 'Annual', nextDueDate: addMonths(new Date(), 1).toISOString(), owner: 'Compliance' }] }))} className="text-cyan-400 hover:text-cyan-300 text-xs">+ Add Filing</button>
+                </div>
+                {formState.filings.map((filing, index) => (
+                    <div key={filing.id} className="grid grid-cols-1 md:grid-cols-6 gap-2 mb-2">
+                        <input type="text" placeholder="Filing" value={filing.name} onChange={e => setFiling(index, 'name', e.target.value)} className={`${inputClass} md:col-span-2`} />
+                        <select value={filing.frequency} onChange={e => setFiling(index, 'frequency', e.target.value)} className={inputClass}>
+                            {FREQUENCIES.map(frequency => <option key={frequency} value={frequency}>{frequency}</option>)}
+                        </select>
+                        <input type="date" value={filing.nextDueDate ? format(parseISO(filing.nextDueDate), 'yyyy-MM-dd') : ''} onChange={e => setFiling(index, 'nextDueDate', e.target.value ? new Date(e.target.value).toISOString() : '')} className={inputClass} />
+                        <select value={filing.portalId || ''} onChange={e => setFiling(index, 'portalId', e.target.value)} className={inputClass}>
+                            <option value="">No portal</option>
+                            {formState.portals.map(portal => <option key={portal.id} value={portal.id}>{portal.name || portal.url}</option>)}
+                        </select>
+                        <div className="flex items-center gap-2">
+                            <input type="text" placeholder="Owner" value={filing.owner} onChange={e => setFiling(index, 'owner', e.target.value)} className={inputClass} />
+                            <button type="button" onClick={() => setFormState(prev => ({ ...prev, filings: prev.filings.filter(item => item.id !== filing.id) }))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div>
+                <label className="block text-gray-300 font-bold mb-1">Notes:</label>
+                <textarea name="notes" value={formState.notes} onChange={handleChange} className={`${inputClass} h-20`} />
+            </div>
+            {problems.length > 0 && (
+                <ul className="text-red-400 list-disc list-inside">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
+                <button type="submit" disabled={isSaving || problems.length > 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">Save</button>
+            </div>
+        </form>
+    );
+};
+
+// The regulator directory: one page per regulator with everything we hold with it - jurisdictions,
+// licenses, regulatory updates, correspondence, contacts, portals and upcoming filings.
+const RegulatorDirectoryModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    initialRegulatorId?: string | null;
+}> = ({ isOpen, onClose, initialRegulatorId }) => {
+    const { regulators, jurisdictions, licenses, regulatoryUpdates, actions } = useData();
+    const { currentUser, can } = useCurrentUser();
+    const { showToast, openLink } = useNotifications();
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [editing, setEditing] = useState<Regulator | null>(null);
+    const [isSaving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedId(initialRegulatorId || null);
+            setEditing(null);
+        }
+    }, [isOpen, initialRegulatorId]);
+
+    const sources = { regulators, jurisdictions, licenses, regulatoryUpdates };
+    const issues = useMemo(
+        () => findDanglingRegulatorReferences({ regulators, jurisdictions, licenses, regulatoryUpdates }),
+        [regulators, jurisdictions, licenses, regulatoryUpdates]
+    );
+    const listed = useMemo(() => {
+        const term = searchTerm.toLowerCase();
+        return regulators
+            .filter(reg => !term || reg.shortName.toLowerCase().includes(term) || reg.name.toLowerCase().includes(term))
+            .sort((a, b) => a.shortName.localeCompare(b.shortName));
+    }, [regulators, searchTerm]);
+
+    const selected = regulators.find(reg => reg.id === selectedId) || listed[0];
+    const dossier = useMemo(
+        () => selected ? buildRegulatorDossier(selected, { regulators, jurisdictions, licenses, regulatoryUpdates }) : null,
+        [selected, regulators, jurisdictions, licenses, regulatoryUpdates]
+    );
+
+    if (!isOpen) return null;
+    const canManage = can('manageRegulators');
+
+    const goTo = (link: RecordLink) => {
+        openLink(link);
+        onClose();
+    };
+
+    // Hiding the controls is not enough: the user can be switched while the modal is open.
+    const requireManage = (): boolean => {
+        if (can('manageRegulators')) return true;
+        showToast(`As ${currentUser.role} you cannot change the regulator directory.`, 'error');
+        return false;
+    };
+
+    const save = async (regulator: Regulator, successMessage: string) => {
+        if (!requireManage()) return;
+        setSaving(true);
+        try {
+            if (regulator.id) {
+                await actions.update('regulators', regulator);
+            } else {
+                const created = await actions.add('regulators', { ...regulator, id: `RGL-${generateId()}` });
+                setSelectedId(created.id);
+            }
+            showToast(successMessage, 'success');
+            setEditing(null);
+        } catch (err) {
+            console.error("Failed to save regulator:", err);
+            showToast('Failed to save regulator.', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSubmitFiling = (regulator: Regulator, filing: RegulatoryFiling) => {
+        if (!requireManage()) return;
+        const next = submitFiling(filing);
+        const filings = next ? regulator.filings.map(item => item.id === filing.id ? next : item) : regulator.filings.filter(item => item.id !== filing.id);
+        save({ ...regulator, filings }, next ? `${filing.name} submitted; next due ${format(parseISO(next.nextDueDate), 'MMM d, yyyy')}.` : `${filing.name} submitted.`);
+    };
+
+    const handleDelete = async (regulator: Regulator) => {
+        if (!requireManage()) return;
+        try {
+            assertRegulatorDeletable(regulator.id, sources);
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : String(err), 'error');
+            return;
+        }
+        if (!window.confirm(`Delete regulator "${regulator.shortName}"? This cannot be undone.`)) return;
+        setSaving(true);
+        try {
+            await actions.remove('regulators', regulator.id);
+            setSelectedId(null);
+            showToast(`Regulator "${regulator.shortName}" deleted.`, 'success');
+        } catch (err) {
+            console.error("Failed to delete regulator:", err);
+            showToast('Failed to delete regulator.', 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-6xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Regulator Directory</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-6 text-gray-300">
+                    <div className="space-y-3">
+                        <input type="text" placeholder="Search regulators..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full bg-gray-700/50 p-2 rounded text-white text-sm" />
+                        {canManage && <button onClick={() => setEditing(emptyRegulator())} className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded text-sm font-medium">Add Regulator</button>}
+                        <ul className="max-h-[60vh] overflow-y-auto custom-scrollbar space-y-1">
+                            {listed.map(reg => (
+                                <li key={reg.id}>
+                                    <button onClick={() => { setSelectedId(reg.id); setEditing(null); }} className={`w-full text-left px-3 py-2 rounded text-sm ${selected?.id === reg.id ? 'bg-cyan-600/30 text-white' : 'hover:bg-gray-700'}`}>
+                                        <span className="font-semibold">{reg.shortName}</span>
+                                        <span className="block text-xs text-gray-400 truncate">{reg.name}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <div className="md:col-span-3 space-y-5">
+                        {issues.length > 0 && (
+                            <div className="p-3 bg-red-900/30 border border-red-700 rounded text-sm">
+                                <h4 className="font-semibold text-red-300 mb-2">{issues.length} broken regulator reference(s)</h4>
+                                <ul className="list-disc list-inside space-y-1">
+                                    {issues.map((issue, index) => <li key={`${issue.recordId}-${index}`}>{issue.recordType} "{issue.label}": {issue.problem}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        {editing && canManage ? (
+                            <RegulatorForm key={editing.id || 'new'} regulator={editing} onSubmit={reg => save(reg, `Regulator "${reg.shortName}" saved.`)} onCancel={() => setEditing(null)} isSaving={isSaving} />
+                        ) : !dossier ? (
+                            <p className="text-gray-400">No regulators in the directory yet.</p>
+                        ) : (
+                            <>
+                                <div className="flex justify-between items-start">
+                                    <div>
+                                        <h4 className="text-2xl font-semibold text-white">{dossier.regulator.shortName}</h4>
+                                        <p>{dossier.regulator.name}</p>
+                                        {dossier.regulator.website && <a href={dossier.regulator.website} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline text-sm">{dossier.regulator.website}</a>}
+                                        <p className="text-sm mt-1">Supervises: {dossier.jurisdictions.map(jur => jur.name).join(', ') || 'no registered jurisdictions'}</p>
+                                    </div>
+                                    {canManage && (
+                                        <div className="space-x-3 text-sm whitespace-nowrap">
+                                            <button onClick={() => setEditing(dossier.regulator)} className="text-cyan-400 hover:text-cyan-300">Edit</button>
+                                            <button onClick={() => handleDelete(dossier.regulator)} disabled={isSaving} className="text-red-400 hover:text-red-300 disabled:opacity-50">Delete</button>
+                                        </div>
+                                    )}
+                                </div>
+                                {dossier.regulator.notes && <p className="p-3 bg-gray-700/50 rounded whitespace-pre-line text-sm">{dossier.regulator.notes}</p>}
+
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                    <div>
+                                        <h5 className="font-semibold text-white mb-2">Contacts</h5>
+                                        {dossier.regulator.contacts.length === 0 ? <p className="text-gray-400">None recorded.</p> : (
+                                            <ul className="space-y-1">
+                                                {dossier.regulator.contacts.map(contact => (
+                                                    <li key={contact.id}>{contact.name} <span className="text-gray-400">({contact.role})</span> - <a href={`mailto:${contact.email}`} className="text-cyan-400 hover:underline">{contact.email}</a>{contact.phone ? `, ${contact.phone}` : ''}</li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <h5 className="font-semibold text-white mb-2">Portals</h5>
+                                        {dossier.regulator.portals.length === 0 ? <p className="text-gray-400">None recorded.</p> : (
+                                            <ul className="space-y-1">
+                                                {dossier.regulator.portals.map(portal => (
+                                                    <li key={portal.id}><a href={portal.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">{portal.name}</a> <span className="text-gray-400">- {portal.purpose}</span></li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="text-sm">
+                                    <h5 className="font-semibold text-white mb-2">Filing Calendar</h5>
+                                    {dossier.filings.length === 0 ? <p className="text-gray-400">No recurring filings.</p> : (
+                                        <ul className="space-y-1">
+                                            {dossier.filings.map(filing => (
+                                                <li key={filing.id} className="flex justify-between items-center bg-gray-700/30 px-3 py-2 rounded">
+                                                    <span>
+                                                        <span className="text-white">{filing.name}</span>
+                                                        <span className="text-gray-400"> - {filing.frequency}, due {format(parseISO(filing.nextDueDate), 'MMM d, yyyy')}, {filing.owner}</span>
+                                                        {filing.lastSubmittedDate && <span className="text-gray-500 text-xs"> (last submitted {format(parseISO(filing.lastSubmittedDate), 'MMM d, yyyy')})</span>}
+                                                    </span>
+                                                    {canManage && <button onClick={() => handleSubmitFiling(dossier.regulator, filing)} disabled={isSaving} className="text-green-400 hover:text-green-300 text-xs disabled:opacity-50">Mark Submitted</button>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+
+                                <div className="text-sm">
+                                    <h5 className="font-semibold text-white mb-2">Licenses ({dossier.licenses.length})</h5>
+                                    {dossier.licenses.length === 0 ? <p className="text-gray-400">None.</p> : (
+                                        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                            {dossier.licenses.map(lic => (
+                                                <li key={lic.id}>
+                                                    <button onClick={() => goTo({ type: 'license', id: lic.id })} className="text-cyan-400 hover:underline">{lic.name}</button>
+                                                    <span className="text-gray-400"> - {lic.licenseNumber}, {jurisdictionName(jurisdictions, lic.jurisdictionId)}, {lic.status}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+
+                                <div className="text-sm">
+                                    <h5 className="font-semibold text-white mb-2">Regulatory Updates ({dossier.regulatoryUpdates.length})</h5>
+                                    {dossier.regulatoryUpdates.length === 0 ? <p className="text-gray-400">None.</p> : (
+                                        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                            {dossier.regulatoryUpdates.map(upd => (
+                                                <li key={upd.id}>
+                                                    <button onClick={() => goTo({ type: 'regulatoryUpdate', id: upd.id })} className="text-cyan-400 hover:underline">{upd.title}</button>
+                                                    <span className="text-gray-400"> - {format(parseISO(upd.publicationDate), 'MMM d, yyyy')}, {upd.severity}, {upd.status}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+
+                                <div className="text-sm">
+                                    <h5 className="font-semibold text-white mb-2">Correspondence ({dossier.correspondence.length})</h5>
+                                    {dossier.correspondence.length === 0 ? <p className="text-gray-400">None.</p> : (
+                                        <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                            {dossier.correspondence.map(({ license, document }) => (
+                                                <li key={document.id}>
+                                                    {document.url ? <a href={document.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">{document.name}</a> : <span className="text-white">{document.name}</span>}
+                                                    <span className="text-gray-400"> - {format(parseISO(document.uploadDate), 'MMM d, yyyy')}, on </span>
+                                                    <button onClick={() => goTo({ type: 'license', id: license.id })} className="text-cyan-400 hover:underline">{license.name}</button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RegulatorDirectoryModal;
@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { Jurisdiction, RegulatoryFeed, Regulator } from '../types';
+import { useData } from '../context/DataContext';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import { useFeedIngestion } from '../context/FeedIngestionContext';
+import { describePoll, FEED_FORMATS, validateFeed } from '../services/feedIngestion';
+import { flattenTree, jurisdictionName } from '../services/jurisdictionRegistry';
+import { resolveRegulator } from '../services/regulatorDirectory';
+import { format, parseISO } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+
+const emptyFeed = (): RegulatoryFeed => ({
+    id: '', name: '', url: '', format: 'RSS', source: '', jurisdictionIds: [], defaultSeverity: 'Medium', assignedTo: 'Compliance Team', enabled: true,
+});
+
+const FeedForm: React.FC<{
+    feed: RegulatoryFeed;
+    feeds: RegulatoryFeed[];
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    onSubmit: (feed: RegulatoryFeed) => void;
+    onCancel: () => void;
+    isSaving: boolean;
+}> = ({ feed, feeds, jurisdictions, regulators, onSubmit, onCancel, isSaving }) => {
+    const [formState, setFormState] = useState<RegulatoryFeed>(feed);
+    const draft: RegulatoryFeed = { ...formState, name: formState.name.trim(), url: formState.url.trim(), source: formState.source.trim(), regulatorId: formState.regulatorId || undefined };
+    const problems = validateFeed(draft, feeds);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormState(prev => ({ ...prev, [name]: value }));
+    };
+
+    // Picking a regulator fills in the source, unless one was typed already.
+    const handleRegulatorChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const regulator = resolveRegulator(regulators, e.target.value);
+        setFormState(prev => ({ ...prev, regulatorId: e.target.value || undefined, source: prev.source || regulator?.shortName || '' }));
+    };
+
+    const toggleJurisdiction = (id: string) => setFormState(prev => ({
+        ...prev,
+        jurisdictionIds: prev.jurisdictionIds.includes(id) ? prev.jurisdictionIds.filter(other => other !== id) : [...prev.jurisdictionIds, id],
+    }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (problems.length > 0) return;
+        onSubmit(draft);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-4 bg-gray-900/50 rounded border border-gray-700 space-y-4 text-sm">
+            <h4 className="text-lg font-semibold text-white">{feed.id ? `Edit ${feed.name}` : 'New Feed'}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Name:</label>
+                    <input type="text" name="name" value={formState.name} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div className="md:col-span-2">
+                    <label className="block text-gray-300 font-bold mb-1">URL:</label>
+                    <input type="url" name="url" value={formState.url} onChange={handleChange} placeholder="https://www.regulator.example/news.rss" className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Format:</label>
+                    <select name="format" value={formState.format} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                        {FEED_FORMATS.map(feedFormat => <option key={feedFormat} value={feedFormat}>{feedFormat === 'JSON' ? 'JSON Feed' : feedFormat}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Regulator:</label>
+                    <select name="regulatorId" value={formState.regulatorId || ''} onChange={handleRegulatorChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                        <option value="">Not in the directory</option>
+                        {[...regulators].sort((a, b) => a.shortName.localeCompare(b.shortName)).map(reg => (
+                            <option key={reg.id} value={reg.id}>{reg.shortName} - {reg.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Source:</label>
+                    <input type="text" name="source" value={formState.source} onChange={handleChange} placeholder="FCA" className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Default Severity:</label>
+                    <select name="defaultSeverity" value={formState.defaultSeverity} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white">
+                        {['High', 'Medium', 'Low'].map(sev => <option key={sev} value={sev}>{sev}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-gray-300 font-bold mb-1">Assign To:</label>
+                    <input type="text" name="assignedTo" value={formState.assignedTo} onChange={handleChange} className="w-full bg-gray-700/50 p-2 rounded text-white" />
+                </div>
+                <label className="inline-flex items-center gap-2 self-end pb-2">
+                    <input type="checkbox" checked={formState.enabled} onChange={e => setFormState(prev => ({ ...prev, enabled: e.target.checked }))} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                    Poll automatically
+                </label>
+            </div>
+            <div>
+                <label className="block text-gray-300 font-bold mb-1">Always Relevant To:</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {flattenTree(jurisdictions).map(({ jurisdiction: jur }) => (
+                        <label key={jur.id} className="inline-flex items-center gap-1">
+                            <input type="checkbox" checked={formState.jurisdictionIds.includes(jur.id)} onChange={() => toggleJurisdiction(jur.id)} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                            {jur.name}
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                    Every entry is also relevant to the jurisdictions the regulator supervises and to any jurisdiction it names by name or code.
+                </p>
+            </div>
+            {problems.length > 0 && (
+                <ul className="text-red-400 list-disc list-inside">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
+                <button type="submit" disabled={isSaving || problems.length > 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">Save</button>
+            </div>
+        </form>
+    );
+};
+
+// The regulator feeds new regulatory updates are ingested from, and how each poll went.
+const RegulatoryFeedsModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const { jurisdictions, regulators } = useData();
+    const { currentUser, can } = useCurrentUser();
+    const { showToast } = useNotifications();
+    const { feeds, saveFeed, removeFeed, pollNow, isPolling } = useFeedIngestion();
+    const [editingFeed, setEditingFeed] = useState<RegulatoryFeed | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const canManage = can('manageRegulatoryFeeds');
+
+    if (!isOpen) return null;
+
+    // Hiding the controls is not enough: the user can be switched while the modal is open.
+    const requireManage = (): boolean => {
+        if (can('manageRegulatoryFeeds')) return true;
+        showToast(`As ${currentUser.role} you cannot change regulatory feeds.`, 'error');
+        return false;
+    };
+
+    const handleSave = async (feed: RegulatoryFeed) => {
+        if (!requireManage()) return;
+        setIsSaving(true);
+        try {
+            await saveFeed(feed.id ? feed : { ...feed, id: `FEED-${generateId()}` });
+            showToast(`Feed "${feed.name}" saved.`, 'success');
+            setEditingFeed(null);
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to save feed.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (feed: RegulatoryFeed) => {
+        if (!requireManage()) return;
+        if (!window.confirm(`Stop polling "${feed.name}"? Updates already ingested from it are kept.`)) return;
+        try {
+            await removeFeed(feed.id);
+            showToast(`Feed "${feed.name}" removed.`, 'success');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to remove feed.', 'error');
+        }
+    };
+
+    const handleToggle = async (feed: RegulatoryFeed) => {
+        if (!requireManage()) return;
+        try {
+            await saveFeed({ ...feed, enabled: !feed.enabled });
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to save feed.', 'error');
+        }
+    };
+
+    const handlePoll = async (feedIds?: string[]) => {
+        const polled = await pollNow(feedIds);
+        if (polled.length === 0) {
+            showToast('Nothing was polled: no feeds are enabled, or a poll is already running.', 'info');
+            return;
+        }
+        const added = polled.reduce((sum, feed) => sum + (feed.lastPoll?.added || 0), 0);
+        const failed = polled.filter(feed => feed.lastPoll?.error);
+        showToast(
+            `${added} new regulatory update(s) from ${polled.length} feed(s).${failed.length > 0 ? ` ${failed.map(feed => feed.name).join(', ')} failed.` : ''}`,
+            failed.length > 0 ? 'error' : 'success'
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-2xl max-w-6xl w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-semibold text-white">Regulatory Feeds</h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                </div>
+                <div className="p-6 space-y-4 text-gray-300">
+                    <div className="flex flex-wrap justify-between items-center gap-3">
+                        <p className="text-sm text-gray-400">
+                            Enabled feeds are polled every 30 minutes while the app is open. New entries become regulatory updates with status New;
+                            entries already ingested, or linking to a page another update already has, are skipped.
+                        </p>
+                        {canManage && (
+                            <div className="flex gap-2">
+                                <button onClick={() => handlePoll()} disabled={isPolling} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50">{isPolling ? 'Polling...' : 'Poll All Now'}</button>
+                                <button onClick={() => setEditingFeed(emptyFeed())} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-sm">Add Feed</button>
+                            </div>
+                        )}
+                    </div>
+
+                    {editingFeed && canManage && (
+                        <FeedForm
+                            key={editingFeed.id || 'new'}
+                            feed={editingFeed}
+                            feeds={feeds}
+                            jurisdictions={jurisdictions}
+                            regulators={regulators}
+                            onSubmit={handleSave}
+                            onCancel={() => setEditingFeed(null)}
+                            isSaving={isSaving}
+                        />
+                    )}
+
+                    {feeds.length === 0 ? (
+                        <p className="text-gray-400">No feeds configured.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="text-xs text-gray-400 uppercase bg-gray-900/30">
+                                <tr>
+                                    <th className="px-3 py-2 text-left">Feed</th>
+                                    <th className="px-3 py-2 text-left">Format</th>
+                                    <th className="px-3 py-2 text-left">Source</th>
+                                    <th className="px-3 py-2 text-left">Jurisdictions</th>
+                                    <th className="px-3 py-2 text-left">Last Poll</th>
+                                    <th className="px-3 py-2 text-left">Auto</th>
+                                    {canManage && <th className="px-3 py-2"></th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {feeds.map(feed => {
+                                    const regulator = resolveRegulator(regulators, feed.regulatorId);
+                                    const jurisdictionIds = [...new Set([...(regulator?.jurisdictionIds || []), ...feed.jurisdictionIds])];
+                                    return (
+                                        <tr key={feed.id} className="border-b border-gray-700 align-top">
+                                            <td className="px-3 py-2">
+                                                <span className="text-white">{feed.name}</span>
+                                                <span className="block text-xs text-gray-500 break-all">{feed.url}</span>
+                                            </td>
+                                            <td className="px-3 py-2">{feed.format}</td>
+                                            <td className="px-3 py-2">{feed.source}</td>
+                                            <td className="px-3 py-2">{jurisdictionIds.map(id => jurisdictionName(jurisdictions, id)).join(', ') || <span className="text-gray-500">From entries only</span>}</td>
+                                            <td className={`px-3 py-2 ${feed.lastPoll?.error ? 'text-red-400' : ''}`}>
+                                                {feed.lastPoll ? (
+                                                    <>
+                                                        {format(parseISO(feed.lastPoll.date), 'MMM d, yyyy HH:mm')}
+                                                        <span className="block text-xs">{describePoll(feed.lastPoll)}</span>
+                                                    </>
+                                                ) : <span className="text-gray-500">Never</span>}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                <input type="checkbox" checked={feed.enabled} onChange={() => handleToggle(feed)} disabled={!canManage} className="form-checkbox h-4 w-4 text-indigo-600 bg-gray-800 border-gray-600 rounded" />
+                                            </td>
+                                            {canManage && (
+                                                <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                                                    <button onClick={() => handlePoll([feed.id])} disabled={isPolling} className="text-cyan-400 hover:text-cyan-300 disabled:opacity-50">Poll</button>
+                                                    <button onClick={() => setEditingFeed(feed)} className="text-indigo-400 hover:text-indigo-300">Edit</button>
+                                                    <button onClick={() => handleDelete(feed)} className="text-red-400 hover:text-red-300">Delete</button>
+                                                </td>
+                                            )}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RegulatoryFeedsModal;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { NotificationChannelKind, ReminderCategory, ReminderPreferences } from '../types';
+import { useCurrentUser } from '../context/CurrentUserContext';
+import { useNotifications } from '../context/NotificationContext';
+import { REMINDER_CATEGORIES } from '../services/reminderEngine';
+import { format, parseISO } from '../utils/dateUtils';
+
+const CHANNELS: { kind: NotificationChannelKind; description: string }[] = [
+    { kind: 'In-App', description: 'Inbox in the header' },
+    { kind: 'Email', description: 'Sent to your address through the mail relay' },
+    { kind: 'Webhook', description: 'JSON POST to a URL of your choice' },
+];
+
+const toggle = <T,>(list: T[], value: T, on: boolean): T[] => on ? [...list.filter(entry => entry !== value), value] : list.filter(entry => entry !== value);
+
+// Header button plus modal where each user chooses what they are reminded about and how.
+const ReminderSettings: React.FC = () => {
+    const { currentUser } = useCurrentUser();
+    const { preferences, savePreferences, sendDigestNow, lastDeliveries } = useNotifications();
+    const [isOpen, setOpen] = useState(false);
+    const [formState, setFormState] = useState<ReminderPreferences>(preferences);
+    const [isSaving, setSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const openSettings = () => {
+        setFormState(preferences);
+        setMessage(null);
+        setOpen(true);
+    };
+
+    const webhookMissing = formState.channels.includes('Webhook') && !formState.webhookUrl?.trim();
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (webhookMissing) return;
+        setSaving(true);
+        try {
+            // lastDigestDate may have moved on since the form opened (e.g. "Send Digest Now").
+            await savePreferences({ ...formState, lastDigestDate: preferences.lastDigestDate, webhookUrl: formState.webhookUrl?.trim() || undefined });
+            setOpen(false);
+        } catch (err) {
+            console.error("Failed to save reminder preferences:", err);
+            setMessage('Failed to save reminder preferences.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSendNow = async () => {
+        setSaving(true);
+        try {
+            const delivery = await sendDigestNow();
+            setMessage(delivery.itemCount === 0
+                ? 'Nothing to remind you about right now.'
+                : `Sent ${delivery.itemCount} item(s) via ${delivery.delivered.join(', ') || 'no channel'}${delivery.failed.length > 0 ? `; failed: ${delivery.failed.map(f => `${f.channel} (${f.error})`).join(', ')}` : ''}.`);
+        } catch (err) {
+            console.error("Failed to send reminder digest:", err);
+            setMessage('Failed to send reminder digest.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const lastDelivery = lastDeliveries.find(delivery => delivery.userId === currentUser.id);
+
+    return (
+        <>
+            <button onClick={openSettings} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm border border-gray-600">Reminders</button>
+            {isOpen && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 overflow-y-auto" onClick={() => setOpen(false)}>
+                    <div className="bg-gray-800 rounded-lg shadow-2xl max-w-lg w-full mx-4 my-8" onClick={e => e.stopPropagation()}>
+                        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+                            <h3 className="text-xl font-semibold text-white">Reminder Preferences - {currentUser.name}</h3>
+                            <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+                        </div>
+                        <form onSubmit={handleSave} className="p-6 space-y-5 text-sm">
+                            <div>
+                                <h4 className="text-gray-300 font-bold mb-2">Remind me about</h4>
+                                {REMINDER_CATEGORIES.map((category: ReminderCategory) => (
+                                    <label key={category} className="flex items-center space-x-2 mb-1">
+                                        <input type="checkbox" checked={formState.categories.includes(category)} onChange={e => setFormState(prev => ({ ...prev, categories: toggle(prev.categories, category, e.target.checked) }))} />
+                                        <span>{category}</span>
+                                    </label>
+                                ))}
+                                <label className="flex items-center space-x-2 mt-2">
+                                    <input type="checkbox" checked={formState.onlyAssignedToMe} onChange={e => setFormState(prev => ({ ...prev, onlyAssignedToMe: e.target.checked }))} />
+                                    <span>Only items assigned to me or {currentUser.department}</span>
+                                </label>
+                            </div>
+                            <div>
+                                <label className="block text-gray-300 font-bold mb-2">Renewal lead time (days before the reminder date):</label>
+                                <input type="number" min={0} value={formState.renewalLeadDays} onChange={e => setFormState(prev => ({ ...prev, renewalLeadDays: Math.max(0, Number(e.target.value) || 0) }))} className="w-32 bg-gray-700/50 p-2 rounded text-white" />
+                            </div>
+                            <div>
+                                <h4 className="text-gray-300 font-bold mb-2">Deliver through</h4>
+                                {CHANNELS.map(channel => (
+                                    <label key={channel.kind} className="flex items-center space-x-2 mb-1">
+                                        <input type="checkbox" checked={formState.channels.includes(channel.kind)} onChange={e => setFormState(prev => ({ ...prev, channels: toggle(prev.channels, channel.kind, e.target.checked) }))} />
+                                        <span>{channel.kind}</span>
+                                        <span className="text-xs text-gray-500">{channel.kind === 'Email' ? `Sent to ${currentUser.email}` : channel.description}</span>
+                                    </label>
+                                ))}
+                                {formState.channels.includes('Webhook') && (
+                                    <input type="url" placeholder="https://hooks.example.com/compliance" value={formState.webhookUrl || ''} onChange={e => setFormState(prev => ({ ...prev, webhookUrl: e.target.value }))} className="w-full mt-2 bg-gray-700/50 p-2 rounded text-white" />
+                                )}
+                                {webhookMissing && <p className="text-red-400 text-xs mt-1">Enter a webhook URL or turn the webhook channel off.</p>}
+                            </div>
+                            <p className="text-xs text-gray-500">
+                                Digests go out at most once a day.
+                                {preferences.lastDigestDate ? ` Last digest: ${format(parseISO(preferences.lastDigestDate), 'MMM d, yyyy HH:mm')}.` : ' No digest sent yet.'}
+                                {lastDelivery && lastDelivery.failed.length > 0 ? ` Last delivery failed via ${lastDelivery.failed.map(f => f.channel).join(', ')}.` : ''}
+                            </p>
+                            {message && <p className="text-cyan-300">{message}</p>}
+                            <div className="flex justify-between">
+                                <button type="button" onClick={handleSendNow} disabled={isSaving} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700 disabled:opacity-50">Send Digest Now</button>
+                                <div className="flex gap-2">
+                                    <button type="button" onClick={() => setOpen(false)} className="px-4 py-2 border border-gray-600 text-gray-300 rounded hover:bg-gray-700">Cancel</button>
+                                    <button type="submit" disabled={isSaving || webhookMissing} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded disabled:opacity-50">Save</button>
+                                </div>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { Toast, useNotifications } from '../context/NotificationContext';
+
+const TOAST_DURATION_MS = 5000;
+
+export const NotificationToast: React.FC<{ toast: Toast; onClose: (id: string) => void }> = ({ toast, onClose }) => {
+    const bgColor = toast.type === 'success' ? 'bg-green-600' : toast.type === 'error' ? 'bg-red-600' : 'bg-blue-600';
+    useEffect(() => {
+        const timer = setTimeout(() => onClose(toast.id), TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [toast.id, onClose]);
+
+    return (
+        <div className={`${bgColor} text-white p-3 rounded shadow-lg flex items-center justify-between`}>
+            <span>{toast.message}</span>
+            <button onClick={() => onClose(toast.id)} className="ml-4 font-bold text-lg">&times;</button>
+        </div>
+    );
+};
+
+// Toasts stack in the corner, oldest on top, and each one times out on its own.
+const ToastStack: React.FC = () => {
+    const { toasts, dismissToast } = useNotifications();
+    if (toasts.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 flex flex-col gap-2 z-[100] max-w-sm">
+            {toasts.map(toast => <NotificationToast key={toast.id} toast={toast} onClose={dismissToast} />)}
+        </div>
+    );
+};
+
+export default ToastStack;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { useCurrentUser } from '../context/CurrentUserContext';
+
+// Stand-in for sign-in: pick who you are acting as. Each role sees only the actions it may take.
+const UserSwitcher: React.FC = () => {
+    const { currentUser, users, switchUser } = useCurrentUser();
+
+    return (
+        <div className="flex items-center space-x-2 text-sm">
+            <label htmlFor="currentUser" className="text-gray-400">Acting as</label>
+            <select
+                id="currentUser"
+                value={currentUser.id}
+                onChange={e => switchUser(e.target.value)}
+                className="bg-gray-700/50 p-1.5 rounded text-white border border-gray-600"
+            >
+                {users.map(user => <option key={user.id} value={user.id}>{user.name} ({user.role})</option>)}
+            </select>
+        </div>
+    );
+};
+
+export default UserSwitcher;
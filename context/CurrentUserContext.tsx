@@ -0,0 +1,50 @@
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
+import { Permission, User } from '../types';
+import { mockUsers } from '../data/mockData';
+import { hasPermission } from '../utils/permissions';
+
+// There is no sign-in yet: the current user is picked from a fixed list and remembered per browser.
+const STORAGE_KEY = 'compliance-hub:currentUserId';
+
+interface CurrentUserContextType {
+    currentUser: User;
+    users: User[];
+    switchUser: (userId: string) => void;
+    can: (permission: Permission) => boolean;
+}
+
+export const CurrentUserContext = createContext<CurrentUserContextType | undefined>(undefined);
+
+const readStoredUserId = (): string | null => {
+    try {
+        return localStorage.getItem(STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const CurrentUserProvider: React.FC<{ children: ReactNode; users?: User[] }> = ({ children, users = mockUsers }) => {
+    const [currentUserId, setCurrentUserId] = useState<string>(() => readStoredUserId() || users[0].id);
+    const currentUser = users.find(user => user.id === currentUserId) || users[0];
+
+    const switchUser = useCallback((userId: string) => {
+        setCurrentUserId(userId);
+        try {
+            localStorage.setItem(STORAGE_KEY, userId);
+        } catch (err) {
+            console.error("Failed to remember current user:", err);
+        }
+    }, []);
+
+    const can = useCallback((permission: Permission) => hasPermission(currentUser.role, permission), [currentUser.role]);
+
+    const value = useMemo(() => ({ currentUser, users, switchUser, can }), [currentUser, users, switchUser, can]);
+
+    return <CurrentUserContext.Provider value={value}>{children}</CurrentUserContext.Provider>;
+};
+
+export const useCurrentUser = (): CurrentUserContextType => {
+    const context = useContext(CurrentUserContext);
+    if (!context) throw new Error("useCurrentUser must be used within CurrentUserProvider");
+    return context;
+};
@@ -1,19 +1,286 @@
-import React, { createContext, useState, ReactNode } from 'react';
-import { License } from '../types';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef, useState, ReactNode } from 'react';
+import {
+    License, CompliancePolicy, RegulatoryUpdate, ComplianceCheckResult, RiskAssessment, Jurisdiction, Regulator, AttestationCampaign, PolicyRevision, AuditEntityType
+} from '../types';
+import { repositories, Repository } from '../services/repository';
+import { auditLogger } from '../services/auditLog';
+import { policyRevisionLog } from '../services/policyRevisions';
+import { useCurrentUser } from './CurrentUserContext';
+import { buildAuditDrafts, createLicenseAuditEntry, describeLicenseChange, diffFields } from '../utils/auditUtils';
 
-interface DataContextType {
+// --- Domain State ---
+// Collection names match the keys of `Repositories` so each slice maps to one repository.
+export interface DataState {
     licenses: License[];
-    setLicenses: React.Dispatch<React.SetStateAction<License[]>>;
+    policies: CompliancePolicy[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    complianceChecks: ComplianceCheckResult[];
+    riskAssessments: RiskAssessment[];
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+    attestationCampaigns: AttestationCampaign[];
+    // Appended by the store whenever a policy save changes its content or status; never edited.
+    policyRevisions: PolicyRevision[];
+}
+
+export type CollectionName = Exclude<keyof DataState, 'policyRevisions'>;
+export type EntityOf<K extends CollectionName> = DataState[K][number];
+
+const emptyState: DataState = {
+    licenses: [],
+    policies: [],
+    regulatoryUpdates: [],
+    complianceChecks: [],
+    riskAssessments: [],
+    jurisdictions: [],
+    regulators: [],
+    attestationCampaigns: [],
+    policyRevisions: [],
+};
+
+type DataAction =
+    | { type: 'loaded'; state: DataState }
+    | { type: 'added'; collection: CollectionName; item: { id: string } }
+    | { type: 'updated'; collection: CollectionName; item: { id: string } }
+    | { type: 'removed'; collection: CollectionName; id: string }
+    | { type: 'revisionRecorded'; revision: PolicyRevision };
+
+const dataReducer = (state: DataState, action: DataAction): DataState => {
+    switch (action.type) {
+        case 'loaded':
+            return action.state;
+        case 'added': {
+            const items = state[action.collection] as { id: string }[];
+            return { ...state, [action.collection]: [action.item, ...items] };
+        }
+        case 'updated': {
+            const items = state[action.collection] as { id: string }[];
+            return { ...state, [action.collection]: items.map(item => item.id === action.item.id ? action.item : item) };
+        }
+        case 'removed': {
+            const items = state[action.collection] as { id: string }[];
+            return { ...state, [action.collection]: items.filter(item => item.id !== action.id) };
+        }
+        case 'revisionRecorded':
+            return { ...state, policyRevisions: [...state.policyRevisions, action.revision] };
+        default:
+            return state;
+    }
+};
+
+const repositoryFor = <K extends CollectionName>(collection: K) =>
+    repositories[collection] as unknown as Repository<EntityOf<K>>;
+
+const auditEntityTypes: Record<CollectionName, AuditEntityType> = {
+    licenses: 'License',
+    policies: 'CompliancePolicy',
+    regulatoryUpdates: 'RegulatoryUpdate',
+    complianceChecks: 'ComplianceCheckResult',
+    riskAssessments: 'RiskAssessment',
+    jurisdictions: 'Jurisdiction',
+    regulators: 'Regulator',
+    attestationCampaigns: 'AttestationCampaign',
+};
+
+const findRecord = (state: DataState, collection: CollectionName, id: string) =>
+    (state[collection] as { id: string }[]).find(item => item.id === id);
+
+// --- License Audit Trail ---
+// License.auditTrail is append-only: whatever trail a caller passes in is replaced by the stored
+// trail plus one new entry, so history cannot be edited through the store.
+export interface MutationOptions {
+    auditAction?: string; // Overrides the action derived from the diff, e.g. "Renewal Opened"
+    auditDetails?: string;
+    actor?: string; // Who the change is recorded as; defaults to the signed-in user. Set for changes the app makes itself.
+}
+
+const withCreationAudit = (license: License, actor: string, options?: MutationOptions): License => ({
+    ...license,
+    auditTrail: [createLicenseAuditEntry(options?.auditAction || 'Created', actor, options?.auditDetails || `License "${license.name}" created.`)],
+});
+
+const withUpdateAudit = (previous: License, license: License, actor: string, options?: MutationOptions): License => {
+    const entry = options?.auditAction
+        ? createLicenseAuditEntry(options.auditAction, actor, options.auditDetails || '', diffFields(previous, license, ['auditTrail', 'documents', 'renewals']))
+        : describeLicenseChange(previous, license, actor);
+    return { ...license, auditTrail: entry ? [...previous.auditTrail, entry] : previous.auditTrail };
+};
+
+// --- Actions ---
+export interface DataActions {
+    add: <K extends CollectionName>(collection: K, item: EntityOf<K>, options?: MutationOptions) => Promise<EntityOf<K>>;
+    update: <K extends CollectionName>(collection: K, item: EntityOf<K>, options?: MutationOptions) => Promise<EntityOf<K>>;
+    remove: (collection: CollectionName, id: string, options?: MutationOptions) => Promise<void>;
+    // Keeps License.associatedPolicies and CompliancePolicy.relatedLicenses in step.
+    linkPolicy: (licenseId: string, policyId: string) => Promise<void>;
+    unlinkPolicy: (licenseId: string, policyId: string) => Promise<void>;
+    reload: () => Promise<void>;
+}
+
+interface DataContextType extends DataState {
+    isLoading: boolean;
+    loadError: string | null;
+    actions: DataActions;
 }
 
 export const DataContext = createContext<DataContextType | undefined>(undefined);
 
+// Must sit inside CurrentUserProvider: every mutation is attributed to the signed-in user.
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [licenses, setLicenses] = useState<License[]>([]);
+    const { currentUser } = useCurrentUser();
+    const [state, dispatch] = useReducer(dataReducer, emptyState);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    // Actions read the latest records through a ref so they stay stable across renders. The ref is
+    // advanced alongside each dispatch so back-to-back mutations never diff against stale data.
+    const stateRef = useRef(state);
+    stateRef.current = state;
+    const commit = useCallback((action: DataAction) => {
+        stateRef.current = dataReducer(stateRef.current, action);
+        dispatch(action);
+    }, []);
+    const actorRef = useRef(currentUser.name);
+    actorRef.current = currentUser.name;
+
+    const reload = useCallback(async () => {
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            const [licenses, policies, regulatoryUpdates, complianceChecks, riskAssessments, jurisdictions, regulators, attestationCampaigns, policyRevisions] = await Promise.all([
+                repositories.licenses.list(),
+                repositories.policies.list(),
+                repositories.regulatoryUpdates.list(),
+                repositories.complianceChecks.list(),
+                repositories.riskAssessments.list(),
+                repositories.jurisdictions.list(),
+                repositories.regulators.list(),
+                repositories.attestationCampaigns.list(),
+                repositories.policyRevisions.list(),
+            ]);
+            commit({ type: 'loaded', state: { licenses, policies, regulatoryUpdates, complianceChecks, riskAssessments, jurisdictions, regulators, attestationCampaigns, policyRevisions } });
+        } catch (err) {
+            console.error("Failed to load compliance data:", err);
+            setLoadError('Failed to load compliance data.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [commit]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const add = useCallback(async <K extends CollectionName>(collection: K, item: EntityOf<K>, options?: MutationOptions) => {
+        const actor = options?.actor || actorRef.current;
+        const toSave = collection === 'licenses'
+            ? withCreationAudit(item as License, actor, options) as EntityOf<K>
+            : item;
+        const saved = await repositoryFor(collection).create(toSave);
+        if (collection === 'policies') {
+            const revision = await policyRevisionLog.record(saved as CompliancePolicy, undefined, actor, options?.auditDetails);
+            if (revision) commit({ type: 'revisionRecorded', revision });
+        }
+        commit({ type: 'added', collection, item: saved });
+        await auditLogger.record(buildAuditDrafts(auditEntityTypes[collection], undefined, saved, actor, options?.auditAction, options?.auditDetails));
+        return saved;
+    }, [commit]);
+
+    const update = useCallback(async <K extends CollectionName>(collection: K, item: EntityOf<K>, options?: MutationOptions) => {
+        const actor = options?.actor || actorRef.current;
+        const previous = findRecord(stateRef.current, collection, item.id);
+        const toSave = collection === 'licenses' && previous
+            ? withUpdateAudit(previous as License, item as License, actor, options) as EntityOf<K>
+            : item;
+        const saved = await repositoryFor(collection).update(toSave);
+        // Recorded before the commit so anything re-reading history on the change sees the new revision.
+        if (collection === 'policies') {
+            const revision = await policyRevisionLog.record(saved as CompliancePolicy, previous as CompliancePolicy | undefined, actor, options?.auditDetails);
+            if (revision) commit({ type: 'revisionRecorded', revision });
+        }
+        commit({ type: 'updated', collection, item: saved });
+        if (previous) {
+            await auditLogger.record(buildAuditDrafts(auditEntityTypes[collection], previous, saved, actor, options?.auditAction, options?.auditDetails));
+        }
+        return saved;
+    }, [commit]);
+
+    const remove = useCallback(async (collection: CollectionName, id: string, options?: MutationOptions) => {
+        const actor = options?.actor || actorRef.current;
+        const previous = findRecord(stateRef.current, collection, id);
+        if (collection === 'licenses' && previous) {
+            const license = previous as License;
+            const entry = createLicenseAuditEntry(options?.auditAction || 'Deleted', actor, options?.auditDetails || `License "${license.name}" deleted.`);
+            await repositories.archivedLicenses.create({ ...license, auditTrail: [...license.auditTrail, entry] });
+        }
+        await repositoryFor(collection).remove(id);
+        commit({ type: 'removed', collection, id });
+        if (previous) {
+            await auditLogger.record(buildAuditDrafts(auditEntityTypes[collection], previous, undefined, actor, options?.auditAction, options?.auditDetails));
+        }
+    }, [commit]);
+
+    const setPolicyLink = useCallback(async (licenseId: string, policyId: string, linked: boolean) => {
+        const license = stateRef.current.licenses.find(lic => lic.id === licenseId);
+        const policy = stateRef.current.policies.find(pol => pol.id === policyId);
+        if (!license || !policy) {
+            throw new Error(`Cannot link license "${licenseId}" and policy "${policyId}": record not found.`);
+        }
+        const licenseChanged = license.associatedPolicies.includes(policyId) !== linked;
+        if (licenseChanged) {
+            await update('licenses', {
+                ...license,
+                associatedPolicies: linked ? [...license.associatedPolicies, policyId] : license.associatedPolicies.filter(id => id !== policyId),
+            });
+        }
+        if (policy.relatedLicenses.includes(licenseId) !== linked) {
+            try {
+                await update('policies', {
+                    ...policy,
+                    relatedLicenses: linked ? [...policy.relatedLicenses, licenseId] : policy.relatedLicenses.filter(id => id !== licenseId),
+                });
+            } catch (err) {
+                // Put the license back so the link is not left recorded on one side only.
+                if (licenseChanged) {
+                    await update('licenses', license, {
+                        auditAction: 'Policy Link Rolled Back',
+                        auditDetails: `Saving policy "${policy.name}" failed, so the change to its link was undone.`,
+                    }).catch(rollbackErr => console.error(`Failed to roll back the policy link on license "${license.name}":`, rollbackErr));
+                }
+                throw err;
+            }
+        }
+    }, [update]);
+
+    const actions = useMemo<DataActions>(() => ({
+        add,
+        update,
+        remove,
+        linkPolicy: (licenseId, policyId) => setPolicyLink(licenseId, policyId, true),
+        unlinkPolicy: (licenseId, policyId) => setPolicyLink(licenseId, policyId, false),
+        reload,
+    }), [add, update, remove, setPolicyLink, reload]);
+
+    const value = useMemo(() => ({ ...state, isLoading, loadError, actions }), [state, isLoading, loadError, actions]);
 
     return (
-        <DataContext.Provider value={{ licenses, setLicenses }}>
+        <DataContext.Provider value={value}>
             {children}
         </DataContext.Provider>
     );
 };
+
+export const useData = (): DataContextType => {
+    const context = useContext(DataContext);
+    if (!context) throw new Error("useData must be used within DataProvider");
+    return context;
+};
+
+// Runs a selector (see ./selectors) against the store, recomputing only when the data changes.
+export const useDataSelector = <R,>(selector: (state: DataState) => R): R => {
+    const { licenses, policies, regulatoryUpdates, complianceChecks, riskAssessments, jurisdictions, regulators, attestationCampaigns, policyRevisions } = useData();
+    return useMemo(
+        () => selector({ licenses, policies, regulatoryUpdates, complianceChecks, riskAssessments, jurisdictions, regulators, attestationCampaigns, policyRevisions }),
+        [selector, licenses, policies, regulatoryUpdates, complianceChecks, riskAssessments, jurisdictions, regulators, attestationCampaigns, policyRevisions]
+    );
+};
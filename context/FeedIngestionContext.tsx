@@ -0,0 +1,149 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { RegulatoryFeed } from '../types';
+import { repositories } from '../services/repository';
+import { auditLogger } from '../services/auditLog';
+import { pollFeed, validateFeed } from '../services/feedIngestion';
+import { buildAuditDrafts } from '../utils/auditUtils';
+import { hasPermission } from '../utils/permissions';
+import { useCurrentUser } from './CurrentUserContext';
+import { useData } from './DataContext';
+import { useNotifications } from './NotificationContext';
+import { parseISO } from '../utils/dateUtils';
+
+// Each enabled feed is polled this often while the app is open.
+const FEED_POLL_INTERVAL_MS = 30 * 60 * 1000;
+// Polls run whoever is signed in, so what they ingest is recorded as the app's doing, not that person's.
+const FEED_INGESTION_ACTOR = 'Feed Ingestion';
+
+interface FeedIngestionContextType {
+    feeds: RegulatoryFeed[];
+    saveFeed: (feed: RegulatoryFeed) => Promise<RegulatoryFeed>;
+    removeFeed: (id: string) => Promise<void>;
+    // Polls the given feeds (default: every enabled one) now, whenever they were last polled.
+    pollNow: (feedIds?: string[]) => Promise<RegulatoryFeed[]>;
+    isPolling: boolean;
+}
+
+export const FeedIngestionContext = createContext<FeedIngestionContextType | undefined>(undefined);
+
+// Feed configuration and the poller that turns feed entries into regulatory updates. Must sit
+// inside DataProvider and NotificationProvider. Until there is a backend job, the open app does the polling.
+export const FeedIngestionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { regulatoryUpdates, jurisdictions, regulators, actions, isLoading } = useData();
+    const { showToast } = useNotifications();
+    const { currentUser } = useCurrentUser();
+    const [feeds, setFeeds] = useState<RegulatoryFeed[]>([]);
+    const [feedsLoaded, setFeedsLoaded] = useState(false);
+    const [isPolling, setIsPolling] = useState(false);
+
+    // The poller runs from a timer, so it reads the latest data through refs.
+    const sourcesRef = useRef({ regulatoryUpdates, jurisdictions, regulators });
+    sourcesRef.current = { regulatoryUpdates, jurisdictions, regulators };
+    const feedsRef = useRef(feeds);
+    feedsRef.current = feeds;
+    const pollingRef = useRef(false);
+    const userRef = useRef(currentUser);
+    userRef.current = currentUser;
+
+    // The modal hides its controls without the permission, but the user can change while it is open.
+    const requireManage = useCallback(() => {
+        const { role } = userRef.current;
+        if (!hasPermission(role, 'manageRegulatoryFeeds')) throw new Error(`As ${role} you cannot change regulatory feeds.`);
+    }, []);
+
+    useEffect(() => {
+        repositories.regulatoryFeeds.list()
+            .then(setFeeds)
+            .catch(err => console.error("Failed to load regulatory feeds:", err))
+            .finally(() => setFeedsLoaded(true));
+    }, []);
+
+    const storeFeed = useCallback(async (feed: RegulatoryFeed) => {
+        const exists = feedsRef.current.some(other => other.id === feed.id);
+        const saved = exists ? await repositories.regulatoryFeeds.update(feed) : await repositories.regulatoryFeeds.create(feed);
+        feedsRef.current = exists ? feedsRef.current.map(other => other.id === saved.id ? saved : other) : [...feedsRef.current, saved];
+        setFeeds(feedsRef.current);
+        return saved;
+    }, []);
+
+    // Configuration changes are audited; the poller's own updates to lastPoll are not.
+    const saveFeed = useCallback(async (feed: RegulatoryFeed) => {
+        requireManage();
+        const problems = validateFeed(feed, feedsRef.current);
+        if (problems.length > 0) throw new Error(problems.join(' '));
+        const previous = feedsRef.current.find(other => other.id === feed.id);
+        const saved = await storeFeed(feed);
+        await auditLogger.record(buildAuditDrafts('RegulatoryFeed', previous, saved, userRef.current.name));
+        return saved;
+    }, [requireManage, storeFeed]);
+
+    const removeFeed = useCallback(async (id: string) => {
+        requireManage();
+        const previous = feedsRef.current.find(feed => feed.id === id);
+        await repositories.regulatoryFeeds.remove(id);
+        feedsRef.current = feedsRef.current.filter(feed => feed.id !== id);
+        setFeeds(feedsRef.current);
+        if (previous) await auditLogger.record(buildAuditDrafts('RegulatoryFeed', previous, undefined, userRef.current.name));
+    }, [requireManage]);
+
+    // One poll at a time, so two runs cannot both ingest the same new entry.
+    const runPolls = useCallback(async (due: (feed: RegulatoryFeed) => boolean) => {
+        if (pollingRef.current) return [];
+        pollingRef.current = true;
+        setIsPolling(true);
+        const polled: RegulatoryFeed[] = [];
+        try {
+            const { jurisdictions: registry, regulators: directory } = sourcesRef.current;
+            let known = sourcesRef.current.regulatoryUpdates;
+            for (const feed of feedsRef.current.filter(due)) {
+                let added = 0;
+                try {
+                    const { updates, feed: result } = await pollFeed(feed, known, { jurisdictions: registry, regulators: directory });
+                    for (const update of updates) {
+                        await actions.add('regulatoryUpdates', update, { auditAction: 'Ingested', auditDetails: `From feed "${feed.name}" (${update.fullTextUrl}).`, actor: FEED_INGESTION_ACTOR });
+                        known = [...known, update];
+                        added++;
+                    }
+                    if (result.lastPoll?.error) console.error(`Failed to poll feed "${feed.name}":`, result.lastPoll.error);
+                    polled.push(await storeFeed(result));
+                } catch (err) {
+                    // pollFeed records its own failures; this is saving an update or the feed failing.
+                    const error = err instanceof Error ? err.message : String(err);
+                    console.error(`Failed to poll feed "${feed.name}":`, err);
+                    showToast(`Polling feed "${feed.name}" failed: ${error}`, 'error');
+                    try {
+                        polled.push(await storeFeed({ ...feed, lastPoll: { date: new Date().toISOString(), added, duplicates: 0, skipped: 0, error } }));
+                    } catch (saveErr) {
+                        console.error(`Failed to record the failed poll of feed "${feed.name}":`, saveErr);
+                    }
+                }
+            }
+        } finally {
+            pollingRef.current = false;
+            setIsPolling(false);
+        }
+        return polled;
+    }, [actions, storeFeed, showToast]);
+
+    const pollNow = useCallback((feedIds?: string[]) =>
+        runPolls(feed => feedIds ? feedIds.includes(feed.id) : feed.enabled), [runPolls]);
+
+    useEffect(() => {
+        if (isLoading || !feedsLoaded) return;
+        const pollDue = () => runPolls(feed => feed.enabled
+            && (!feed.lastPoll || Date.now() - parseISO(feed.lastPoll.date).getTime() >= FEED_POLL_INTERVAL_MS));
+        pollDue();
+        const timer = setInterval(pollDue, FEED_POLL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isLoading, feedsLoaded, runPolls]);
+
+    const value = useMemo(() => ({ feeds, saveFeed, removeFeed, pollNow, isPolling }), [feeds, saveFeed, removeFeed, pollNow, isPolling]);
+
+    return <FeedIngestionContext.Provider value={value}>{children}</FeedIngestionContext.Provider>;
+};
+
+export const useFeedIngestion = (): FeedIngestionContextType => {
+    const context = useContext(FeedIngestionContext);
+    if (!context) throw new Error("useFeedIngestion must be used within FeedIngestionProvider");
+    return context;
+};
@@ -0,0 +1,219 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { InboxNotification, RecordLink, ReminderPreferences, User } from '../types';
+import { repositories } from '../services/repository';
+import { buildDigest, collectReminders, defaultReminderPreferences, isDigestDue, ReminderItem } from '../services/reminderEngine';
+import { deliverDigest, DigestDelivery } from '../services/notificationChannels';
+import { useCurrentUser } from './CurrentUserContext';
+import { useData } from './DataContext';
+import { generateId } from '../utils/idUtils';
+
+// The scheduler wakes up this often; each user still gets at most one digest per day.
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface Toast {
+    id: string;
+    message: string;
+    type: ToastType;
+}
+
+interface NotificationContextType {
+    // --- Toasts: short-lived feedback on the user's own actions, shown one after another ---
+    toasts: Toast[];
+    showToast: (message: string, type: ToastType) => void;
+    dismissToast: (id: string) => void;
+
+    // --- Inbox: the current user's persistent notifications, newest first ---
+    inbox: InboxNotification[];
+    unreadCount: number;
+    setRead: (id: string, read: boolean) => Promise<void>;
+    markAllRead: () => Promise<void>;
+    // Asks whichever view owns the record's modals to open it; that view clears the request once handled.
+    openLink: (link: RecordLink) => void;
+    pendingLink: RecordLink | null;
+    clearPendingLink: () => void;
+
+    // --- Reminders ---
+    preferences: ReminderPreferences; // The current user's
+    savePreferences: (preferences: ReminderPreferences) => Promise<void>;
+    // Sends the current user a digest right away, even if one already went out today.
+    sendDigestNow: () => Promise<DigestDelivery>;
+    // Sends someone the given items straight away through their own channels, outside the daily digest.
+    sendReminder: (user: User, items: ReminderItem[]) => Promise<DigestDelivery>;
+    lastDeliveries: DigestDelivery[];
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+// Toasts, the in-app inbox and the reminder scheduler. Must sit inside DataProvider. Until there is
+// a backend job, the open app runs the reminder schedule for every user.
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { currentUser, users } = useCurrentUser();
+    const { licenses, policies, regulatoryUpdates, attestationCampaigns, isLoading } = useData();
+    const [preferencesByUser, setPreferencesByUser] = useState<Record<string, ReminderPreferences>>({});
+    const [preferencesLoaded, setPreferencesLoaded] = useState(false);
+    const [lastDeliveries, setLastDeliveries] = useState<DigestDelivery[]>([]);
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+    const [pendingLink, setPendingLink] = useState<RecordLink | null>(null);
+
+    // The scheduler runs from a timer, so it reads the latest data through refs.
+    const sourcesRef = useRef({ licenses, policies, regulatoryUpdates, attestationCampaigns });
+    sourcesRef.current = { licenses, policies, regulatoryUpdates, attestationCampaigns };
+    const preferencesRef = useRef(preferencesByUser);
+    preferencesRef.current = preferencesByUser;
+    const schedulingRef = useRef(false);
+
+    const showToast = useCallback((message: string, type: ToastType) => {
+        setToasts(prev => [...prev, { id: generateId(), message, type }]);
+    }, []);
+
+    const dismissToast = useCallback((id: string) => {
+        setToasts(prev => prev.filter(toast => toast.id !== id));
+    }, []);
+
+    const reloadInbox = useCallback(async () => {
+        try {
+            setNotifications(await repositories.notifications.list());
+        } catch (err) {
+            console.error("Failed to load notifications:", err);
+        }
+    }, []);
+
+    useEffect(() => {
+        reloadInbox();
+    }, [reloadInbox]);
+
+    const inbox = useMemo(
+        () => notifications
+            .filter(entry => entry.userId === currentUser.id)
+            .sort((a, b) => b.createdDate.localeCompare(a.createdDate)),
+        [notifications, currentUser.id]
+    );
+
+    const setRead = useCallback(async (id: string, read: boolean) => {
+        const entry = notifications.find(item => item.id === id);
+        if (!entry || entry.read === read) return;
+        const saved = await repositories.notifications.update({ ...entry, read });
+        setNotifications(prev => prev.map(item => item.id === id ? saved : item));
+    }, [notifications]);
+
+    const markAllRead = useCallback(async () => {
+        const unread = inbox.filter(entry => !entry.read);
+        const saved = await Promise.all(unread.map(entry => repositories.notifications.update({ ...entry, read: true })));
+        const byId = new Map(saved.map(entry => [entry.id, entry]));
+        setNotifications(prev => prev.map(item => byId.get(item.id) || item));
+    }, [inbox]);
+
+    const clearPendingLink = useCallback(() => setPendingLink(null), []);
+
+    useEffect(() => {
+        repositories.reminderPreferences.list()
+            .then(stored => setPreferencesByUser(Object.fromEntries(stored.map(pref => [pref.userId, pref]))))
+            .catch(err => console.error("Failed to load reminder preferences:", err))
+            .finally(() => setPreferencesLoaded(true));
+    }, []);
+
+    const preferencesFor = useCallback((userId: string) => preferencesRef.current[userId] || defaultReminderPreferences(userId), []);
+
+    const savePreferences = useCallback(async (preferences: ReminderPreferences) => {
+        const exists = !!preferencesRef.current[preferences.userId];
+        const saved = exists
+            ? await repositories.reminderPreferences.update(preferences)
+            : await repositories.reminderPreferences.create(preferences);
+        preferencesRef.current = { ...preferencesRef.current, [saved.userId]: saved };
+        setPreferencesByUser(preferencesRef.current);
+    }, []);
+
+    // The day is claimed before delivery, so a run overlapping this one finds the digest already sent.
+    // A digest counts as sent once any channel took it, so a broken webhook alone does not cause daily
+    // resends; if none did, the claim is released for the next run to try again.
+    const sendDigest = useCallback(async (user: User, now: Date): Promise<DigestDelivery> => {
+        const preferences = preferencesFor(user.id);
+        const items = collectReminders(sourcesRef.current, user, preferences, now);
+        await savePreferences({ ...preferences, lastDigestDate: now.toISOString() });
+        if (items.length === 0) return { userId: user.id, itemCount: 0, delivered: [], failed: [] };
+        let delivery: DigestDelivery | undefined;
+        try {
+            delivery = await deliverDigest(buildDigest(user, items, now), preferences);
+            return delivery;
+        } finally {
+            if (!delivery?.delivered.length) await savePreferences({ ...preferencesFor(user.id), lastDigestDate: preferences.lastDigestDate });
+        }
+    }, [preferencesFor, savePreferences]);
+
+    // One run at a time: StrictMode's second effect, or a slow run meeting the next tick, would
+    // otherwise find the same digests due and send them twice.
+    const runSchedule = useCallback(async () => {
+        if (schedulingRef.current) return;
+        schedulingRef.current = true;
+        try {
+            const now = new Date();
+            const deliveries: DigestDelivery[] = [];
+            for (const user of users) {
+                if (!isDigestDue(preferencesFor(user.id), now)) continue;
+                try {
+                    deliveries.push(await sendDigest(user, now));
+                } catch (err) {
+                    console.error(`Failed to send reminder digest to ${user.name}:`, err);
+                }
+            }
+            if (deliveries.length > 0) {
+                setLastDeliveries(deliveries);
+                await reloadInbox();
+            }
+        } finally {
+            schedulingRef.current = false;
+        }
+    }, [users, preferencesFor, sendDigest, reloadInbox]);
+
+    useEffect(() => {
+        if (isLoading || !preferencesLoaded) return;
+        runSchedule();
+        const timer = setInterval(runSchedule, SCHEDULER_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isLoading, preferencesLoaded, runSchedule]);
+
+    const sendDigestNow = useCallback(async () => {
+        const delivery = await sendDigest(currentUser, new Date());
+        setLastDeliveries([delivery]);
+        await reloadInbox();
+        return delivery;
+    }, [currentUser, sendDigest, reloadInbox]);
+
+    const sendReminder = useCallback(async (user: User, items: ReminderItem[]) => {
+        const delivery = await deliverDigest(buildDigest(user, items), preferencesFor(user.id));
+        await reloadInbox();
+        return delivery;
+    }, [preferencesFor, reloadInbox]);
+
+    const value = useMemo(() => ({
+        toasts,
+        showToast,
+        dismissToast,
+        inbox,
+        unreadCount: inbox.filter(entry => !entry.read).length,
+        setRead,
+        markAllRead,
+        openLink: setPendingLink,
+        pendingLink,
+        clearPendingLink,
+        preferences: preferencesByUser[currentUser.id] || defaultReminderPreferences(currentUser.id),
+        savePreferences,
+        sendDigestNow,
+        sendReminder,
+        lastDeliveries,
+    }), [
+        toasts, showToast, dismissToast, inbox, setRead, markAllRead, pendingLink, clearPendingLink,
+        preferencesByUser, currentUser.id, savePreferences, sendDigestNow, sendReminder, lastDeliveries,
+    ]);
+
+    return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+};
+
+export const useNotifications = (): NotificationContextType => {
+    const context = useContext(NotificationContext);
+    if (!context) throw new Error("useNotifications must be used within NotificationProvider");
+    return context;
+};
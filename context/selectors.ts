@@ -0,0 +1,62 @@
+import { addMonths, isFuture, parseISO } from '../utils/dateUtils';
+import { License } from '../types';
+import { findStatusMismatches } from '../utils/licenseStatus';
+import { findBrokenPolicyLinks, findLicensesWithoutAmlKycPolicy } from '../services/policyLinks';
+import type { DataState } from './DataContext';
+
+// --- Selectors ---
+// Plain functions over DataState so they can be used with useDataSelector or called directly.
+// Parameterised selectors are factories; memoise the returned function if it is passed to a hook.
+
+export const selectLicenseById = (id: string) => (state: DataState) =>
+    state.licenses.find(lic => lic.id === id);
+
+export const selectPolicyById = (id: string) => (state: DataState) =>
+    state.policies.find(pol => pol.id === id);
+
+export const selectJurisdictionById = (id: string) => (state: DataState) =>
+    state.jurisdictions.find(jur => jur.id === id);
+
+export const selectLicensesByStatus = (status: License['status']) => (state: DataState) =>
+    state.licenses.filter(lic => lic.status === status);
+
+export const selectLicensesByJurisdiction = (jurisdictionId: string) => (state: DataState) =>
+    state.licenses.filter(lic => lic.jurisdictionId === jurisdictionId);
+
+export const selectPoliciesForLicense = (licenseId: string) => (state: DataState) => {
+    const license = state.licenses.find(lic => lic.id === licenseId);
+    if (!license) return [];
+    return state.policies.filter(pol => license.associatedPolicies.includes(pol.id));
+};
+
+export const selectLicensesForPolicy = (policyId: string) => (state: DataState) => {
+    const policy = state.policies.find(pol => pol.id === policyId);
+    if (!policy) return [];
+    return state.licenses.filter(lic => policy.relatedLicenses.includes(lic.id));
+};
+
+// Licenses whose renewal reminder falls within the next `months` months, soonest first.
+export const selectUpcomingRenewals = (months = 3) => (state: DataState) => {
+    const horizon = addMonths(new Date(), months);
+    return state.licenses
+        .filter(lic => {
+            const reminderDate = parseISO(lic.nextRenewalReminderDate);
+            return isFuture(reminderDate) && horizon > reminderDate;
+        })
+        .sort((a, b) => parseISO(a.nextRenewalReminderDate).getTime() - parseISO(b.nextRenewalReminderDate).getTime());
+};
+
+// Licenses whose stored status disagrees with the one their dates and renewals call for as of `now`.
+// Dates cross thresholds without the data changing, so callers that stay open pass a ticking clock.
+export const selectLicenseStatusMismatches = (now: Date = new Date()) => (state: DataState) =>
+    findStatusMismatches(state.licenses, now);
+
+// License-policy links recorded on one side only or pointing at records that no longer exist.
+export const selectBrokenPolicyLinks = (state: DataState) =>
+    findBrokenPolicyLinks(state);
+
+export const selectLicensesWithoutAmlKycPolicy = (state: DataState) =>
+    findLicensesWithoutAmlKycPolicy(state);
+
+export const selectOpenHighSeverityUpdates = (state: DataState) =>
+    state.regulatoryUpdates.filter(upd => upd.severity === 'High' && upd.status !== 'Implemented');
@@ -0,0 +1,10 @@
+import { ApprovalStep } from '../types';
+
+// --- Default Approval Chain ---
+// Author, then the head of the policy's responsible department, then the CCO. Used for policy
+// drafts until an admin saves a chain of their own.
+export const DEFAULT_APPROVAL_CHAIN: ApprovalStep[] = [
+    { id: 'STEP-author', name: 'Author', approverRoles: ['Analyst', 'Compliance Officer', 'Admin'], sameDepartment: false },
+    { id: 'STEP-department-head', name: 'Department Head', approverRoles: ['Compliance Officer', 'Admin'], sameDepartment: true },
+    { id: 'STEP-cco', name: 'Chief Compliance Officer', approverRoles: ['Admin'], sameDepartment: false },
+];
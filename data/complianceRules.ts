@@ -0,0 +1,112 @@
+import { AssessedRisk } from '../types';
+
+// --- Fixture Data for the Local (Offline) AI Provider ---
+// Deterministic keyword tables standing in for the model. Keywords are matched case-insensitively
+// on word boundaries against the feature description.
+
+export interface FeatureRule {
+    keywords: string[];
+    area: string;
+    weight: number; // Contribution to the overall risk score
+    risk: AssessedRisk;
+    mitigation: string;
+}
+
+export const featureRules: FeatureRule[] = [
+    {
+        keywords: ['cross-border', 'cross border', 'international', 'remittance', 'remittances', 'overseas', 'abroad'],
+        area: 'Sanctions',
+        weight: 2,
+        risk: { description: 'Cross-border flows increase exposure to sanctioned parties and high-risk corridors.', likelihood: 'Medium', impact: 'High', mitigations: ['Real-time sanctions screening', 'Corridor risk assessment'] },
+        mitigation: 'Screen all counterparties against consolidated sanctions lists before funds are released.',
+    },
+    {
+        keywords: ['crypto', 'cryptocurrency', 'bitcoin', 'stablecoin', 'stablecoins', 'digital asset', 'digital assets', 'token', 'tokens'],
+        area: 'Crypto-asset Regulation',
+        weight: 3,
+        risk: { description: 'Crypto-asset services usually require separate VASP/CASP registration and travel-rule compliance.', likelihood: 'High', impact: 'High', mitigations: ['Travel-rule messaging', 'Blockchain analytics monitoring'] },
+        mitigation: 'Confirm crypto-asset service provider registration requirements in each launch jurisdiction.',
+    },
+    {
+        keywords: ['exchange', 'fx', 'foreign exchange', 'currency conversion', 'currency exchange', 'conversion'],
+        area: 'Foreign Exchange',
+        weight: 1,
+        risk: { description: 'Currency exchange may be a separately regulated activity with pricing disclosure rules.', likelihood: 'Medium', impact: 'Medium', mitigations: ['Transparent FX rate and fee disclosure'] },
+        mitigation: 'Disclose exchange rates and fees before each transaction is confirmed.',
+    },
+    {
+        keywords: ['lending', 'loan', 'loans', 'credit', 'bnpl', 'buy now pay later', 'overdraft'],
+        area: 'Consumer Credit',
+        weight: 3,
+        risk: { description: 'Extending credit brings consumer credit licensing, affordability and disclosure obligations.', likelihood: 'High', impact: 'High', mitigations: ['Affordability assessments', 'Credit agreement disclosures'] },
+        mitigation: 'Treat any credit element as out of scope of payment licenses until consumer credit permissions are confirmed.',
+    },
+    {
+        keywords: ['instant', 'real-time', 'realtime', 'immediate'],
+        area: 'Fraud Prevention',
+        weight: 1,
+        risk: { description: 'Instant settlement leaves little time to stop fraudulent or mistaken payments.', likelihood: 'Medium', impact: 'Medium', mitigations: ['Pre-authorisation fraud scoring', 'Confirmation of payee checks'] },
+        mitigation: 'Apply risk-based holds to first-time and high-value instant payments.',
+    },
+    {
+        keywords: ['card', 'cards', 'debit', 'prepaid', 'issuing'],
+        area: 'Card Scheme Rules',
+        weight: 1,
+        risk: { description: 'Card programmes bring scheme rules and sponsor bank oversight obligations.', likelihood: 'Low', impact: 'Medium', mitigations: ['Sponsor bank programme review'] },
+        mitigation: 'Agree programme governance with the sponsor bank and card scheme before launch.',
+    },
+    {
+        keywords: ['data', 'personal data', 'biometric', 'biometrics', 'open banking', 'profiling', 'tracking'],
+        area: 'Data Privacy',
+        weight: 1,
+        risk: { description: 'New processing of personal data needs a lawful basis and may require a privacy impact assessment.', likelihood: 'Medium', impact: 'Medium', mitigations: ['Data protection impact assessment', 'Data minimisation review'] },
+        mitigation: 'Complete a data protection impact assessment before processing begins.',
+    },
+    {
+        keywords: ['wallet', 'wallets', 'stored value', 'e-money', 'emoney', 'balance', 'balances'],
+        area: 'Safeguarding',
+        weight: 2,
+        risk: { description: 'Holding customer balances triggers e-money safeguarding and reconciliation requirements.', likelihood: 'Medium', impact: 'High', mitigations: ['Daily safeguarding reconciliation', 'Segregated client accounts'] },
+        mitigation: 'Ring-fence customer funds in safeguarding accounts and reconcile daily.',
+    },
+    {
+        keywords: ['merchant', 'merchants', 'business', 'businesses', 'b2b', 'acquiring', 'marketplace'],
+        area: 'KYB / Merchant Due Diligence',
+        weight: 1,
+        risk: { description: 'Onboarding businesses requires beneficial ownership checks and merchant monitoring.', likelihood: 'Medium', impact: 'Medium', mitigations: ['Beneficial ownership verification', 'Merchant category monitoring'] },
+        mitigation: 'Extend onboarding to verify beneficial owners and prohibited merchant categories.',
+    },
+];
+
+// Every payment feature touches AML/KYC, whatever else it does.
+export const baselineRule: FeatureRule = {
+    keywords: [],
+    area: 'AML/KYC',
+    weight: 1,
+    risk: { description: 'New payment flows must be covered by customer due diligence and transaction monitoring.', likelihood: 'Medium', impact: 'Medium', mitigations: ['Transaction monitoring scenarios', 'Customer due diligence refresh'] },
+    mitigation: 'Update AML transaction monitoring scenarios to cover the new flows.',
+};
+
+// Alternative names per country code, in addition to each jurisdiction's own name and code.
+export const countryAliases: Record<string, string[]> = {
+    US: ['united states', 'usa', 'u.s.', 'america', 'american'],
+    GB: ['uk', 'u.k.', 'britain', 'great britain', 'england', 'british'],
+    IE: ['irish'],
+    BR: ['brazilian', 'brasil'],
+    AU: ['australian'],
+    SG: ['singaporean'],
+};
+
+export const EEA_ALIASES = ['eea', 'eu', 'europe', 'european union', 'european'];
+
+// The license a payments firm typically needs in each country, used for gap suggestions.
+export const typicalLicenseByCountry: Record<string, string> = {
+    US: 'State Money Transmitter License',
+    GB: 'Electronic Money Institution Authorisation',
+    IE: 'Electronic Money Institution Authorisation',
+    BR: 'Payment Institution Authorisation',
+    AU: 'Australian Financial Services Licence',
+    SG: 'Major Payment Institution Licence',
+};
+
+export const LARGE_TRANSACTION_THRESHOLD = 10000;
@@ -0,0 +1,363 @@
+import { addMonths, addDays, parseISO } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+import { computeLicenseStatus } from '../utils/licenseStatus';
+import { DEFAULT_APPROVAL_CHAIN } from './approvalChain';
+import {
+    License, CompliancePolicy, RegulatoryUpdate, ComplianceCheckResult, RiskAssessment, Jurisdiction, Regulator, RegulatoryFiling, User, PassportNotification,
+    PolicyRevision, PolicyApprovalRound, AttestationCampaign, RegulatoryFeed
+} from '../types';
+
+// --- Mock Data Generation (Extensive) ---
+// One user per role, so every permission level can be tried from the user switcher.
+export const mockUsers: User[] = [
+    { id: 'USR001', name: 'Alex Morgan', email: 'alex.morgan@example.com', role: 'Admin', department: 'Operations' },
+    { id: 'USR002', name: 'Priya Shah', email: 'priya.shah@example.com', role: 'Compliance Officer', department: 'Compliance' },
+    { id: 'USR003', name: 'Sam Lee', email: 'sam.lee@example.com', role: 'Analyst', department: 'Compliance' },
+    { id: 'USR004', name: 'Jordan Reyes', email: 'jordan.reyes@example.com', role: 'Viewer', department: 'Product' },
+];
+
+// Licenses are issued in the leaves of this tree; the United States and the EEA group their members.
+export const mockJurisdictions: Jurisdiction[] = [
+    {
+        id: 'JUR001', name: 'California', countryCode: 'US', currency: 'USD', isEEA: false, primaryRegulator: 'DFPI',
+        level: 'Subdivision', parentId: 'JUR008', subdivisionCode: 'US-CA', primaryRegulatorId: 'RGL001',
+        holidays: [{ date: '2026-03-31', name: 'Cesar Chavez Day' }, { date: '2027-03-31', name: 'Cesar Chavez Day' }],
+    },
+    {
+        id: 'JUR002', name: 'New York', countryCode: 'US', currency: 'USD', isEEA: false, primaryRegulator: 'DFS',
+        level: 'Subdivision', parentId: 'JUR008', subdivisionCode: 'US-NY', primaryRegulatorId: 'RGL002',
+        holidays: [{ date: '2027-02-12', name: "Lincoln's Birthday" }],
+    },
+    {
+        id: 'JUR003', name: 'United Kingdom', countryCode: 'GB', currency: 'GBP', isEEA: false, primaryRegulator: 'FCA',
+        level: 'Country', primaryRegulatorId: 'RGL003',
+        holidays: [{ date: '2026-12-25', name: 'Christmas Day' }, { date: '2026-12-28', name: 'Boxing Day (substitute)' }, { date: '2027-01-01', name: "New Year's Day" }],
+    },
+    {
+        id: 'JUR004', name: 'Ireland', countryCode: 'IE', currency: 'EUR', isEEA: true, primaryRegulator: 'CBI',
+        level: 'Country', parentId: 'JUR009', primaryRegulatorId: 'RGL005',
+        holidays: [{ date: '2026-12-25', name: 'Christmas Day' }, { date: '2026-12-26', name: "St. Stephen's Day" }, { date: '2027-03-17', name: "St. Patrick's Day" }],
+    },
+    {
+        id: 'JUR005', name: 'Brazil', countryCode: 'BR', currency: 'BRL', isEEA: false, primaryRegulator: 'BACEN',
+        level: 'Country', primaryRegulatorId: 'RGL006',
+        holidays: [{ date: '2026-11-20', name: 'Black Consciousness Day' }, { date: '2026-12-25', name: 'Christmas Day' }, { date: '2027-02-09', name: 'Carnival' }],
+    },
+    {
+        id: 'JUR006', name: 'Australia', countryCode: 'AU', currency: 'AUD', isEEA: false, primaryRegulator: 'ASIC',
+        level: 'Country', primaryRegulatorId: 'RGL008',
+        holidays: [{ date: '2026-12-25', name: 'Christmas Day' }, { date: '2026-12-28', name: 'Boxing Day (substitute)' }, { date: '2027-01-26', name: 'Australia Day' }],
+    },
+    {
+        id: 'JUR007', name: 'Singapore', countryCode: 'SG', currency: 'SGD', isEEA: false, primaryRegulator: 'MAS',
+        level: 'Country', primaryRegulatorId: 'RGL010',
+        holidays: [{ date: '2026-11-08', name: 'Deepavali' }, { date: '2026-12-25', name: 'Christmas Day' }],
+    },
+    {
+        id: 'JUR008', name: 'United States', countryCode: 'US', currency: 'USD', isEEA: false, primaryRegulator: 'FinCEN',
+        level: 'Country', primaryRegulatorId: 'RGL011',
+        holidays: [{ date: '2026-11-11', name: 'Veterans Day' }, { date: '2026-11-26', name: 'Thanksgiving Day' }, { date: '2026-12-25', name: 'Christmas Day' }, { date: '2027-01-01', name: "New Year's Day" }],
+    },
+    {
+        id: 'JUR009', name: 'European Economic Area', countryCode: 'EEA', currency: 'EUR', isEEA: true, primaryRegulator: 'EBA',
+        level: 'Supranational', primaryRegulatorId: 'RGL014',
+    },
+    {
+        id: 'JUR010', name: 'Germany', countryCode: 'DE', currency: 'EUR', isEEA: true, primaryRegulator: 'BaFin',
+        level: 'Country', parentId: 'JUR009', primaryRegulatorId: 'RGL016',
+        holidays: [{ date: '2026-12-25', name: 'Christmas Day' }, { date: '2026-12-26', name: "St. Stephen's Day" }, { date: '2027-01-01', name: "New Year's Day" }],
+    },
+    {
+        id: 'JUR011', name: 'Netherlands', countryCode: 'NL', currency: 'EUR', isEEA: true, primaryRegulator: 'DNB',
+        level: 'Country', parentId: 'JUR009', primaryRegulatorId: 'RGL018',
+        holidays: [{ date: '2026-12-25', name: 'Christmas Day' }, { date: '2026-12-26', name: 'Second Day of Christmas' }, { date: '2027-04-27', name: "King's Day" }],
+    },
+    {
+        id: 'JUR012', name: 'France', countryCode: 'FR', currency: 'EUR', isEEA: true, primaryRegulator: 'ACPR',
+        level: 'Country', parentId: 'JUR009', primaryRegulatorId: 'RGL020',
+        holidays: [{ date: '2026-11-11', name: 'Armistice Day' }, { date: '2026-12-25', name: 'Christmas Day' }, { date: '2027-01-01', name: "New Year's Day" }],
+    },
+    {
+        id: 'JUR013', name: 'Spain', countryCode: 'ES', currency: 'EUR', isEEA: true, primaryRegulator: 'BdE',
+        level: 'Country', parentId: 'JUR009', primaryRegulatorId: 'RGL021',
+        holidays: [{ date: '2026-12-08', name: 'Immaculate Conception' }, { date: '2026-12-25', name: 'Christmas Day' }, { date: '2027-01-06', name: 'Epiphany' }],
+    },
+];
+
+// Every regulator gets a supervision contact and a portal; the main licensing regulators also carry
+// their recurring filings.
+const createMockRegulator = (
+    id: string, shortName: string, name: string, jurisdictionIds: string[], website: string, overrides?: Partial<Regulator>
+): Regulator => ({
+    id,
+    shortName,
+    name,
+    jurisdictionIds,
+    website,
+    contacts: [{ id: `${id}-C1`, name: `${shortName} Supervision Team`, role: 'Supervision', email: `supervision@${new URL(website).hostname.replace(/^www\./, '')}` }],
+    portals: [{ id: `${id}-P1`, name: `${shortName} Online Portal`, url: website, purpose: 'Filings and notifications' }],
+    filings: [],
+    notes: '',
+    ...overrides,
+});
+
+const filing = (id: string, name: string, frequency: RegulatoryFiling['frequency'], monthsAhead: number, portalId: string): RegulatoryFiling => ({
+    id, name, frequency, nextDueDate: addMonths(new Date(), monthsAhead).toISOString(), portalId, owner: 'Compliance',
+});
+
+export const mockRegulators: Regulator[] = [
+    createMockRegulator('RGL001', 'DFPI', 'California Department of Financial Protection and Innovation', ['JUR001'], 'https://dfpi.ca.gov', {
+        filings: [filing('RGL001-F1', 'Quarterly Money Transmitter Report', 'Quarterly', 1, 'RGL001-P1')],
+    }),
+    createMockRegulator('RGL002', 'DFS', 'New York State Department of Financial Services', ['JUR002'], 'https://www.dfs.ny.gov', {
+        filings: [filing('RGL002-F1', 'Annual Cybersecurity Certification (Part 500)', 'Annual', 4, 'RGL002-P1')],
+    }),
+    createMockRegulator('RGL003', 'FCA', 'Financial Conduct Authority', ['JUR003'], 'https://www.fca.org.uk', {
+        contacts: [
+            { id: 'RGL003-C1', name: 'Payments Supervision', role: 'Supervision', email: 'payments.supervision@fca.org.uk' },
+            { id: 'RGL003-C2', name: 'Case Officer', role: 'Authorisations', email: 'authorisations@fca.org.uk', phone: '+44 20 7066 1000' },
+        ],
+        portals: [{ id: 'RGL003-P1', name: 'RegData', url: 'https://regdata.fca.org.uk', purpose: 'Regulatory returns' }],
+        filings: [
+            filing('RGL003-F1', 'Payment Services Return (FSA056)', 'Semi-Annual', 2, 'RGL003-P1'),
+            filing('RGL003-F2', 'Annual Financial Crime Report (REP-CRIM)', 'Annual', 5, 'RGL003-P1'),
+        ],
+    }),
+    createMockRegulator('RGL004', 'PRA', 'Prudential Regulation Authority', ['JUR003'], 'https://www.bankofengland.co.uk'),
+    createMockRegulator('RGL005', 'CBI', 'Central Bank of Ireland', ['JUR004'], 'https://www.centralbank.ie', {
+        filings: [filing('RGL005-F1', 'Payment Institution Quarterly Return', 'Quarterly', 2, 'RGL005-P1')],
+    }),
+    createMockRegulator('RGL006', 'BACEN', 'Banco Central do Brasil', ['JUR005'], 'https://www.bcb.gov.br', {
+        filings: [filing('RGL006-F1', 'Monthly Foreign Exchange Report', 'Monthly', 1, 'RGL006-P1')],
+    }),
+    createMockRegulator('RGL007', 'CVM', 'Comissão de Valores Mobiliários', ['JUR005'], 'https://www.gov.br/cvm'),
+    createMockRegulator('RGL008', 'ASIC', 'Australian Securities and Investments Commission', ['JUR006'], 'https://asic.gov.au', {
+        filings: [filing('RGL008-F1', 'AFS Licensee Annual Compliance Report', 'Annual', 3, 'RGL008-P1')],
+    }),
+    createMockRegulator('RGL009', 'AUSTRAC', 'Australian Transaction Reports and Analysis Centre', ['JUR006'], 'https://www.austrac.gov.au', {
+        filings: [filing('RGL009-F1', 'AML/CTF Compliance Report', 'Annual', 6, 'RGL009-P1')],
+    }),
+    createMockRegulator('RGL010', 'MAS', 'Monetary Authority of Singapore', ['JUR007'], 'https://www.mas.gov.sg', {
+        filings: [filing('RGL010-F1', 'Payment Services Act Form 1 Return', 'Quarterly', 1, 'RGL010-P1')],
+    }),
+    createMockRegulator('RGL011', 'FinCEN', 'Financial Crimes Enforcement Network', ['JUR008'], 'https://www.fincen.gov', {
+        filings: [filing('RGL011-F1', 'MSB Registration Renewal', 'One-off', 8, 'RGL011-P1')],
+    }),
+    createMockRegulator('RGL012', 'CFPB', 'Consumer Financial Protection Bureau', ['JUR008'], 'https://www.consumerfinance.gov'),
+    createMockRegulator('RGL013', 'OFAC', 'Office of Foreign Assets Control', ['JUR008'], 'https://ofac.treasury.gov'),
+    createMockRegulator('RGL014', 'EBA', 'European Banking Authority', ['JUR009'], 'https://www.eba.europa.eu'),
+    createMockRegulator('RGL015', 'ESMA', 'European Securities and Markets Authority', ['JUR009'], 'https://www.esma.europa.eu'),
+    createMockRegulator('RGL016', 'BaFin', 'Federal Financial Supervisory Authority', ['JUR010'], 'https://www.bafin.de'),
+    createMockRegulator('RGL017', 'Bundesbank', 'Deutsche Bundesbank', ['JUR010'], 'https://www.bundesbank.de'),
+    createMockRegulator('RGL018', 'DNB', 'De Nederlandsche Bank', ['JUR011'], 'https://www.dnb.nl'),
+    createMockRegulator('RGL019', 'AFM', 'Dutch Authority for the Financial Markets', ['JUR011'], 'https://www.afm.nl'),
+    createMockRegulator('RGL020', 'ACPR', 'Autorité de contrôle prudentiel et de résolution', ['JUR012'], 'https://acpr.banque-france.fr'),
+    createMockRegulator('RGL021', 'BdE', 'Banco de España', ['JUR013'], 'https://www.bde.es'),
+];
+
+// Where the mock licenses are issued.
+const mockLicensingJurisdictions = mockJurisdictions.filter(jur => ['JUR001', 'JUR002', 'JUR003', 'JUR004', 'JUR005', 'JUR006', 'JUR007'].includes(jur.id));
+
+export const createMockLicense = (overrides?: Partial<License>): License => {
+    const id = generateId();
+    const issue = addMonths(new Date(), -Math.floor(Math.random() * 24));
+    const expiry = addMonths(issue, Math.floor(Math.random() * 36) + 12); // 1 to 4 years
+    const jurisdiction = mockLicensingJurisdictions[Math.floor(Math.random() * mockLicensingJurisdictions.length)];
+
+    const license: License = {
+        id: `LIC-${id}`,
+        name: `Money Transmitter License ${jurisdiction.name}`,
+        status: 'Active',
+        expiryDate: expiry.toISOString(),
+        issueDate: issue.toISOString(),
+        regulatoryBody: jurisdiction.primaryRegulator,
+        regulatorId: jurisdiction.primaryRegulatorId,
+        licenseNumber: `L${Math.floor(100000 + Math.random() * 900000)}`,
+        scope: "General Money Transmission & Electronic Payments",
+        renewalFrequencyMonths: 12 + Math.floor(Math.random() * 24),
+        documents: [],
+        auditTrail: [],
+        associatedPolicies: [],
+        notes: "Standard license for payment operations.",
+        contactPerson: "John Doe",
+        contactEmail: "john.doe@example.com",
+        renewalCostUSD: 5000 + Math.floor(Math.random() * 15000),
+        lastRenewalDate: addMonths(issue, Math.floor(Math.random() * 12)).toISOString(),
+        nextRenewalReminderDate: addMonths(expiry, -3).toISOString(),
+        jurisdictionId: jurisdiction.id,
+        ...overrides,
+    };
+    // Only Revoked and Suspended survive as given; every other status follows from the dates.
+    return { ...license, status: computeLicenseStatus(license) };
+};
+
+export const createMockPolicy = (overrides?: Partial<CompliancePolicy>): CompliancePolicy => {
+    const id = generateId();
+    const categoryOptions: CompliancePolicy['category'][] = ['AML', 'KYC', 'Sanctions', 'Consumer Protection', 'Data Privacy', 'Operational Risk'];
+    const effective = addMonths(new Date(), -Math.floor(Math.random() * 18));
+    const review = addMonths(effective, 12 + Math.floor(Math.random() * 24));
+    const jurisdictionIds = Array.from({ length: Math.floor(Math.random() * 3) + 1 }, () => mockJurisdictions[Math.floor(Math.random() * mockJurisdictions.length)].id);
+
+    return {
+        id: `POL-${id}`,
+        name: `Anti-Money Laundering Policy v${Math.floor(Math.random() * 3) + 1}.0`,
+        description: "Comprehensive policy outlining procedures to prevent money laundering activities.",
+        category: categoryOptions[Math.floor(Math.random() * categoryOptions.length)],
+        version: `${Math.floor(Math.random() * 3) + 1}.0`,
+        effectiveDate: effective.toISOString(),
+        reviewDate: review.toISOString(),
+        documents: [],
+        applicableJurisdictions: jurisdictionIds,
+        responsibleDepartment: "Compliance",
+        status: "Active",
+        lastUpdatedBy: mockUsers[0].name,
+        lastUpdateDate: new Date().toISOString(),
+        relatedLicenses: [],
+        ...overrides,
+    };
+};
+
+export const createMockRegulatoryUpdate = (overrides?: Partial<RegulatoryUpdate>): RegulatoryUpdate => {
+    const id = generateId();
+    const severityOptions: RegulatoryUpdate['severity'][] = ['High', 'Medium', 'Low'];
+    const statusOptions: RegulatoryUpdate['status'][] = ['New', 'Under Review', 'Impact Assessed', 'Implemented'];
+    const publication = addDays(new Date(), -Math.floor(Math.random() * 90));
+    const jurisdictionIds = Array.from({ length: Math.floor(Math.random() * 2) + 1 }, () => mockJurisdictions[Math.floor(Math.random() * mockJurisdictions.length)].id);
+    const issuer = mockJurisdictions.find(j => j.id === jurisdictionIds[0]);
+
+    return {
+        id: `REG-${id}`,
+        title: `New AML Directive for ${jurisdictionIds.map(jid => mockJurisdictions.find(j => j.id === jid)?.name).join(', ')}`,
+        source: issuer?.primaryRegulator || "EU Parliament",
+        regulatorId: issuer?.primaryRegulatorId,
+        publicationDate: publication.toISOString(),
+        summary: "New directive introduces stricter requirements for customer due diligence and suspicious transaction reporting.",
+        fullTextUrl: "https://example.com/new-directive-full-text",
+        severity: severityOptions[Math.floor(Math.random() * severityOptions.length)],
+        status: statusOptions[Math.floor(Math.random() * statusOptions.length)],
+        relevantJurisdictions: jurisdictionIds,
+        assignedTo: "Compliance Team",
+        impactAssessmentNotes: "",
+        actionItems: [],
+        lastUpdated: new Date().toISOString(),
+        ...overrides,
+    };
+};
+
+const passport = (
+    hostJurisdictionId: string, mode: PassportNotification['mode'], status: PassportNotification['status'], monthsSinceNotified: number | null, conditions = ''
+): PassportNotification => ({
+    id: `PPN-${generateId()}`,
+    hostJurisdictionId,
+    mode,
+    status,
+    notificationDate: monthsSinceNotified === null ? undefined : addMonths(new Date(), -monthsSinceNotified).toISOString(),
+    effectiveDate: status === 'Active' && monthsSinceNotified !== null ? addMonths(new Date(), 1 - monthsSinceNotified).toISOString() : undefined,
+    conditions,
+    updatedBy: mockUsers[1].name,
+    updatedDate: new Date().toISOString(),
+});
+
+// The first active Irish license is passported across the EEA: live in Germany and the Netherlands,
+// notified to France and planned for Spain.
+const mockPassports = (): PassportNotification[] => [
+    passport('JUR010', 'Freedom of Services', 'Active', 14),
+    passport('JUR011', 'Agent', 'Active', 9, 'Agents must be registered with DNB and appear in the public register before onboarding customers.'),
+    passport('JUR012', 'Branch', 'Notified', 1, 'ACPR requires a local AML/CFT correspondent and quarterly reporting in French.'),
+    passport('JUR013', 'Freedom of Services', 'Planned', null),
+];
+
+// Initial mock data - significantly increased quantity
+const generatedLicenses: License[] = Array.from({ length: 50 }, (_, i) => createMockLicense({
+    name: `License ${i + 1} - ${mockLicensingJurisdictions[i % mockLicensingJurisdictions.length].name}`,
+    ...(i % 13 === 0 ? { status: 'Revoked' as const } : i % 17 === 0 ? { status: 'Suspended' as const } : {}),
+})).map((license, i) => i % 5 === 0 ? {
+    ...license,
+    documents: [{
+        id: `DOC-${generateId()}`, name: `Supervisory letter - ${license.licenseNumber}`, url: '', type: 'Correspondence' as const,
+        uploadedBy: mockUsers[1].name, uploadDate: addDays(new Date(), -7 * (i + 1)).toISOString(), version: '1.0', regulatorId: license.regulatorId,
+    }],
+} : license).map((license, i, all) => i === all.findIndex(lic => lic.jurisdictionId === 'JUR004' && lic.status === 'Active') ? { ...license, passports: mockPassports() } : license);
+// Policy 11 is under review with the author's approval in; policy 21 was sent back by the department head.
+const approvalRound = (outcome: PolicyApprovalRound['outcome'], daysAgo: number, decisions: PolicyApprovalRound['decisions']): PolicyApprovalRound => ({
+    id: `APR-${generateId()}`, steps: DEFAULT_APPROVAL_CHAIN, decisions, submittedBy: mockUsers[2].name, submittedDate: addDays(new Date(), -daysAgo).toISOString(), outcome,
+});
+const mockApprovals = (i: number): PolicyApprovalRound[] | undefined => {
+    const authorApproval = (daysAgo: number) => ({ stepId: DEFAULT_APPROVAL_CHAIN[0].id, decision: 'Approved' as const, decidedBy: mockUsers[2].name, decidedDate: addDays(new Date(), -daysAgo).toISOString(), comments: '' });
+    if (i === 10) return [approvalRound('Pending', 2, [authorApproval(2)])];
+    if (i === 20) {
+        return [approvalRound('Rejected', 9, [authorApproval(9), {
+            stepId: DEFAULT_APPROVAL_CHAIN[1].id, decision: 'Rejected', decidedBy: mockUsers[1].name, decidedDate: addDays(new Date(), -6).toISOString(),
+            comments: 'Section 4 still refers to the old sanctions screening provider. Please update before resubmitting.',
+        }])];
+    }
+    return undefined;
+};
+const generatedPolicies: CompliancePolicy[] = Array.from({ length: 30 }, (_, i) => createMockPolicy({
+    name: `Policy ${i + 1} - ${['AML', 'KYC', 'Data Privacy'][i % 3]}`,
+    status: i === 10 ? 'Under Review' : i % 10 === 0 ? 'Draft' : 'Active',
+    approvals: mockApprovals(i),
+}));
+
+// Each license links up to two active AML/KYC policies for its jurisdiction; policies list the same links back.
+const linkedPolicyIds = (license: License) => generatedPolicies
+    .filter(pol => pol.status === 'Active' && (pol.category === 'AML' || pol.category === 'KYC') && pol.applicableJurisdictions.includes(license.jurisdictionId))
+    .slice(0, 2)
+    .map(pol => pol.id);
+export const mockLicenses: License[] = generatedLicenses.map(license => ({ ...license, associatedPolicies: linkedPolicyIds(license) }));
+export const mockCompliancePolicies: CompliancePolicy[] = generatedPolicies.map(policy => ({
+    ...policy,
+    relatedLicenses: mockLicenses.filter(lic => lic.associatedPolicies.includes(policy.id)).map(lic => lic.id),
+}));
+// Every policy starts with its current state as a revision; every third active one also has the
+// version it replaced, so there is something to compare and look up by date.
+const revision = (policy: CompliancePolicy, revisionNumber: number, savedDate: string, changes: Partial<CompliancePolicy> = {}): PolicyRevision => {
+    const { name, description, category, version, effectiveDate, reviewDate, documents, applicableJurisdictions, responsibleDepartment, status } = { ...policy, ...changes };
+    return {
+        id: `REV-${generateId()}`, policyId: policy.id, revisionNumber, savedBy: policy.lastUpdatedBy, savedDate,
+        snapshot: { name, description, category, version, effectiveDate, reviewDate, documents, applicableJurisdictions, responsibleDepartment, status },
+    };
+};
+export const mockPolicyRevisions: PolicyRevision[] = mockCompliancePolicies.flatMap((policy, i) => {
+    if (i % 3 !== 1 || policy.status !== 'Active') return [revision(policy, 1, policy.effectiveDate)];
+    const replacedOn = parseISO(policy.effectiveDate);
+    return [
+        revision(policy, 1, addMonths(replacedOn, -13).toISOString(), {
+            version: `${Number.parseFloat(policy.version) - 0.5}`,
+            effectiveDate: addMonths(replacedOn, -12).toISOString(),
+            reviewDate: replacedOn.toISOString(),
+            description: "Policy outlining procedures to prevent money laundering activities.\nCustomer due diligence is refreshed every three years.",
+        }),
+        revision(policy, 2, addDays(replacedOn, -14).toISOString()),
+    ];
+});
+// One campaign under way for everyone and one closed last year, with a late acknowledgement.
+const attestation = (policy: CompliancePolicy, departments: string[], launchedDaysAgo: number, dueInDays: number, acknowledgedDaysAgo: Record<string, number>): AttestationCampaign => ({
+    id: `ATT-${generateId()}`, name: `${policy.name} v${policy.version} attestation`, policyId: policy.id, policyName: policy.name, policyVersion: policy.version,
+    responsibleDepartment: policy.responsibleDepartment, audience: { departments, roles: [], userIds: [] },
+    assignments: mockUsers.filter(user => departments.includes(user.department)).map(user => ({
+        userId: user.id, userName: user.name, department: user.department, remindersSent: [],
+        ...(user.id in acknowledgedDaysAgo ? { acknowledgedDate: addDays(new Date(), -acknowledgedDaysAgo[user.id]).toISOString() } : {}),
+    })),
+    launchedBy: mockUsers[1].name, launchedDate: addDays(new Date(), -launchedDaysAgo).toISOString(), dueDate: addDays(new Date(), dueInDays).toISOString(),
+    status: dueInDays < 0 ? 'Closed' : 'Open',
+    ...(dueInDays < 0 ? { closedDate: addDays(new Date(), dueInDays + 14).toISOString() } : {}),
+});
+const attestedPolicies = mockCompliancePolicies.filter(policy => policy.status === 'Active');
+export const mockAttestationCampaigns: AttestationCampaign[] = [
+    attestation(attestedPolicies[0], ['Operations', 'Compliance', 'Product'], 20, 10, { USR002: 19, USR003: 4 }),
+    attestation(attestedPolicies[1], ['Compliance'], 400, -370, { USR002: 395, USR003: 362 }),
+];
+export const mockRegulatoryUpdates: RegulatoryUpdate[] = Array.from({ length: 40 }, (_, i) => createMockRegulatoryUpdate({
+    title: `Reg Update ${i + 1}: ${['New Reporting', 'Customer Due Diligence', 'Sanctions Update'][i % 3]}`,
+    severity: (['High', 'Medium', 'Low'][i % 3]) as RegulatoryUpdate['severity'],
+}));
+// Fixture feeds served by the stand-in server (`npm run api`), one per supported format.
+const FIXTURE_FEEDS_URL = 'http://localhost:4000/feeds';
+export const mockRegulatoryFeeds: RegulatoryFeed[] = [
+    { id: 'FEED001', name: 'FCA news (RSS)', url: `${FIXTURE_FEEDS_URL}/fca-news.xml`, format: 'RSS', source: 'FCA', regulatorId: 'RGL003', jurisdictionIds: [], defaultSeverity: 'Medium', assignedTo: 'Compliance Team', enabled: true },
+    { id: 'FEED002', name: 'ESMA news (Atom)', url: `${FIXTURE_FEEDS_URL}/esma-news.atom`, format: 'Atom', source: 'ESMA', regulatorId: 'RGL015', jurisdictionIds: [], defaultSeverity: 'Medium', assignedTo: 'Compliance Team', enabled: true },
+    { id: 'FEED003', name: 'FinCEN advisories (JSON Feed)', url: `${FIXTURE_FEEDS_URL}/fincen-advisories.json`, format: 'JSON', source: 'FinCEN', regulatorId: 'RGL011', jurisdictionIds: [], defaultSeverity: 'High', assignedTo: 'Compliance Team', enabled: true },
+];
+export const mockComplianceCheckHistory: ComplianceCheckResult[] = [];
+export const mockRiskAssessments: RiskAssessment[] = [];
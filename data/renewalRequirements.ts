@@ -0,0 +1,47 @@
+import { RenewalChecklistItem, RenewalStageName } from '../types';
+
+// --- Renewal Requirements ---
+// What a renewal typically needs, used to generate each renewal's checklist. Items listed under a
+// country code are added on top of the common ones for licenses in that country. "{regulator}" is
+// replaced with the license's regulatory body.
+
+export type RenewalRequirement = Pick<RenewalChecklistItem, 'kind' | 'description' | 'stage' | 'required'>;
+
+export const RENEWAL_STAGES: { name: RenewalStageName; daysBeforeDeadline: number }[] = [
+    { name: 'Preparation', daysBeforeDeadline: 90 },
+    { name: 'Document Collection', daysBeforeDeadline: 60 },
+    { name: 'Filing', daysBeforeDeadline: 30 },
+    { name: 'Regulator Review', daysBeforeDeadline: 0 },
+];
+
+export const commonRenewalRequirements: RenewalRequirement[] = [
+    { kind: 'Document', description: 'Completed renewal application form', stage: 'Document Collection', required: true },
+    { kind: 'Document', description: 'Latest audited financial statements', stage: 'Document Collection', required: true },
+    { kind: 'Document', description: 'Current AML/KYC policy and most recent independent review', stage: 'Document Collection', required: true },
+    { kind: 'Document', description: 'Updated organisation chart and key personnel list', stage: 'Document Collection', required: false },
+    { kind: 'Filing', description: 'Submit renewal application to {regulator}', stage: 'Filing', required: true },
+    { kind: 'Filing', description: 'Pay renewal fee', stage: 'Filing', required: true },
+];
+
+export const renewalRequirementsByCountry: Record<string, RenewalRequirement[]> = {
+    US: [
+        { kind: 'Document', description: 'Surety bond continuation certificate', stage: 'Document Collection', required: true },
+        { kind: 'Filing', description: 'NMLS renewal attestation', stage: 'Filing', required: true },
+    ],
+    GB: [
+        { kind: 'Document', description: 'Safeguarding audit report', stage: 'Document Collection', required: true },
+        { kind: 'Filing', description: 'Annual controllers and close links report', stage: 'Filing', required: true },
+    ],
+    IE: [
+        { kind: 'Document', description: 'Safeguarding audit report', stage: 'Document Collection', required: true },
+    ],
+    BR: [
+        { kind: 'Filing', description: 'Capital adequacy report to the central bank', stage: 'Filing', required: true },
+    ],
+    AU: [
+        { kind: 'Filing', description: 'Annual compliance certificate', stage: 'Filing', required: true },
+    ],
+    SG: [
+        { kind: 'Document', description: 'Technology risk management attestation', stage: 'Document Collection', required: true },
+    ],
+};
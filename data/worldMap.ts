@@ -0,0 +1,140 @@
+// --- Offline World Map ---
+// Simplified GeoJSON outlines, bundled so the coverage map works without a tile server or network.
+// Coordinates are [longitude, latitude]. Feature IDs are ISO 3166 codes: alpha-2 for countries
+// (matched against Jurisdiction.countryCode) and 3166-2 for states (matched against
+// Jurisdiction.subdivisionCode). Subdivisions are drawn on top of their country. To cover more
+// of the world, add features here; higher-resolution outlines (e.g. Natural Earth) drop in as is.
+
+export type Position = [number, number];
+
+export interface MapFeature {
+    type: 'Feature';
+    id: string;
+    properties: { name: string };
+    geometry:
+        | { type: 'Polygon'; coordinates: Position[][] }
+        | { type: 'MultiPolygon'; coordinates: Position[][][] };
+}
+
+export interface MapFeatureCollection {
+    type: 'FeatureCollection';
+    features: MapFeature[];
+}
+
+const polygon = (id: string, name: string, ring: Position[]): MapFeature => ({
+    type: 'Feature', id, properties: { name }, geometry: { type: 'Polygon', coordinates: [ring] },
+});
+
+const multiPolygon = (id: string, name: string, rings: Position[][]): MapFeature => ({
+    type: 'Feature', id, properties: { name }, geometry: { type: 'MultiPolygon', coordinates: rings.map(ring => [ring]) },
+});
+
+export const worldMap: MapFeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+        // --- North America ---
+        polygon('CA', 'Canada', [
+            [-141, 60.3], [-141, 69.6], [-128, 70.2], [-115, 68.9], [-95, 71.5], [-85, 69.8], [-80, 63], [-93, 58.8], [-82.2, 52.9],
+            [-79, 51.5], [-78.5, 58.8], [-70, 59], [-64.5, 60.3], [-61, 56], [-56, 52], [-60, 50], [-64.5, 48.5], [-64, 46],
+            [-67, 44.8], [-67.8, 47.1], [-69.2, 47.4], [-71.5, 45], [-75, 45], [-76.3, 44.2], [-79, 43.3], [-82.5, 41.7],
+            [-82.4, 45.3], [-84.8, 46.5], [-89.6, 48], [-95.2, 49], [-123, 49], [-124.7, 48.4], [-127.9, 50.8], [-130.5, 54.5],
+            [-137.5, 59], [-141, 60.3],
+        ]),
+        multiPolygon('US', 'United States', [
+            [
+                [-124.7, 48.4], [-123, 49], [-95.2, 49], [-89.6, 48], [-84.8, 46.5], [-82.4, 45.3], [-82.5, 41.7], [-79, 43.3],
+                [-76.3, 44.2], [-75, 45], [-71.5, 45], [-69.2, 47.4], [-67.8, 47.1], [-67, 44.8], [-70.2, 43.7], [-70.6, 41.7],
+                [-74, 40.6], [-75.5, 38.5], [-76, 37], [-75.5, 35.2], [-78, 33.8], [-81, 31.5], [-80.1, 27], [-80.4, 25.2],
+                [-81.8, 26.1], [-82.8, 28], [-84, 30], [-86, 30.4], [-89.5, 30.2], [-89.6, 29.2], [-91.5, 29.5], [-94, 29.7],
+                [-97.2, 27.8], [-97.2, 25.9], [-99.1, 26.4], [-101.4, 29.8], [-103, 29], [-104.5, 29.6], [-106.5, 31.8],
+                [-108.2, 31.3], [-111.1, 31.3], [-114.8, 32.5], [-117.1, 32.5], [-118.5, 34], [-120.6, 34.6], [-122.4, 37.2],
+                [-123.7, 38.9], [-124.2, 41.9], [-124, 46.2], [-124.7, 48.4],
+            ],
+            [
+                [-141, 60.3], [-141, 69.6], [-156.8, 71.3], [-166.2, 68.8], [-163.7, 66.1], [-168, 65.6], [-164.5, 63.2],
+                [-166.1, 61.5], [-165, 60.5], [-162, 58.6], [-157, 58.8], [-163.8, 55], [-158, 56.8], [-153, 57.5],
+                [-151.8, 59.2], [-148, 60], [-146, 60.8], [-141, 60.3],
+            ],
+        ]),
+        polygon('US-CA', 'California', [
+            [-124.2, 42], [-120, 42], [-120, 39], [-114.6, 35], [-114.6, 32.7], [-117.1, 32.5], [-118.5, 34], [-120.6, 34.6],
+            [-122.4, 37.2], [-123.7, 38.9], [-124.2, 42],
+        ]),
+        polygon('US-NY', 'New York', [
+            [-79.76, 42], [-79.76, 42.5], [-79, 43.3], [-76.3, 44.2], [-75, 45], [-73.35, 45], [-73.3, 42.7], [-73.5, 41.2],
+            [-72, 41.1], [-74, 40.6], [-74.7, 41.4], [-75.3, 42], [-79.76, 42],
+        ]),
+        multiPolygon('MX', 'Mexico', [
+            [
+                [-114.8, 32.5], [-111.1, 31.3], [-108.2, 31.3], [-106.5, 31.8], [-104.5, 29.6], [-103, 29], [-101.4, 29.8],
+                [-99.1, 26.4], [-97.2, 25.9], [-97.8, 22], [-96, 19], [-94.5, 18.2], [-91, 18.7], [-90.5, 21], [-87, 21.5],
+                [-87.5, 18], [-89.2, 17.8], [-91.4, 16], [-92.2, 14.5], [-94.5, 16.2], [-98, 16.1], [-101.5, 17.5], [-105.5, 20.5],
+                [-108.5, 25.5], [-112.2, 29.3], [-114.7, 31.7], [-114.8, 32.5],
+            ],
+            [[-117.1, 32.5], [-114.8, 32.5], [-114.7, 31.7], [-113, 29.5], [-110, 24], [-109.5, 23.1], [-112, 24.8], [-114.2, 27.8], [-115.8, 30.4], [-117.1, 32.5]],
+        ]),
+
+        // --- South America ---
+        polygon('BR', 'Brazil', [
+            [-60, 5.2], [-51.6, 4.2], [-50, 1.8], [-48.5, -1.2], [-44.5, -2.5], [-39.9, -2.9], [-35.2, -5.3], [-34.8, -7.5],
+            [-37, -11], [-39.1, -17.8], [-41, -22], [-44.7, -23.3], [-48.6, -26.2], [-48.6, -28.5], [-53.4, -33.7], [-57.6, -30.2],
+            [-53.8, -27.1], [-54.6, -25.6], [-58.1, -20.2], [-57.6, -18.2], [-60.1, -16.3], [-65.3, -10.9], [-69.6, -11],
+            [-73, -9.4], [-73.9, -7.3], [-69.9, -4.2], [-69.4, -1.1], [-70, 0.5], [-67, 2], [-64, 4], [-60, 5.2],
+        ]),
+        polygon('AR', 'Argentina', [
+            [-68.6, -22], [-62.8, -22], [-57.8, -25.5], [-53.7, -26.9], [-57.6, -30.2], [-58.4, -33.9], [-57.5, -38.2],
+            [-62.3, -38.8], [-65, -42], [-67.6, -46.5], [-69, -51.6], [-68.3, -54.9], [-72.3, -51.5], [-71.9, -46], [-71.4, -40],
+            [-70.5, -34], [-69.8, -30], [-68.6, -22],
+        ]),
+
+        // --- Europe ---
+        multiPolygon('GB', 'United Kingdom', [
+            [
+                [-5.7, 50], [-3.5, 50.3], [1.4, 51.1], [1.7, 52.7], [0.3, 53.4], [-0.1, 54.5], [-1.6, 55.6], [-2.1, 57.7], [-3, 58.6],
+                [-5, 58.6], [-6.2, 57.5], [-5.6, 56.2], [-4.9, 55], [-3.1, 54.9], [-3.4, 54.2], [-3, 53.3], [-4.6, 53.3], [-4.2, 52.3],
+                [-5.3, 51.7], [-3.2, 51.4], [-5.7, 50],
+            ],
+            [[-6, 55.2], [-7.3, 55.2], [-8.1, 54.5], [-7.4, 54.1], [-6.2, 54], [-5.5, 54.4], [-6, 55.2]],
+        ]),
+        polygon('IE', 'Ireland', [
+            [-6, 52.2], [-6.2, 53.9], [-7.4, 54.1], [-8.1, 54.5], [-7.3, 55.2], [-8.5, 55.1], [-10, 54.2], [-9.6, 53.2], [-10.2, 51.8],
+            [-8.5, 51.6], [-6.4, 52.2], [-6, 52.2],
+        ]),
+        polygon('FR', 'France', [
+            [2.5, 51.1], [4.2, 49.9], [5.8, 49.5], [6.4, 49.5], [8.2, 49], [7.6, 47.6], [6, 46.2], [7, 45.9], [7.5, 43.8], [3.1, 43.1],
+            [3, 42.5], [-1.8, 43.4], [-1.2, 46.2], [-2.5, 47.3], [-4.8, 48.4], [-1.6, 48.7], [-1.4, 49.7], [0.2, 49.5], [1.6, 50.2], [2.5, 51.1],
+        ]),
+        polygon('BE', 'Belgium', [[2.5, 51.1], [3.4, 51.4], [4.3, 51.4], [5.9, 50.8], [6.2, 50.8], [6.4, 49.5], [5.8, 49.5], [4.2, 49.9], [2.5, 51.1]]),
+        polygon('NL', 'Netherlands', [[3.4, 51.4], [4.3, 51.4], [5.9, 50.8], [6, 51.8], [6.8, 52.2], [7.2, 53.2], [6.9, 53.5], [4.8, 53], [4.6, 52.5], [3.4, 51.4]]),
+        polygon('DE', 'Germany', [
+            [7.2, 53.2], [8.5, 53.6], [8.9, 54.9], [11, 54], [13.8, 54.1], [14.4, 53.3], [14.7, 52.1], [15, 51.1], [12.1, 50.3], [13.8, 48.8],
+            [13, 47.5], [10.2, 47.3], [7.6, 47.6], [8.2, 49], [6.4, 49.5], [6.2, 50.8], [6, 51.8], [6.8, 52.2], [7.2, 53.2],
+        ]),
+        polygon('PL', 'Poland', [[14.2, 53.9], [14.4, 53.3], [14.7, 52.1], [15, 51.1], [18.8, 49.5], [22.6, 49.1], [24, 50.5], [23.5, 52.4], [23.5, 54], [19.6, 54.4], [18.4, 54.8], [14.2, 53.9]]),
+        polygon('ES', 'Spain', [
+            [-1.8, 43.4], [3, 42.5], [3.3, 41.9], [0.7, 40.7], [-0.3, 39.4], [0.2, 38.7], [-2.1, 36.7], [-5.4, 36], [-7.4, 37.2],
+            [-7, 39.6], [-6.9, 41.9], [-8.9, 42], [-9.3, 43], [-7.7, 43.8], [-1.8, 43.4],
+        ]),
+        polygon('PT', 'Portugal', [[-7.4, 37.2], [-8.9, 37], [-8.8, 38.7], [-9.5, 38.8], [-8.7, 41], [-8.9, 42], [-6.9, 41.9], [-7, 39.6], [-7.4, 37.2]]),
+        multiPolygon('IT', 'Italy', [
+            [
+                [7.5, 43.8], [7, 45.9], [10.5, 46.8], [13.7, 46.5], [13.7, 45.6], [12.3, 45.2], [12.4, 44.2], [13.6, 43.5], [16, 41.9],
+                [18.5, 40.1], [16.5, 39], [15.7, 38], [15.8, 40], [14, 41], [12, 42.3], [10.5, 43], [8.8, 44.4], [7.5, 43.8],
+            ],
+            [[12.4, 37.9], [15.6, 38.3], [15.1, 36.7], [12.4, 37.9]],
+        ]),
+
+        // --- Asia-Pacific ---
+        multiPolygon('AU', 'Australia', [
+            [
+                [113.5, -22], [114.2, -26.3], [115, -34.3], [118, -35], [123.5, -33.9], [129, -31.7], [131.2, -31.5], [134.3, -32.6],
+                [137.7, -35.6], [138.5, -34.8], [140, -37.9], [143.5, -38.8], [146.3, -39.1], [150, -37.5], [151.3, -33.9], [153.6, -28.2],
+                [153.1, -25], [150.8, -22.6], [146.3, -19], [145.3, -15], [143.5, -12.8], [142.5, -10.7], [141.6, -13], [141.5, -17],
+                [139.3, -17.4], [136, -15.9], [137, -12.3], [136.5, -11.9], [132.5, -11.5], [130, -13], [129.4, -15], [126.2, -13.9],
+                [122.2, -17.2], [121, -19.5], [117, -20.6], [113.5, -22],
+            ],
+            [[144.7, -40.7], [148.3, -40.9], [148, -43.2], [145.9, -43.6], [144.7, -40.7]],
+        ]),
+        polygon('SG', 'Singapore', [[103.6, 1.45], [104, 1.45], [104.05, 1.28], [103.6, 1.2], [103.6, 1.45]]),
+    ],
+};
@@ -0,0 +1,137 @@
+// Minimal REST stand-in for the hub's REST persistence backend.
+// Run with `npm run api`, then start the app with PERSISTENCE_BACKEND=rest.
+// Data lives in memory and is lost when the process exits.
+// It also stands in for the mail server: reminder emails POSTed to /mail are printed and kept in an
+// in-memory mailbox (GET /mail) instead of being delivered.
+// And it serves the fixture regulator feeds in server/fixtures/feeds at /feeds/<file>, so feed
+// ingestion can be tried without reaching real regulators.
+// Finally it hosts calendar subscription feeds: the app PUTs the compliance calendar to
+// /calendar/<name>.ics and calendar apps subscribe to the same URL.
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+
+const PORT = Number(process.env.PORT || 4000);
+const BASE_PATH = '/api';
+const COLLECTIONS = ['licenses', 'policies', 'regulatory-updates', 'compliance-checks', 'risk-assessments', 'jurisdictions', 'regulators', 'attestation-campaigns', 'archived-licenses', 'audit-log', 'policy-revisions', 'approval-chains', 'regulatory-feeds', 'reminder-preferences', 'notifications'];
+const MAIL_PATH = '/mail';
+const FEEDS_PATH = '/feeds/';
+const FEEDS_DIR = new URL('./fixtures/feeds/', import.meta.url);
+const FEED_TYPES = { '.xml': 'application/rss+xml', '.atom': 'application/atom+xml', '.json': 'application/feed+json' };
+const CALENDAR_PATH = '/calendar/';
+
+const store = Object.fromEntries(COLLECTIONS.map(name => [name, new Map()]));
+const mailbox = [];
+const calendars = new Map();
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readText = (req) => new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+});
+
+const readBody = async (req) => {
+    const data = await readText(req);
+    return data ? JSON.parse(data) : {};
+};
+
+const handleMail = async (req, res) => {
+    if (req.method === 'GET') return send(res, 200, mailbox);
+    if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+    try {
+        const message = await readBody(req);
+        if (!message.to || !message.subject) return send(res, 400, { error: 'Missing to or subject' });
+        const accepted = { ...message, receivedAt: new Date().toISOString() };
+        mailbox.push(accepted);
+        console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text || ''}\n`);
+        return send(res, 202, accepted);
+    } catch (err) {
+        return send(res, 400, { error: `Invalid request: ${err.message}` });
+    }
+};
+
+const handleFeed = async (req, res, name) => {
+    if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+    const type = FEED_TYPES[name.slice(name.lastIndexOf('.'))];
+    if (!/^[\w.-]+$/.test(name) || !type) return send(res, 404, { error: 'Not found' });
+    try {
+        const body = await readFile(new URL(name, FEEDS_DIR), 'utf8');
+        res.writeHead(200, { 'Content-Type': `${type}; charset=utf-8`, 'Access-Control-Allow-Origin': '*' });
+        return res.end(body);
+    } catch {
+        return send(res, 404, { error: 'Not found' });
+    }
+};
+
+const handleCalendar = async (req, res, name) => {
+    if (!/^[\w.-]+\.ics$/.test(name)) return send(res, 404, { error: 'Not found' });
+    if (req.method === 'PUT') {
+        const body = await readText(req);
+        if (!body.startsWith('BEGIN:VCALENDAR')) return send(res, 400, { error: 'Expected an iCalendar body' });
+        calendars.set(name, body);
+        return send(res, 204);
+    }
+    if (req.method !== 'GET') return send(res, 405, { error: 'Method not allowed' });
+    if (!calendars.has(name)) return send(res, 404, { error: 'Not published yet; open the app to publish it' });
+    res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Access-Control-Allow-Origin': '*' });
+    return res.end(calendars.get(name));
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    if (url.pathname === MAIL_PATH) return handleMail(req, res);
+    if (url.pathname.startsWith(FEEDS_PATH)) return handleFeed(req, res, decodeURIComponent(url.pathname.slice(FEEDS_PATH.length)));
+    if (url.pathname.startsWith(CALENDAR_PATH)) return handleCalendar(req, res, decodeURIComponent(url.pathname.slice(CALENDAR_PATH.length)));
+    if (!url.pathname.startsWith(BASE_PATH)) return send(res, 404, { error: 'Not found' });
+
+    const [collection, rawId] = url.pathname.slice(BASE_PATH.length).split('/').filter(Boolean);
+    const items = store[collection];
+    if (!items) return send(res, 404, { error: `Unknown collection "${collection}"` });
+    const id = rawId ? decodeURIComponent(rawId) : undefined;
+
+    try {
+        if (req.method === 'GET' && !id) return send(res, 200, [...items.values()]);
+        if (req.method === 'GET' && id) {
+            return items.has(id) ? send(res, 200, items.get(id)) : send(res, 404, { error: 'Not found' });
+        }
+        if (req.method === 'POST' && !id) {
+            const item = await readBody(req);
+            if (!item.id) return send(res, 400, { error: 'Missing id' });
+            if (items.has(item.id)) return send(res, 409, { error: 'Already exists' });
+            items.set(item.id, item);
+            return send(res, 201, item);
+        }
+        if (req.method === 'PUT' && id) {
+            if (!items.has(id)) return send(res, 404, { error: 'Not found' });
+            const item = { ...(await readBody(req)), id };
+            items.set(id, item);
+            return send(res, 200, item);
+        }
+        if (req.method === 'DELETE' && id) {
+            items.delete(id);
+            return send(res, 204);
+        }
+        return send(res, 405, { error: 'Method not allowed' });
+    } catch (err) {
+        return send(res, 400, { error: `Invalid request: ${err.message}` });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Compliance Hub stand-in API listening on http://localhost:${PORT}${BASE_PATH}`);
+    console.log(`Mail stand-in accepting messages on http://localhost:${PORT}${MAIL_PATH}`);
+    console.log(`Fixture regulator feeds served from http://localhost:${PORT}${FEEDS_PATH}`);
+    console.log(`Calendar subscription feeds served from http://localhost:${PORT}${CALENDAR_PATH}`);
+});
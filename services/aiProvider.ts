@@ -0,0 +1,55 @@
+import { GoogleGenAI } from '@google/genai';
+import { ComplianceAssessment } from '../types';
+import {
+    buildCompliancePrompt, complianceAssessmentSchema, parseComplianceAssessment, PortfolioContext
+} from './complianceCheckService';
+import { createLocalAIProvider } from './localAIProvider';
+
+// --- AI Provider Abstraction ---
+// Anything that can turn a feature description plus our portfolio into a validated assessment.
+export interface ComplianceAIProvider {
+    name: string;
+    assessFeature: (featureDesc: string, portfolio: PortfolioContext) => Promise<ComplianceAssessment>;
+}
+
+export type AIProviderKind = 'gemini' | 'local';
+
+export interface AIProviderConfig {
+    provider: AIProviderKind;
+    apiKey: string; // Only used by the Gemini provider
+    model: string;
+}
+
+const apiKey = process.env.API_KEY || '';
+
+// Without AI_PROVIDER, Gemini is used only when there is a key to call it with; otherwise the
+// compliance check runs on the local rules instead of failing on every request.
+const defaultProvider = (): AIProviderKind => {
+    if (process.env.AI_PROVIDER === 'local' || process.env.AI_PROVIDER === 'gemini') return process.env.AI_PROVIDER;
+    return apiKey ? 'gemini' : 'local';
+};
+
+export const aiProviderConfig: AIProviderConfig = {
+    provider: defaultProvider(),
+    apiKey,
+    model: 'gemini-3-flash-preview',
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): ComplianceAIProvider => ({
+    name: `Gemini (${model})`,
+    assessFeature: async (featureDesc, portfolio) => {
+        // Created per call so a missing key only fails when a check is actually run.
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model,
+            contents: buildCompliancePrompt(featureDesc, portfolio),
+            config: { responseMimeType: 'application/json', responseSchema: complianceAssessmentSchema },
+        });
+        return parseComplianceAssessment(response.text || '', portfolio);
+    },
+});
+
+export const createAIProvider = (config: AIProviderConfig): ComplianceAIProvider =>
+    config.provider === 'local' ? createLocalAIProvider() : createGeminiProvider(config.apiKey, config.model);
+
+export const complianceAIProvider = createAIProvider(aiProviderConfig);
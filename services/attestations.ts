@@ -0,0 +1,184 @@
+import { AttestationAssignment, AttestationAudience, AttestationCampaign, CompliancePolicy, PolicyRevision, User } from '../types';
+import { format, parseISO } from '../utils/dateUtils';
+import { toCsv } from '../utils/exportUtils';
+import { generateId } from '../utils/idUtils';
+import { policyInForceOn } from './policyRevisions';
+
+// --- Policy Attestation ---
+// A campaign asks a group of people to confirm they have read one version of a policy. The people
+// are resolved when it is launched and each gets an assignment that records when they acknowledged
+// and when they were reminded. Like the approval workflow, each step returns the updated campaign
+// with the audit entry to save it with.
+
+export interface AttestationChange {
+    campaign: AttestationCampaign;
+    auditAction: string;
+    auditDetails: string;
+}
+
+export type AssignmentStatus = 'Acknowledged' | 'Acknowledged Late' | 'Outstanding' | 'Overdue';
+
+export const emptyAudience = (): AttestationAudience => ({ departments: [], roles: [], userIds: [] });
+
+export const resolveAudience = (users: User[], audience: AttestationAudience): User[] =>
+    users.filter(user => audience.departments.includes(user.department) || audience.roles.includes(user.role) || audience.userIds.includes(user.id));
+
+export const describeAudience = (audience: AttestationAudience, users: User[]): string => [
+    ...audience.departments.map(dept => `${dept} department`),
+    ...audience.roles.map(role => `${role}s`),
+    ...audience.userIds.map(id => users.find(user => user.id === id)?.name || id),
+].join(', ') || 'nobody';
+
+const formatDate = (iso: string) => format(parseISO(iso), 'MMM d, yyyy');
+
+// --- Campaign Lifecycle ---
+
+// Only a version in force can be attested to. A policy being revised is attested to as the version
+// still in force; the draft waits until it is approved.
+export const launchCampaign = (
+    record: CompliancePolicy, revisions: PolicyRevision[], name: string, audience: AttestationAudience, dueDate: string, users: User[], actor: User, now: Date = new Date()
+): AttestationChange => {
+    const policy = policyInForceOn(record, revisions, now);
+    if (!policy) throw new Error(`Only policies in force can be attested to; no version of "${record.name}" is in force.`);
+    if (!dueDate || parseISO(dueDate) <= now) throw new Error('The due date must be in the future.');
+    const people = resolveAudience(users, audience);
+    if (people.length === 0) throw new Error('Nobody matches the chosen departments, roles and people.');
+
+    const campaign: AttestationCampaign = {
+        id: `ATT-${generateId()}`,
+        name: name.trim() || `${policy.name} v${policy.version} attestation`,
+        policyId: policy.id,
+        policyName: policy.name,
+        policyVersion: policy.version,
+        responsibleDepartment: policy.responsibleDepartment,
+        audience,
+        assignments: people.map(user => ({ userId: user.id, userName: user.name, department: user.department, remindersSent: [] })),
+        launchedBy: actor.name,
+        launchedDate: now.toISOString(),
+        dueDate,
+        status: 'Open',
+    };
+    return {
+        campaign,
+        auditAction: 'Attestation Launched',
+        auditDetails: `${actor.name} asked ${people.length} people (${describeAudience(audience, users)}) to acknowledge "${policy.name}" version ${policy.version} by ${formatDate(dueDate)}.`,
+    };
+};
+
+// People acknowledge for themselves only.
+export const acknowledgeAttestation = (campaign: AttestationCampaign, user: User, now: Date = new Date()): AttestationChange => {
+    if (campaign.status !== 'Open') throw new Error(`"${campaign.name}" is closed.`);
+    const assignment = campaign.assignments.find(entry => entry.userId === user.id);
+    if (!assignment) throw new Error(`You are not asked to acknowledge "${campaign.policyName}" in this campaign.`);
+    if (assignment.acknowledgedDate) throw new Error(`You already acknowledged this on ${formatDate(assignment.acknowledgedDate)}.`);
+
+    const late = now > parseISO(campaign.dueDate);
+    return {
+        campaign: {
+            ...campaign,
+            assignments: campaign.assignments.map(entry => entry === assignment ? { ...entry, acknowledgedDate: now.toISOString() } : entry),
+        },
+        auditAction: 'Attestation Acknowledged',
+        auditDetails: `${user.name} acknowledged "${campaign.policyName}" version ${campaign.policyVersion}${late ? ` after the ${formatDate(campaign.dueDate)} due date` : ''}.`,
+    };
+};
+
+// Notes the reminder on the assignments it reached; sending it is up to the notification channels.
+export const recordReminders = (campaign: AttestationCampaign, userIds: string[], actor: User, now: Date = new Date()): AttestationChange => {
+    const reminded = campaign.assignments.filter(entry => userIds.includes(entry.userId));
+    if (reminded.length === 0) throw new Error('Nobody was reminded.');
+    return {
+        campaign: {
+            ...campaign,
+            assignments: campaign.assignments.map(entry => reminded.includes(entry) ? { ...entry, remindersSent: [...entry.remindersSent, now.toISOString()] } : entry),
+        },
+        auditAction: 'Attestation Reminders Sent',
+        auditDetails: `${actor.name} reminded ${reminded.map(entry => entry.userName).join(', ')}.`,
+    };
+};
+
+// Closing keeps the assignments as they are, so the campaign stays as evidence of who did not acknowledge.
+export const closeCampaign = (campaign: AttestationCampaign, actor: User, now: Date = new Date()): AttestationChange => {
+    if (campaign.status === 'Closed') throw new Error(`"${campaign.name}" is already closed.`);
+    const outstanding = campaign.assignments.filter(entry => !entry.acknowledgedDate).length;
+    return {
+        campaign: { ...campaign, status: 'Closed', closedDate: now.toISOString() },
+        auditAction: 'Attestation Closed',
+        auditDetails: `${actor.name} closed the campaign at ${Math.round(completionRate([campaign]) * 100)}% complete; ${outstanding} people had not acknowledged.`,
+    };
+};
+
+// --- Progress ---
+
+export const assignmentStatus = (campaign: AttestationCampaign, assignment: AttestationAssignment, now: Date = new Date()): AssignmentStatus => {
+    const due = parseISO(campaign.dueDate);
+    if (assignment.acknowledgedDate) return parseISO(assignment.acknowledgedDate) > due ? 'Acknowledged Late' : 'Acknowledged';
+    return now > due ? 'Overdue' : 'Outstanding';
+};
+
+// Share of all assignments across the campaigns that have been acknowledged, from 0 to 1.
+export const completionRate = (campaigns: AttestationCampaign[]): number => {
+    const assignments = campaigns.flatMap(campaign => campaign.assignments);
+    return assignments.length === 0 ? 0 : assignments.filter(entry => entry.acknowledgedDate).length / assignments.length;
+};
+
+// The open campaigns still waiting on this user.
+export const pendingAttestationsFor = (campaigns: AttestationCampaign[], user: User): AttestationCampaign[] =>
+    campaigns.filter(campaign => campaign.status === 'Open' && campaign.assignments.some(entry => entry.userId === user.id && !entry.acknowledgedDate));
+
+// --- Reporting ---
+
+export interface AttestationReportRow {
+    key: string; // Policy ID or department
+    label: string;
+    campaigns: number;
+    assigned: number;
+    acknowledged: number;
+    late: number; // Acknowledged after the due date
+    overdue: number; // Not acknowledged and past the due date
+    rate: number; // 0 to 1
+}
+
+const reportRow = (key: string, label: string, campaigns: AttestationCampaign[], now: Date): AttestationReportRow => {
+    const statuses = campaigns.flatMap(campaign => campaign.assignments.map(entry => assignmentStatus(campaign, entry, now)));
+    return {
+        key,
+        label,
+        campaigns: campaigns.length,
+        assigned: statuses.length,
+        acknowledged: statuses.filter(status => status === 'Acknowledged' || status === 'Acknowledged Late').length,
+        late: statuses.filter(status => status === 'Acknowledged Late').length,
+        overdue: statuses.filter(status => status === 'Overdue').length,
+        rate: completionRate(campaigns),
+    };
+};
+
+const groupRows = (campaigns: AttestationCampaign[], keyOf: (campaign: AttestationCampaign) => string, labelOf: (campaign: AttestationCampaign) => string, now: Date) => {
+    const groups = new Map<string, AttestationCampaign[]>();
+    campaigns.forEach(campaign => groups.set(keyOf(campaign), [...(groups.get(keyOf(campaign)) || []), campaign]));
+    return [...groups.entries()]
+        .map(([key, group]) => reportRow(key, labelOf(group[0]), group, now))
+        .sort((a, b) => a.rate - b.rate || a.label.localeCompare(b.label));
+};
+
+// Completion per policy and per the policy's responsible department, lowest first.
+export const attestationReport = (campaigns: AttestationCampaign[], now: Date = new Date()) => ({
+    byPolicy: groupRows(campaigns, campaign => campaign.policyId, campaign => campaign.policyName, now),
+    byDepartment: groupRows(campaigns, campaign => campaign.responsibleDepartment || 'Unassigned', campaign => campaign.responsibleDepartment || 'Unassigned', now),
+});
+
+export const attestationReportCsv = (rows: AttestationReportRow[], groupLabel: string): string => toCsv(
+    [groupLabel, 'Campaigns', 'Assigned', 'Acknowledged', 'Acknowledged Late', 'Overdue', 'Completion %'],
+    rows.map(row => [row.label, row.campaigns, row.assigned, row.acknowledged, row.late, row.overdue, Math.round(row.rate * 100)])
+);
+
+// One row per person per campaign, for auditors who want to see who acknowledged what and when.
+export const attestationEvidenceCsv = (campaigns: AttestationCampaign[], now: Date = new Date()): string => toCsv(
+    ['Campaign ID', 'Campaign', 'Policy ID', 'Policy', 'Policy Version', 'Responsible Department', 'Launched By', 'Launched', 'Due', 'Campaign Status', 'Person', 'Person Department', 'Status', 'Acknowledged', 'Reminders Sent', 'Last Reminder'],
+    campaigns.flatMap(campaign => campaign.assignments.map(entry => [
+        campaign.id, campaign.name, campaign.policyId, campaign.policyName, campaign.policyVersion, campaign.responsibleDepartment,
+        campaign.launchedBy, campaign.launchedDate, campaign.dueDate, campaign.status,
+        entry.userName, entry.department, assignmentStatus(campaign, entry, now), entry.acknowledgedDate || '',
+        entry.remindersSent.length, entry.remindersSent[entry.remindersSent.length - 1] || '',
+    ]))
+);
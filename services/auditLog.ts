@@ -0,0 +1,60 @@
+import { AuditLogEntry } from '../types';
+import { AuditLogDraft } from '../utils/auditUtils';
+import { computeEntryHash, GENESIS_HASH, verifyAuditChain } from '../utils/hashChain';
+import { generateId } from '../utils/idUtils';
+import { repositories, Repository } from './repository';
+
+export interface AuditLogger {
+    record: (drafts: AuditLogDraft[]) => Promise<AuditLogEntry[]>;
+    list: () => Promise<AuditLogEntry[]>;
+    verify: () => ReturnType<typeof verifyAuditChain>;
+}
+
+// Appends entries to a hash chain. Appends are queued so concurrent mutations cannot fork the chain.
+export const createAuditLogger = (repository: Repository<AuditLogEntry>): AuditLogger => {
+    let tail: Promise<AuditLogEntry | undefined> | null = null;
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const list = async () => (await repository.list()).sort((a, b) => a.sequence - b.sequence);
+
+    const loadTail = async () => {
+        const entries = await list();
+        return entries[entries.length - 1];
+    };
+
+    const record = (drafts: AuditLogDraft[]) => {
+        const run = queue.then(async () => {
+            const created: AuditLogEntry[] = [];
+            try {
+                let last = await (tail ??= loadTail());
+                for (const draft of drafts) {
+                    const content = {
+                        ...draft,
+                        id: `LOG-${generateId()}`,
+                        sequence: (last?.sequence || 0) + 1,
+                        timestamp: new Date().toISOString(),
+                        previousHash: last?.hash || GENESIS_HASH,
+                    };
+                    const entry = await repository.create({ ...content, hash: await computeEntryHash(content) });
+                    created.push(entry);
+                    last = entry;
+                }
+                tail = Promise.resolve(last);
+            } catch (err) {
+                tail = null; // Re-read the chain head on the next append, also when reading it is what failed
+                throw err;
+            }
+            return created;
+        });
+        queue = run.catch(() => undefined);
+        return run;
+    };
+
+    return {
+        record,
+        list,
+        verify: async () => verifyAuditChain(await list()),
+    };
+};
+
+export const auditLogger = createAuditLogger(repositories.auditLog);
@@ -0,0 +1,144 @@
+import { CompliancePolicy, License, RecordLink, RegulatoryUpdate, Regulator, RiskAssessment } from '../types';
+import { parseISO } from '../utils/dateUtils';
+import { IcsEvent } from '../utils/exportUtils';
+
+// --- Compliance Calendar ---
+// Every dated obligation in the store as one flat list of events, shared by the calendar view and
+// the calendar export so both always show the same deadlines.
+
+export type CalendarEventKind = 'License Expiry' | 'Renewal Reminder' | 'Policy Review' | 'Action Item Due' | 'Risk Review' | 'Regulatory Filing';
+
+export interface CalendarEvent {
+    id: string; // Derived from the kind and record ID, so it stays the same between builds
+    kind: CalendarEventKind;
+    date: string; // ISO string
+    title: string;
+    description: string;
+    owner: string;
+    jurisdictionIds: string[];
+    source: RecordLink; // Action items point at their parent regulatory update
+}
+
+export interface CalendarSources {
+    licenses: License[];
+    policies: CompliancePolicy[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    riskAssessments: RiskAssessment[];
+    regulators: Regulator[];
+}
+
+export interface CalendarFilter {
+    jurisdictionId?: string;
+    owner?: string;
+}
+
+const hasDate = (iso: string | undefined): iso is string => !!iso && !isNaN(parseISO(iso).getTime());
+
+const licenseEvents = (license: License): CalendarEvent[] => {
+    // A revoked license has no deadlines left to meet.
+    if (license.status === 'Revoked') return [];
+    const source: RecordLink = { type: 'license', id: license.id };
+    const common = { owner: license.contactPerson, jurisdictionIds: license.jurisdictionId ? [license.jurisdictionId] : [], source };
+    const events: CalendarEvent[] = [];
+    if (hasDate(license.expiryDate)) {
+        events.push({ ...common, id: `license-expiry-${license.id}`, kind: 'License Expiry', date: license.expiryDate, title: `${license.name} expires`, description: `${license.licenseNumber} (${license.regulatoryBody}) expires.` });
+    }
+    if (hasDate(license.nextRenewalReminderDate)) {
+        events.push({ ...common, id: `license-reminder-${license.id}`, kind: 'Renewal Reminder', date: license.nextRenewalReminderDate, title: `Start renewal: ${license.name}`, description: `Renewal reminder for ${license.licenseNumber} (${license.regulatoryBody}).` });
+    }
+    return events;
+};
+
+const policyEvents = (policy: CompliancePolicy): CalendarEvent[] =>
+    policy.status === 'Retired' || !hasDate(policy.reviewDate) ? [] : [{
+        id: `policy-review-${policy.id}`,
+        kind: 'Policy Review',
+        date: policy.reviewDate,
+        title: `Review ${policy.name}`,
+        description: `${policy.category} policy v${policy.version} is due for review.`,
+        owner: policy.responsibleDepartment,
+        jurisdictionIds: policy.applicableJurisdictions,
+        source: { type: 'policy', id: policy.id },
+    }];
+
+const actionItemEvents = (update: RegulatoryUpdate): CalendarEvent[] =>
+    update.actionItems
+        .filter(item => item.status !== 'Completed' && hasDate(item.dueDate))
+        .map(item => ({
+            id: `action-item-${item.id}`,
+            kind: 'Action Item Due',
+            date: item.dueDate,
+            title: item.description,
+            description: `Action item for "${update.title}" (${item.status}).`,
+            owner: item.assignedTo,
+            jurisdictionIds: update.relevantJurisdictions,
+            source: { type: 'regulatoryUpdate', id: update.id },
+        }));
+
+const riskAssessmentEvents = (assessment: RiskAssessment): CalendarEvent[] =>
+    !hasDate(assessment.reviewDate) ? [] : [{
+        id: `risk-review-${assessment.id}`,
+        kind: 'Risk Review',
+        date: assessment.reviewDate,
+        title: `Review risk assessment: ${assessment.scope}`,
+        description: `${assessment.overallRiskRating} risk assessment (${assessment.status}).`,
+        owner: assessment.assessedBy,
+        jurisdictionIds: [],
+        source: { type: 'riskAssessment', id: assessment.id },
+    }];
+
+const filingEvents = (regulator: Regulator): CalendarEvent[] =>
+    regulator.filings
+        .filter(filing => hasDate(filing.nextDueDate))
+        .map(filing => ({
+            id: `regulator-filing-${filing.id}`,
+            kind: 'Regulatory Filing',
+            date: filing.nextDueDate,
+            title: `${regulator.shortName}: ${filing.name}`,
+            description: `${filing.frequency} filing with the ${regulator.name}.`,
+            owner: filing.owner,
+            jurisdictionIds: regulator.jurisdictionIds,
+            source: { type: 'regulator', id: regulator.id },
+        }));
+
+// All events, earliest first.
+export const buildCalendarEvents = (sources: CalendarSources): CalendarEvent[] =>
+    [
+        ...sources.licenses.flatMap(licenseEvents),
+        ...sources.policies.flatMap(policyEvents),
+        ...sources.regulatoryUpdates.flatMap(actionItemEvents),
+        ...sources.riskAssessments.flatMap(riskAssessmentEvents),
+        ...sources.regulators.flatMap(filingEvents),
+    ].sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+
+// Events without any jurisdiction are dropped when filtering by jurisdiction.
+export const filterCalendarEvents = (events: CalendarEvent[], filter: CalendarFilter): CalendarEvent[] =>
+    events.filter(event =>
+        (!filter.jurisdictionId || event.jurisdictionIds.includes(filter.jurisdictionId)) &&
+        (!filter.owner || event.owner === filter.owner));
+
+export const calendarOwners = (events: CalendarEvent[]): string[] =>
+    Array.from(new Set(events.map(event => event.owner).filter(Boolean))).sort();
+
+// UIDs are built from the event ID, so re-importing an export updates events instead of duplicating them.
+export const toIcsEvent = (event: CalendarEvent): IcsEvent => ({
+    uid: `${event.id}@compliance-hub`,
+    date: event.date,
+    summary: event.title,
+    description: [event.description, event.owner ? `Owner: ${event.owner}` : ''].filter(Boolean).join('\n'),
+    categories: [event.kind],
+});
+
+// --- Subscription Feed ---
+// Calendar apps subscribe to a URL instead of importing a file. Until there is a backend job, the
+// open app publishes the whole calendar, unfiltered, to the stand-in server (`npm run api`), which
+// serves the latest copy at that URL.
+
+export const calendarFeedConfig = {
+    url: process.env.CALENDAR_FEED_URL || 'http://localhost:4000/calendar/compliance-deadlines.ics',
+};
+
+export const publishCalendarFeed = async (ics: string, url: string = calendarFeedConfig.url, fetchFeed: typeof fetch = fetch): Promise<void> => {
+    const response = await fetchFeed(url, { method: 'PUT', headers: { 'Content-Type': 'text/calendar; charset=utf-8' }, body: ics });
+    if (!response.ok) throw new Error(`PUT ${url} failed with status ${response.status}`);
+};
@@ -0,0 +1,408 @@
+import { Schema, Type } from '@google/genai';
+import {
+    AssessedRisk, ComplianceAssessment, ComplianceCheckResult, CompliancePolicy, CoverageGap, Jurisdiction, License,
+    LicenseCoverage, PolicyRevision, RegulatoryUpdate, RiskAssessment, RiskItem, SuggestedLicense
+} from '../types';
+import { generateId } from '../utils/idUtils';
+import { calculateInherentRisk, calculateResidualRisk, highestRisk } from '../utils/riskUtils';
+import { addMonths, format, parseISO } from '../utils/dateUtils';
+import { jurisdictionName } from './jurisdictionRegistry';
+import { policiesInForceOn } from './policyRevisions';
+
+const RISK_LEVELS: ComplianceAssessment['riskLevel'][] = ['Low', 'Medium', 'High', 'Critical'];
+const LIKELIHOOD_LEVELS: AssessedRisk['likelihood'][] = ['Low', 'Medium', 'High'];
+
+// --- Response Schema ---
+// Sent to Gemini as the response schema so the model returns JSON in exactly this shape.
+export const complianceAssessmentSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: 'Two or three sentence overview of the compliance position.' },
+        riskLevel: { type: Type.STRING, enum: RISK_LEVELS, description: 'Overall regulatory risk of launching the feature.' },
+        riskRationale: { type: Type.STRING, description: 'Why this risk level was chosen.' },
+        suggestedLicenses: {
+            type: Type.ARRAY,
+            description: 'New licenses or registrations the feature may require, one entry per jurisdiction and license type.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    jurisdiction: { type: Type.STRING },
+                    licenseType: { type: Type.STRING },
+                    regulator: { type: Type.STRING },
+                    rationale: { type: Type.STRING },
+                },
+                required: ['jurisdiction', 'licenseType', 'regulator', 'rationale'],
+                propertyOrdering: ['jurisdiction', 'licenseType', 'regulator', 'rationale'],
+            },
+        },
+        impactedComplianceAreas: {
+            type: Type.ARRAY,
+            description: 'e.g. AML/KYC, consumer protection, data privacy, sanctions, capital requirements.',
+            items: { type: Type.STRING },
+        },
+        identifiedRisks: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    description: { type: Type.STRING },
+                    likelihood: { type: Type.STRING, enum: LIKELIHOOD_LEVELS },
+                    impact: { type: Type.STRING, enum: LIKELIHOOD_LEVELS },
+                    mitigations: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['description', 'likelihood', 'impact', 'mitigations'],
+                propertyOrdering: ['description', 'likelihood', 'impact', 'mitigations'],
+            },
+        },
+        mitigations: { type: Type.ARRAY, items: { type: Type.STRING } },
+        coveredBy: {
+            type: Type.ARRAY,
+            description: 'Licenses from our portfolio (by ID) that already authorise part of the feature.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    licenseId: { type: Type.STRING },
+                    reason: { type: Type.STRING },
+                },
+                required: ['licenseId', 'reason'],
+                propertyOrdering: ['licenseId', 'reason'],
+            },
+        },
+        coverageGaps: {
+            type: Type.ARRAY,
+            description: 'Parts of the feature that no license in our portfolio covers.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    jurisdiction: { type: Type.STRING },
+                    requirement: { type: Type.STRING },
+                },
+                required: ['jurisdiction', 'requirement'],
+                propertyOrdering: ['jurisdiction', 'requirement'],
+            },
+        },
+    },
+    required: ['summary', 'riskLevel', 'riskRationale', 'suggestedLicenses', 'impactedComplianceAreas', 'identifiedRisks', 'mitigations', 'coveredBy', 'coverageGaps'],
+    propertyOrdering: ['summary', 'riskLevel', 'riskRationale', 'suggestedLicenses', 'impactedComplianceAreas', 'identifiedRisks', 'mitigations', 'coveredBy', 'coverageGaps'],
+};
+
+// --- Portfolio Context ---
+export interface PortfolioSource {
+    licenses: License[];
+    policies: CompliancePolicy[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    jurisdictions: Jurisdiction[];
+    policyRevisions: PolicyRevision[];
+}
+
+export interface PortfolioContext {
+    activeLicenses: License[];
+    applicablePolicies: CompliancePolicy[];
+    openHighSeverityUpdates: RegulatoryUpdate[];
+    jurisdictions: Jurisdiction[];
+    jurisdictionName: (id: string) => string;
+}
+
+// Active licenses, the policies in force covering their jurisdictions (as their in-force version, not
+// a pending draft), and high-severity updates not yet implemented.
+export const buildPortfolioContext = ({ licenses, policies, regulatoryUpdates, jurisdictions, policyRevisions }: PortfolioSource): PortfolioContext => {
+    const activeLicenses = licenses.filter(lic => lic.status === 'Active' || lic.status === 'Pending Renewal');
+    const licensedJurisdictions = new Set(activeLicenses.map(lic => lic.jurisdictionId));
+    return {
+        activeLicenses,
+        applicablePolicies: policiesInForceOn(policies, policyRevisions).filter(pol => pol.applicableJurisdictions.some(id => licensedJurisdictions.has(id))),
+        openHighSeverityUpdates: regulatoryUpdates.filter(upd => upd.severity === 'High' && upd.status !== 'Implemented'),
+        jurisdictions,
+        jurisdictionName: (id: string) => jurisdictionName(jurisdictions, id),
+    };
+};
+
+const describePortfolio = ({ activeLicenses, applicablePolicies, openHighSeverityUpdates, jurisdictionName }: PortfolioContext): string => {
+    const byJurisdiction = new Map<string, License[]>();
+    activeLicenses.forEach(lic => {
+        const name = jurisdictionName(lic.jurisdictionId);
+        byJurisdiction.set(name, [...(byJurisdiction.get(name) || []), lic]);
+    });
+    const licenseLines = Array.from(byJurisdiction.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .flatMap(([jurisdiction, lics]) => [
+            `- ${jurisdiction}:`,
+            ...lics.map(lic => `  - [${lic.id}] ${lic.name} (${lic.regulatoryBody}, ${lic.status}) - scope: ${lic.scope}; expires ${format(parseISO(lic.expiryDate), 'yyyy-MM-dd')}`),
+        ]);
+    const policyLines = applicablePolicies.map(pol =>
+        `- ${pol.name} (${pol.category}, v${pol.version}) - applies in ${pol.applicableJurisdictions.map(jurisdictionName).join(', ')}`);
+    const updateLines = openHighSeverityUpdates.map(upd =>
+        `- ${upd.title} (${upd.source}, ${upd.status}) - ${upd.relevantJurisdictions.map(jurisdictionName).join(', ')}: ${upd.summary}`);
+
+    return [
+        '**Licenses We Hold (active or pending renewal), by jurisdiction:**',
+        ...(licenseLines.length > 0 ? licenseLines : ['- None']),
+        '',
+        '**Compliance Policies in force for those jurisdictions:**',
+        ...(policyLines.length > 0 ? policyLines : ['- None']),
+        '',
+        '**Open High-Severity Regulatory Updates (not yet implemented):**',
+        ...(updateLines.length > 0 ? updateLines : ['- None']),
+    ].join('\n');
+};
+
+export const buildCompliancePrompt = (featureDesc: string, portfolio: PortfolioContext): string => `As a highly experienced financial compliance expert and regulatory lawyer, meticulously review the following new feature description and provide a comprehensive compliance assessment.
+
+**New Feature Description:** "${featureDesc}"
+
+**Our Current Portfolio:**
+${describePortfolio(portfolio)}
+
+**Your Task:**
+1.  **Existing Coverage:** Which of the licenses listed above already authorise the feature, or part of it? Give the license ID shown in square brackets, without the brackets, and only cite IDs from the list.
+2.  **Coverage Gaps:** Which parts of the feature, in which jurisdictions, are not covered by any license we hold?
+3.  **Identify Potential New Licenses:** What new licenses or regulatory registrations are required to close those gaps? List each one with its jurisdiction, regulator and the reason it is needed.
+4.  **Key Compliance Areas:** Highlight the most critical compliance areas impacted by this feature (e.g., AML/KYC, consumer protection, data privacy, cross-border reporting, sanctions, capital requirements), taking our existing policies and the open regulatory updates into account.
+5.  **Regulatory Challenges/Risks:** Describe specific regulatory risks this feature might introduce, rating each one's likelihood and impact.
+6.  **Mitigation Strategies:** Suggest controls for each risk and overall strategies to ensure compliance.
+7.  **Overall Risk Level:** Rate the overall risk as Low, Medium, High or Critical and explain why.
+
+Respond only with JSON matching the provided schema.`;
+
+// --- Validation ---
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const readStringArray = (value: unknown, path: string, problems: string[]): string[] => {
+    if (!Array.isArray(value)) {
+        problems.push(`${path} must be an array of strings.`);
+        return [];
+    }
+    return value.filter((item, index) => {
+        if (isNonEmptyString(item)) return true;
+        problems.push(`${path}[${index}] must be a non-empty string.`);
+        return false;
+    }).map(item => (item as string).trim());
+};
+
+const readEnum = <T extends string>(value: unknown, allowed: T[], path: string, problems: string[]): T | undefined => {
+    if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+    problems.push(`${path} must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)}).`);
+    return undefined;
+};
+
+// Throws with every problem found, so a bad response is rejected rather than partially trusted.
+// `portfolio.activeLicenses` are the licenses the model was shown; citing any other license ID is an error.
+export const validateComplianceAssessment = (raw: unknown, portfolio: Pick<PortfolioContext, 'activeLicenses' | 'jurisdictionName'>): ComplianceAssessment => {
+    const problems: string[] = [];
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error('AI response is not a JSON object.');
+    }
+    const data = raw as Record<string, unknown>;
+
+    if (!isNonEmptyString(data.summary)) problems.push('summary must be a non-empty string.');
+    if (!isNonEmptyString(data.riskRationale)) problems.push('riskRationale must be a non-empty string.');
+    const riskLevel = readEnum(data.riskLevel, RISK_LEVELS, 'riskLevel', problems);
+
+    const suggestedLicenses: SuggestedLicense[] = [];
+    if (!Array.isArray(data.suggestedLicenses)) {
+        problems.push('suggestedLicenses must be an array.');
+    } else {
+        data.suggestedLicenses.forEach((item, index) => {
+            const license = (item || {}) as Record<string, unknown>;
+            const missing = ['jurisdiction', 'licenseType', 'regulator', 'rationale'].filter(field => !isNonEmptyString(license[field]));
+            if (missing.length > 0) {
+                problems.push(`suggestedLicenses[${index}] is missing ${missing.join(', ')}.`);
+                return;
+            }
+            suggestedLicenses.push({
+                jurisdiction: (license.jurisdiction as string).trim(),
+                licenseType: (license.licenseType as string).trim(),
+                regulator: (license.regulator as string).trim(),
+                rationale: (license.rationale as string).trim(),
+            });
+        });
+    }
+
+    const identifiedRisks: AssessedRisk[] = [];
+    if (!Array.isArray(data.identifiedRisks)) {
+        problems.push('identifiedRisks must be an array.');
+    } else {
+        data.identifiedRisks.forEach((item, index) => {
+            const risk = (item || {}) as Record<string, unknown>;
+            const path = `identifiedRisks[${index}]`;
+            if (!isNonEmptyString(risk.description)) problems.push(`${path}.description must be a non-empty string.`);
+            const likelihood = readEnum(risk.likelihood, LIKELIHOOD_LEVELS, `${path}.likelihood`, problems);
+            const impact = readEnum(risk.impact, LIKELIHOOD_LEVELS, `${path}.impact`, problems);
+            const mitigations = readStringArray(risk.mitigations, `${path}.mitigations`, problems);
+            if (isNonEmptyString(risk.description) && likelihood && impact) {
+                identifiedRisks.push({ description: risk.description.trim(), likelihood, impact, mitigations });
+            }
+        });
+    }
+
+    const impactedComplianceAreas = readStringArray(data.impactedComplianceAreas, 'impactedComplianceAreas', problems);
+    const mitigations = readStringArray(data.mitigations, 'mitigations', problems);
+
+    const coveredBy: LicenseCoverage[] = [];
+    if (!Array.isArray(data.coveredBy)) {
+        problems.push('coveredBy must be an array.');
+    } else {
+        data.coveredBy.forEach((item, index) => {
+            const coverage = (item || {}) as Record<string, unknown>;
+            const licenseId = typeof coverage.licenseId === 'string' ? coverage.licenseId.replace(/^\[|\]$/g, '').trim() : '';
+            const license = portfolio.activeLicenses.find(lic => lic.id === licenseId);
+            if (!license) {
+                problems.push(`coveredBy[${index}].licenseId ${JSON.stringify(coverage.licenseId)} is not a license in our portfolio.`);
+                return;
+            }
+            if (!isNonEmptyString(coverage.reason)) {
+                problems.push(`coveredBy[${index}].reason must be a non-empty string.`);
+                return;
+            }
+            coveredBy.push({ licenseId: license.id, licenseName: license.name, jurisdiction: portfolio.jurisdictionName(license.jurisdictionId), reason: coverage.reason.trim() });
+        });
+    }
+
+    const coverageGaps: CoverageGap[] = [];
+    if (!Array.isArray(data.coverageGaps)) {
+        problems.push('coverageGaps must be an array.');
+    } else {
+        data.coverageGaps.forEach((item, index) => {
+            const gap = (item || {}) as Record<string, unknown>;
+            if (!isNonEmptyString(gap.jurisdiction) || !isNonEmptyString(gap.requirement)) {
+                problems.push(`coverageGaps[${index}] needs a jurisdiction and a requirement.`);
+                return;
+            }
+            coverageGaps.push({ jurisdiction: gap.jurisdiction.trim(), requirement: gap.requirement.trim() });
+        });
+    }
+
+    if (problems.length > 0 || !riskLevel) {
+        throw new Error(`AI response failed validation: ${problems.join(' ')}`);
+    }
+    return {
+        summary: (data.summary as string).trim(),
+        riskLevel,
+        riskRationale: (data.riskRationale as string).trim(),
+        suggestedLicenses,
+        impactedComplianceAreas,
+        identifiedRisks,
+        mitigations,
+        coveredBy,
+        coverageGaps,
+    };
+};
+
+export const parseComplianceAssessment = (responseText: string, portfolio: Pick<PortfolioContext, 'activeLicenses' | 'jurisdictionName'>): ComplianceAssessment => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(responseText);
+    } catch {
+        throw new Error('AI response was not valid JSON.');
+    }
+    return validateComplianceAssessment(raw, portfolio);
+};
+
+// --- Result Construction ---
+export const formatAssessmentReport = (assessment: ComplianceAssessment): string => {
+    const lines = [
+        assessment.summary,
+        '',
+        `Overall Risk Level: ${assessment.riskLevel}`,
+        assessment.riskRationale,
+        '',
+        'Covered by Existing Licenses:',
+        ...(assessment.coveredBy.length > 0
+            ? assessment.coveredBy.map(cov => `- ${cov.licenseName} (${cov.jurisdiction}) - ${cov.reason}`)
+            : ['- None']),
+        '',
+        'Coverage Gaps:',
+        ...(assessment.coverageGaps.length > 0
+            ? assessment.coverageGaps.map(gap => `- ${gap.jurisdiction}: ${gap.requirement}`)
+            : ['- None identified']),
+        '',
+        'Suggested Licenses:',
+        ...(assessment.suggestedLicenses.length > 0
+            ? assessment.suggestedLicenses.map(lic => `- ${lic.jurisdiction}: ${lic.licenseType} (${lic.regulator}) - ${lic.rationale}`)
+            : ['- None identified']),
+        '',
+        `Impacted Compliance Areas: ${assessment.impactedComplianceAreas.join(', ') || 'None identified'}`,
+        '',
+        'Identified Risks:',
+        ...(assessment.identifiedRisks.length > 0
+            ? assessment.identifiedRisks.map(risk => `- ${risk.description} (likelihood ${risk.likelihood}, impact ${risk.impact})${risk.mitigations.length > 0 ? `\n  Controls: ${risk.mitigations.join('; ')}` : ''}`)
+            : ['- None identified']),
+        '',
+        'Mitigation Strategies:',
+        ...(assessment.mitigations.length > 0 ? assessment.mitigations.map(item => `- ${item}`) : ['- None identified']),
+    ];
+    return lines.join('\n');
+};
+
+export const createComplianceCheckResult = (featureDescription: string, assessment: ComplianceAssessment): ComplianceCheckResult => ({
+    id: `CCR-${generateId()}`,
+    featureDescription,
+    checkDate: new Date().toISOString(),
+    aiReport: formatAssessmentReport(assessment),
+    suggestedLicenses: assessment.suggestedLicenses.map(lic => `${lic.licenseType} (${lic.jurisdiction})`),
+    riskLevel: assessment.riskLevel,
+    status: 'Pending Review', // AI output is never final until a compliance officer signs it off
+    assessment,
+});
+
+// --- Review & Sign-off ---
+export interface ComplianceCheckReview {
+    riskLevel: ComplianceCheckResult['riskLevel'];
+    suggestedLicenses: string[];
+    notes: string;
+}
+
+// The AI's original figures stay in `assessment`; the top-level fields carry the reviewed values.
+export const signOffComplianceCheck = (check: ComplianceCheckResult, review: ComplianceCheckReview, reviewer: string): ComplianceCheckResult => {
+    const aiRiskLevel = check.assessment?.riskLevel || check.riskLevel;
+    const aiLicenses = check.assessment
+        ? check.assessment.suggestedLicenses.map(lic => `${lic.licenseType} (${lic.jurisdiction})`)
+        : check.suggestedLicenses;
+    const licensesChanged = review.suggestedLicenses.length !== aiLicenses.length
+        || review.suggestedLicenses.some(lic => !aiLicenses.includes(lic));
+    return {
+        ...check,
+        riskLevel: review.riskLevel,
+        suggestedLicenses: review.suggestedLicenses,
+        notes: review.notes.trim() || undefined,
+        status: 'Completed',
+        reviewedBy: reviewer,
+        reviewDate: new Date().toISOString(),
+        reviewOutcome: review.riskLevel !== aiRiskLevel || licensesChanged ? 'Overridden' : 'Accepted',
+    };
+};
+
+// --- Risk Assessment Drafts ---
+// A pending assessment pre-filled from a check's findings, linked back via sourceCheckId.
+// Checks saved before structured output existed only carry the AI-rated overall level.
+export const createRiskAssessmentDraft = (check: ComplianceCheckResult, assessedBy: string): RiskAssessment => {
+    const identifiedRisks: RiskItem[] = (check.assessment?.identifiedRisks || []).map(risk => {
+        const inherentRisk = calculateInherentRisk(risk.likelihood, risk.impact);
+        return {
+            id: generateId(),
+            description: risk.description,
+            likelihood: risk.likelihood,
+            impact: risk.impact,
+            inherentRisk,
+            mitigationControls: [...risk.mitigations],
+            residualRisk: calculateResidualRisk(inherentRisk, risk.mitigations),
+        };
+    });
+    const mitigationPlan = [
+        ...(check.assessment?.mitigations || []).map(item => `- ${item}`),
+        ...(check.assessment?.coverageGaps || []).map(gap => `- Close licensing gap in ${gap.jurisdiction}: ${gap.requirement}`),
+    ].join('\n');
+
+    return {
+        id: `RA-${generateId()}`,
+        assessmentDate: new Date().toISOString(),
+        assessedBy,
+        scope: check.featureDescription,
+        identifiedRisks,
+        overallRiskRating: identifiedRisks.length > 0 ? highestRisk(identifiedRisks.map(risk => risk.residualRisk)) : check.riskLevel,
+        mitigationPlan,
+        status: 'Pending',
+        reviewDate: addMonths(new Date(), 6).toISOString(),
+        sourceCheckId: check.id,
+    };
+};
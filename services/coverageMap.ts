@@ -0,0 +1,67 @@
+import { Jurisdiction, License, RegulatoryUpdate } from '../types';
+import { ancestorsOf, descendantsOf, levelOf } from './jurisdictionRegistry';
+
+// --- License Coverage Map ---
+// Joins map features (ISO codes, see data/worldMap.ts) to the jurisdiction registry and works out
+// how well each region is covered by our licenses.
+
+export type CoverageStatus = 'Active' | 'Pending Renewal' | 'Expired' | 'None';
+
+export interface CoverageSources {
+    jurisdictions: Jurisdiction[];
+    licenses: License[];
+    regulatoryUpdates: RegulatoryUpdate[];
+}
+
+export interface RegionCoverage {
+    jurisdictions: Jurisdiction[]; // Registry entries drawn as this feature
+    status: CoverageStatus;
+    licenses: License[]; // Held in the region, including its states
+    openUpdates: RegulatoryUpdate[]; // Not yet implemented, newest first
+}
+
+// Best first: a region is as covered as its best license. Revoked and suspended licenses give no
+// more cover than expired ones.
+const STATUS_RANK: CoverageStatus[] = ['Active', 'Pending Renewal', 'Expired', 'None'];
+
+export const licenseCoverageStatus = (license: License): CoverageStatus =>
+    license.status === 'Active' || license.status === 'Pending Renewal' ? license.status : 'Expired';
+
+export const bestCoverageStatus = (licenses: License[]): CoverageStatus =>
+    licenses.reduce<CoverageStatus>((best, license) => {
+        const status = licenseCoverageStatus(license);
+        return STATUS_RANK.indexOf(status) < STATUS_RANK.indexOf(best) ? status : best;
+    }, 'None');
+
+// "US-CA" matches the registry's subdivision code; "US" matches country-level entries only, so
+// California's licenses do not color the whole United States.
+export const jurisdictionsForFeature = (featureId: string, jurisdictions: Jurisdiction[]): Jurisdiction[] =>
+    featureId.includes('-')
+        ? jurisdictions.filter(jur => jur.subdivisionCode === featureId)
+        : jurisdictions.filter(jur => jur.countryCode === featureId && levelOf(jur) === 'Country');
+
+export const regionCoverage = (featureId: string, sources: CoverageSources): RegionCoverage => {
+    const matched = jurisdictionsForFeature(featureId, sources.jurisdictions);
+    const matchedIds = new Set(matched.map(jur => jur.id));
+    const regionIds = new Set(matched.flatMap(jur => [jur.id, ...descendantsOf(sources.jurisdictions, jur.id).map(child => child.id)]));
+    // Updates for a parent (e.g. the EEA) also land in the region.
+    const relevantIds = new Set([...regionIds, ...matched.flatMap(jur => ancestorsOf(sources.jurisdictions, jur.id).map(parent => parent.id))]);
+    return {
+        jurisdictions: matched,
+        status: bestCoverageStatus(sources.licenses.filter(lic => matchedIds.has(lic.jurisdictionId))),
+        licenses: sources.licenses
+            .filter(lic => regionIds.has(lic.jurisdictionId))
+            .sort((a, b) => STATUS_RANK.indexOf(licenseCoverageStatus(a)) - STATUS_RANK.indexOf(licenseCoverageStatus(b)) || a.name.localeCompare(b.name)),
+        openUpdates: sources.regulatoryUpdates
+            .filter(upd => upd.status !== 'Implemented' && upd.relevantJurisdictions.some(id => relevantIds.has(id)))
+            .sort((a, b) => b.publicationDate.localeCompare(a.publicationDate)),
+    };
+};
+
+// Licensed jurisdictions the bundled map has no outline for, so they can be listed beside it.
+export const unmappedJurisdictions = (featureIds: string[], sources: CoverageSources): Jurisdiction[] => {
+    const mapped = new Set(featureIds.flatMap(id => jurisdictionsForFeature(id, sources.jurisdictions)).map(jur => jur.id));
+    return sources.jurisdictions
+        .filter(jur => !mapped.has(jur.id) && sources.licenses.some(lic => lic.jurisdictionId === jur.id))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
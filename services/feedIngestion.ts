@@ -0,0 +1,267 @@
+import { FeedFormat, FeedPollResult, Jurisdiction, RegulatoryFeed, RegulatoryUpdate, Regulator } from '../types';
+import { generateId } from '../utils/idUtils';
+import { jurisdictionsMentioned, resolveJurisdiction } from './jurisdictionRegistry';
+import { resolveRegulator } from './regulatorDirectory';
+
+// --- Regulatory Feed Ingestion ---
+// Regulators publish RSS, Atom or JSON Feed. Each poll parses the feed into entries, drops the ones
+// already known, and turns the rest into new regulatory updates. Scheduling and saving live in
+// context/FeedIngestionContext; everything here is pure apart from the fetch in pollFeed.
+
+export interface FeedEntry {
+    externalId: string; // guid / id, falling back to the link
+    title: string;
+    summary: string; // Plain text
+    link: string; // Absolute URL
+    published: string; // ISO string, or '' when the feed's date is missing or unreadable
+    tags: string[]; // RSS/Atom categories, JSON Feed tags
+}
+
+export interface FeedMappingSources {
+    jurisdictions: Jurisdiction[];
+    regulators: Regulator[];
+}
+
+export interface FeedIngestion {
+    updates: RegulatoryUpdate[]; // New updates to save
+    feed: RegulatoryFeed; // The feed with this poll's result recorded
+}
+
+export const FEED_FORMATS: FeedFormat[] = ['RSS', 'Atom', 'JSON'];
+
+// --- Parsing ---
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Feed summaries are often HTML; updates keep plain text.
+export const stripHtml = (html: string): string => html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+        if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? match;
+        return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    })
+    .split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+
+const toIso = (value: string | undefined): string => {
+    const date = value ? new Date(value.trim()) : undefined;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString() : '';
+};
+
+const absoluteUrl = (link: string, base: string): string => {
+    try {
+        return link ? new URL(link.trim(), base).href : '';
+    } catch {
+        return '';
+    }
+};
+
+// Namespace prefixes differ between publishers (dc:date, atom:link), so children are matched by local name.
+const childrenNamed = (parent: Element, name: string): Element[] => Array.from(parent.children).filter(child => child.localName === name);
+const childText = (parent: Element, ...names: string[]): string => {
+    for (const name of names) {
+        const text = childrenNamed(parent, name)[0]?.textContent?.trim();
+        if (text) return text;
+    }
+    return '';
+};
+
+const parseXml = (body: string, format: FeedFormat): Element => {
+    const doc = new DOMParser().parseFromString(body, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The feed is not well-formed XML.');
+    const root = doc.documentElement;
+    const expected = format === 'RSS' ? ['rss', 'RDF'] : ['feed'];
+    if (!expected.includes(root.localName)) throw new Error(`Expected an ${format} feed but the document starts with <${root.localName}>.`);
+    return root;
+};
+
+const parseRss = (root: Element, baseUrl: string): FeedEntry[] =>
+    Array.from(root.getElementsByTagName('*')).filter(el => el.localName === 'item').map(item => {
+        const link = absoluteUrl(childText(item, 'link'), baseUrl);
+        return {
+            externalId: childText(item, 'guid') || item.getAttribute('rdf:about') || link,
+            title: stripHtml(childText(item, 'title')),
+            summary: stripHtml(childText(item, 'description', 'encoded')),
+            link,
+            published: toIso(childText(item, 'pubDate', 'date')),
+            tags: childrenNamed(item, 'category').map(cat => cat.textContent?.trim() || '').filter(Boolean),
+        };
+    });
+
+// Atom feeds may set xml:base for their relative links.
+const parseAtom = (root: Element, feedUrl: string): FeedEntry[] => {
+    const baseUrl = absoluteUrl(root.getAttribute('xml:base') || '', feedUrl) || feedUrl;
+    return childrenNamed(root, 'entry').map(entry => {
+        const links = childrenNamed(entry, 'link');
+        const alternate = links.find(el => (el.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+        const link = absoluteUrl(alternate?.getAttribute('href') || '', baseUrl);
+        return {
+            externalId: childText(entry, 'id') || link,
+            title: stripHtml(childText(entry, 'title')),
+            summary: stripHtml(childText(entry, 'summary', 'content')),
+            link,
+            published: toIso(childText(entry, 'published', 'updated')),
+            tags: childrenNamed(entry, 'category').map(cat => cat.getAttribute('term') || cat.getAttribute('label') || '').filter(Boolean),
+        };
+    });
+};
+
+interface JsonFeedItem {
+    id?: string | number;
+    url?: string;
+    external_url?: string;
+    title?: string;
+    summary?: string;
+    content_text?: string;
+    content_html?: string;
+    date_published?: string;
+    date_modified?: string;
+    tags?: string[];
+}
+
+const parseJsonFeed = (body: string, baseUrl: string): FeedEntry[] => {
+    let data: { items?: JsonFeedItem[] };
+    try {
+        data = JSON.parse(body);
+    } catch {
+        throw new Error('The feed is not valid JSON.');
+    }
+    if (!Array.isArray(data?.items)) throw new Error('Expected a JSON Feed with an "items" array.');
+    return data.items.map(item => {
+        const link = absoluteUrl(item.url || item.external_url || '', baseUrl);
+        return {
+            externalId: item.id !== undefined ? String(item.id) : link,
+            title: stripHtml(item.title || ''),
+            summary: item.summary || item.content_text || stripHtml(item.content_html || ''),
+            link,
+            published: toIso(item.date_published || item.date_modified),
+            tags: Array.isArray(item.tags) ? item.tags.map(String) : [],
+        };
+    });
+};
+
+// Relative links are resolved against the feed's own URL.
+export const parseFeed = (body: string, format: FeedFormat, baseUrl: string): FeedEntry[] => {
+    switch (format) {
+        case 'RSS': return parseRss(parseXml(body, format), baseUrl);
+        case 'Atom': return parseAtom(parseXml(body, format), baseUrl);
+        case 'JSON': return parseJsonFeed(body, baseUrl);
+    }
+};
+
+// --- Normalizing ---
+
+// The feed's regulator's jurisdictions, the feed's own, and any the entry names or tags, as long as
+// the registry knows them.
+export const entryJurisdictions = (feed: RegulatoryFeed, entry: FeedEntry, sources: FeedMappingSources): string[] => {
+    const ids = [
+        ...(resolveRegulator(sources.regulators, feed.regulatorId)?.jurisdictionIds || []),
+        ...feed.jurisdictionIds,
+        ...jurisdictionsMentioned(sources.jurisdictions, `${entry.title}\n${entry.summary}`, entry.tags).map(jur => jur.id),
+    ];
+    return [...new Set(ids)].filter(id => resolveJurisdiction(sources.jurisdictions, id));
+};
+
+export const normalizeEntry = (feed: RegulatoryFeed, entry: FeedEntry, sources: FeedMappingSources, now: Date = new Date()): RegulatoryUpdate => ({
+    id: `REG-${generateId()}`,
+    title: entry.title,
+    source: feed.source,
+    regulatorId: resolveRegulator(sources.regulators, feed.regulatorId)?.id,
+    publicationDate: entry.published,
+    summary: entry.summary,
+    fullTextUrl: entry.link,
+    severity: feed.defaultSeverity,
+    status: 'New',
+    relevantJurisdictions: entryJurisdictions(feed, entry, sources),
+    assignedTo: feed.assignedTo,
+    impactAssessmentNotes: '',
+    actionItems: [],
+    lastUpdated: now.toISOString(),
+    feedId: feed.id,
+    feedEntryId: entry.externalId,
+});
+
+// --- De-duplication ---
+// An entry is already known if its feed has delivered the same ID before, if any update links to
+// the same page (ignoring tracking parameters and fragments), or if the same source published the
+// same title on the same day. The last catches publishers that re-issue an entry under a new ID.
+
+const canonicalUrl = (url: string): string => {
+    try {
+        const parsed = new URL(url);
+        [...parsed.searchParams.keys()].filter(key => key.toLowerCase().startsWith('utm_')).forEach(key => parsed.searchParams.delete(key));
+        return `${parsed.host.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+    } catch {
+        return url.trim().toLowerCase();
+    }
+};
+
+const dedupeKeys = (update: Pick<RegulatoryUpdate, 'feedId' | 'feedEntryId' | 'fullTextUrl' | 'source' | 'title' | 'publicationDate'>): string[] => [
+    ...(update.feedId && update.feedEntryId ? [`entry:${update.feedId}:${update.feedEntryId}`] : []),
+    ...(update.fullTextUrl ? [`url:${canonicalUrl(update.fullTextUrl)}`] : []),
+    `title:${update.source.toLowerCase()}:${update.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}:${update.publicationDate.slice(0, 10)}`,
+];
+
+// Entries new to the store, and new to this batch, become updates. Entries missing a title, link or
+// date are skipped rather than saved half-empty.
+export const ingestEntries = (
+    feed: RegulatoryFeed, entries: FeedEntry[], existing: RegulatoryUpdate[], sources: FeedMappingSources, now: Date = new Date()
+): FeedIngestion => {
+    const known = new Set(existing.flatMap(dedupeKeys));
+    const updates: RegulatoryUpdate[] = [];
+    let duplicates = 0;
+    let skipped = 0;
+    entries.forEach(entry => {
+        if (!entry.title || !entry.link || !entry.published) {
+            skipped++;
+            return;
+        }
+        const update = normalizeEntry(feed, entry, sources, now);
+        const keys = dedupeKeys(update);
+        if (keys.some(key => known.has(key))) {
+            duplicates++;
+            return;
+        }
+        keys.forEach(key => known.add(key));
+        updates.push(update);
+    });
+    return { updates, feed: { ...feed, lastPoll: { date: now.toISOString(), added: updates.length, duplicates, skipped } } };
+};
+
+// --- Polling ---
+
+// Never throws: a failed poll is recorded on the feed so it shows up in the feed list.
+export const pollFeed = async (
+    feed: RegulatoryFeed, existing: RegulatoryUpdate[], sources: FeedMappingSources, fetchFeed: typeof fetch = fetch, now: Date = new Date()
+): Promise<FeedIngestion> => {
+    try {
+        const response = await fetchFeed(feed.url, { headers: { Accept: feed.format === 'JSON' ? 'application/feed+json, application/json' : 'application/rss+xml, application/atom+xml, application/xml, text/xml' } });
+        if (!response.ok) throw new Error(`GET ${feed.url} failed with status ${response.status}`);
+        return ingestEntries(feed, parseFeed(await response.text(), feed.format, feed.url), existing, sources, now);
+    } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        return { updates: [], feed: { ...feed, lastPoll: { date: now.toISOString(), added: 0, duplicates: 0, skipped: 0, error } } };
+    }
+};
+
+export const describePoll = (result: FeedPollResult): string => result.error
+    ? `Failed: ${result.error}`
+    : `${result.added} new, ${result.duplicates} already known${result.skipped ? `, ${result.skipped} skipped` : ''}`;
+
+// --- Configuration ---
+
+export const validateFeed = (feed: RegulatoryFeed, feeds: RegulatoryFeed[]): string[] => {
+    const problems: string[] = [];
+    if (!feed.name.trim()) problems.push('Name is required.');
+    if (!feed.source.trim()) problems.push('Source is required; it is what updates from this feed show as their source.');
+    let protocol = '';
+    try {
+        protocol = new URL(feed.url).protocol;
+    } catch {
+        // Reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') problems.push('URL must be a full http(s) address.');
+    else if (feeds.some(other => other.id !== feed.id && canonicalUrl(other.url) === canonicalUrl(feed.url))) problems.push('Another feed already polls this URL.');
+    return problems;
+};
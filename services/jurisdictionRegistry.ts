@@ -0,0 +1,178 @@
+import { CompliancePolicy, Jurisdiction, JurisdictionHoliday, License, RegulatoryUpdate, Regulator } from '../types';
+import { format } from '../utils/dateUtils';
+
+// --- Jurisdiction Registry ---
+// Jurisdictions form a tree: US states sit under the United States, EEA member states under the
+// European Economic Area. Every other record refers to jurisdictions by ID only; these helpers
+// resolve those IDs and keep the references intact.
+
+export interface JurisdictionReferenceSources {
+    jurisdictions: Jurisdiction[];
+    licenses: License[];
+    policies: CompliancePolicy[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    regulators: Regulator[];
+}
+
+export interface IntegrityIssue {
+    recordType: 'License' | 'CompliancePolicy' | 'RegulatoryUpdate' | 'Jurisdiction' | 'Regulator';
+    recordId: string;
+    label: string;
+    problem: string;
+}
+
+export const levelOf = (jurisdiction: Jurisdiction): NonNullable<Jurisdiction['level']> => jurisdiction.level || 'Country';
+
+export const resolveJurisdiction = (jurisdictions: Jurisdiction[], id: string): Jurisdiction | undefined =>
+    jurisdictions.find(jur => jur.id === id);
+
+export const jurisdictionName = (jurisdictions: Jurisdiction[], id: string): string =>
+    resolveJurisdiction(jurisdictions, id)?.name || `Unknown Jurisdiction (${id})`;
+
+// Parent first, up to the root. Stops at a broken or cyclic link rather than looping.
+export const ancestorsOf = (jurisdictions: Jurisdiction[], id: string): Jurisdiction[] => {
+    const ancestors: Jurisdiction[] = [];
+    const seen = new Set([id]);
+    let parentId = resolveJurisdiction(jurisdictions, id)?.parentId;
+    while (parentId && !seen.has(parentId)) {
+        const parent = resolveJurisdiction(jurisdictions, parentId);
+        if (!parent) break;
+        ancestors.push(parent);
+        seen.add(parentId);
+        parentId = parent.parentId;
+    }
+    return ancestors;
+};
+
+export const childrenOf = (jurisdictions: Jurisdiction[], id: string): Jurisdiction[] =>
+    jurisdictions.filter(jur => jur.parentId === id);
+
+export const descendantsOf = (jurisdictions: Jurisdiction[], id: string): Jurisdiction[] =>
+    childrenOf(jurisdictions, id).flatMap(child => [child, ...descendantsOf(jurisdictions, child.id)]);
+
+// Jurisdictions that licenses are issued in: the leaves of the tree.
+export const leafJurisdictions = (jurisdictions: Jurisdiction[]): Jurisdiction[] =>
+    jurisdictions.filter(jur => !jurisdictions.some(other => other.parentId === jur.id));
+
+export const EEA_CODE = 'EEA';
+
+export const isInEEA = (jurisdictions: Jurisdiction[], jurisdiction: Jurisdiction): boolean =>
+    [jurisdiction, ...ancestorsOf(jurisdictions, jurisdiction.id)].some(jur => jur.countryCode === EEA_CODE);
+
+// Depth-first with children under their parent, for pickers and the registry table.
+export const flattenTree = (jurisdictions: Jurisdiction[]): { jurisdiction: Jurisdiction; depth: number }[] => {
+    const ids = new Set(jurisdictions.map(jur => jur.id));
+    const visit = (jurisdiction: Jurisdiction, depth: number): { jurisdiction: Jurisdiction; depth: number }[] => [
+        { jurisdiction, depth },
+        ...childrenOf(jurisdictions, jurisdiction.id)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .flatMap(child => visit(child, depth + 1)),
+    ];
+    return jurisdictions
+        .filter(jur => !jur.parentId || !ids.has(jur.parentId))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .flatMap(root => visit(root, 0));
+};
+
+// A state observes its country's holidays as well as its own.
+export const holidaysFor = (jurisdictions: Jurisdiction[], id: string): JurisdictionHoliday[] => {
+    const jurisdiction = resolveJurisdiction(jurisdictions, id);
+    if (!jurisdiction) return [];
+    return [jurisdiction, ...ancestorsOf(jurisdictions, id)]
+        .filter(jur => levelOf(jur) !== 'Supranational')
+        .flatMap(jur => jur.holidays || [])
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const isBusinessDay = (jurisdictions: Jurisdiction[], id: string, date: Date): boolean => {
+    if (date.getDay() === 0 || date.getDay() === 6) return false;
+    const day = format(date, 'yyyy-MM-dd');
+    return !holidaysFor(jurisdictions, id).some(holiday => holiday.date === day);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Jurisdictions named in free text by name or subdivision code ("US-CA"). Tags, such as feed
+// categories, may also use the country code; codes alone are too ambiguous to match in prose.
+export const jurisdictionsMentioned = (jurisdictions: Jurisdiction[], text: string, tags: string[] = []): Jurisdiction[] => {
+    const words = (phrase: string) => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase)}($|[^\\p{L}\\p{N}])`, 'iu');
+    const tagSet = new Set(tags.map(tag => tag.trim().toUpperCase()));
+    return jurisdictions.filter(jur =>
+        words(jur.name).test(text)
+        || (!!jur.subdivisionCode && words(jur.subdivisionCode).test(text))
+        || tagSet.has(jur.name.toUpperCase()) || tagSet.has(jur.countryCode.toUpperCase()) || (!!jur.subdivisionCode && tagSet.has(jur.subdivisionCode.toUpperCase()))
+    );
+};
+
+// --- Validation & Referential Integrity ---
+
+// Problems that stop a jurisdiction from being saved into the registry.
+export const validateJurisdiction = (jurisdiction: Jurisdiction, jurisdictions: Jurisdiction[]): string[] => {
+    const problems: string[] = [];
+    const others = jurisdictions.filter(jur => jur.id !== jurisdiction.id);
+    if (!jurisdiction.name.trim()) problems.push('Name is required.');
+    if (others.some(jur => jur.name.trim().toLowerCase() === jurisdiction.name.trim().toLowerCase())) {
+        problems.push(`Another jurisdiction is already called "${jurisdiction.name}".`);
+    }
+    if (!jurisdiction.countryCode.trim()) problems.push('Country code is required.');
+    if (!/^[A-Z]{3}$/.test(jurisdiction.currency)) problems.push('Currency must be a three-letter ISO 4217 code, e.g. "EUR".');
+    if (!jurisdiction.primaryRegulator.trim()) problems.push('A primary regulator is required.');
+    if (levelOf(jurisdiction) === 'Subdivision' && !jurisdiction.parentId) problems.push('A subdivision needs a parent country.');
+    if (jurisdiction.parentId && jurisdiction.parentId === jurisdiction.id) {
+        problems.push('A jurisdiction cannot be its own parent.');
+    } else if (jurisdiction.parentId) {
+        const parent = resolveJurisdiction(others, jurisdiction.parentId);
+        if (!parent) {
+            problems.push(`Parent jurisdiction ${jurisdiction.parentId} does not exist.`);
+        } else if (descendantsOf(others, jurisdiction.id).some(jur => jur.id === parent.id)) {
+            problems.push(`${parent.name} cannot be the parent: it sits below ${jurisdiction.name || 'this jurisdiction'}.`);
+        }
+    }
+    (jurisdiction.holidays || []).forEach(holiday => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday.date) || !holiday.name.trim()) {
+            problems.push(`Holiday "${holiday.name || holiday.date}" needs a yyyy-MM-dd date and a name.`);
+        }
+    });
+    return problems;
+};
+
+// Every record that points at the jurisdiction, for delete checks and "where is this used" views.
+export const findJurisdictionReferences = (id: string, sources: JurisdictionReferenceSources): IntegrityIssue[] => [
+    ...sources.jurisdictions.filter(jur => jur.parentId === id)
+        .map(jur => ({ recordType: 'Jurisdiction' as const, recordId: jur.id, label: jur.name, problem: 'is a child of this jurisdiction' })),
+    ...sources.licenses.filter(lic => lic.jurisdictionId === id)
+        .map(lic => ({ recordType: 'License' as const, recordId: lic.id, label: lic.name, problem: 'is issued in this jurisdiction' })),
+    ...sources.policies.filter(pol => pol.applicableJurisdictions.includes(id))
+        .map(pol => ({ recordType: 'CompliancePolicy' as const, recordId: pol.id, label: pol.name, problem: 'applies in this jurisdiction' })),
+    ...sources.regulatoryUpdates.filter(upd => upd.relevantJurisdictions.includes(id))
+        .map(upd => ({ recordType: 'RegulatoryUpdate' as const, recordId: upd.id, label: upd.title, problem: 'is relevant to this jurisdiction' })),
+    ...sources.regulators.filter(reg => reg.jurisdictionIds.includes(id))
+        .map(reg => ({ recordType: 'Regulator' as const, recordId: reg.id, label: reg.shortName, problem: 'supervises this jurisdiction' })),
+];
+
+export const assertJurisdictionDeletable = (id: string, sources: JurisdictionReferenceSources): void => {
+    const references = findJurisdictionReferences(id, sources);
+    if (references.length > 0) {
+        const name = jurisdictionName(sources.jurisdictions, id);
+        const examples = references.slice(0, 3).map(ref => `${ref.label} ${ref.problem}`).join('; ');
+        throw new Error(`${name} is still referenced by ${references.length} record(s): ${examples}${references.length > 3 ? '; ...' : ''}.`);
+    }
+};
+
+// Jurisdiction IDs anywhere in the store that do not resolve, e.g. left behind by an import.
+export const findDanglingJurisdictionReferences = (sources: JurisdictionReferenceSources): IntegrityIssue[] => {
+    const known = new Set(sources.jurisdictions.map(jur => jur.id));
+    const missing = (ids: string[]) => ids.filter(id => !known.has(id));
+    return [
+        ...sources.jurisdictions.filter(jur => jur.parentId && !known.has(jur.parentId))
+            .map(jur => ({ recordType: 'Jurisdiction' as const, recordId: jur.id, label: jur.name, problem: `parent ${jur.parentId} does not exist` })),
+        ...sources.licenses.filter(lic => !known.has(lic.jurisdictionId))
+            .map(lic => ({ recordType: 'License' as const, recordId: lic.id, label: lic.name, problem: `jurisdiction ${lic.jurisdictionId || '(none)'} does not exist` })),
+        ...sources.policies.filter(pol => missing(pol.applicableJurisdictions).length > 0)
+            .map(pol => ({ recordType: 'CompliancePolicy' as const, recordId: pol.id, label: pol.name, problem: `unknown jurisdiction(s) ${missing(pol.applicableJurisdictions).join(', ')}` })),
+        ...sources.regulatoryUpdates.filter(upd => missing(upd.relevantJurisdictions).length > 0)
+            .map(upd => ({ recordType: 'RegulatoryUpdate' as const, recordId: upd.id, label: upd.title, problem: `unknown jurisdiction(s) ${missing(upd.relevantJurisdictions).join(', ')}` })),
+        ...sources.regulators.filter(reg => missing(reg.jurisdictionIds).length > 0)
+            .map(reg => ({ recordType: 'Regulator' as const, recordId: reg.id, label: reg.shortName, problem: `unknown jurisdiction(s) ${missing(reg.jurisdictionIds).join(', ')}` })),
+    ];
+};
@@ -0,0 +1,99 @@
+import { Jurisdiction } from '../types';
+import {
+    baselineRule, countryAliases, EEA_ALIASES, FeatureRule, featureRules, LARGE_TRANSACTION_THRESHOLD, typicalLicenseByCountry
+} from '../data/complianceRules';
+import { PortfolioContext, validateComplianceAssessment } from './complianceCheckService';
+import { ancestorsOf, isInEEA, leafJurisdictions } from './jurisdictionRegistry';
+import type { ComplianceAIProvider } from './aiProvider';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, phrase: string) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase.toLowerCase())}($|[^a-z0-9])`).test(text);
+
+// Licensing jurisdictions (leaves of the registry) named in the description, directly, through a
+// parent (e.g. "United States" selects every registered state) or via country/EEA aliases. Country
+// codes only match in capitals so that words like "us" do not count.
+const findMentionedJurisdictions = (featureDesc: string, jurisdictions: Jurisdiction[]): Jurisdiction[] => {
+    const text = featureDesc.toLowerCase();
+    const mentionsEEA = EEA_ALIASES.some(alias => mentions(text, alias));
+    return leafJurisdictions(jurisdictions).filter(jur =>
+        [jur, ...ancestorsOf(jurisdictions, jur.id)].some(named => mentions(text, named.name)) ||
+        new RegExp(`(^|[^A-Za-z])${escapeRegExp(jur.countryCode)}($|[^A-Za-z])`).test(featureDesc) ||
+        (countryAliases[jur.countryCode] || []).some(alias => mentions(text, alias)) ||
+        (mentionsEEA && isInEEA(jurisdictions, jur))
+    );
+};
+
+const findLargestAmount = (text: string): number => {
+    const amounts = Array.from(text.matchAll(/[$€£]\s?([\d,]+(?:\.\d+)?)/g)).map(match => Number(match[1].replace(/,/g, '')));
+    return amounts.length > 0 ? Math.max(...amounts) : 0;
+};
+
+const scoreToRiskLevel = (score: number) =>
+    score >= 8 ? 'Critical' : score >= 5 ? 'High' : score >= 3 ? 'Medium' : 'Low';
+
+// Rule-based stand-in for the model: same input, same output, no network. Maps keywords and
+// jurisdictions in the description to compliance areas, existing licenses and gaps.
+export const createLocalAIProvider = (): ComplianceAIProvider => ({
+    name: 'Local rules',
+    assessFeature: async (featureDesc: string, portfolio: PortfolioContext) => {
+        const text = featureDesc.toLowerCase();
+        const matchedRules: FeatureRule[] = [baselineRule, ...featureRules.filter(rule => rule.keywords.some(keyword => mentions(text, keyword)))];
+
+        const mentioned = findMentionedJurisdictions(featureDesc, portfolio.jurisdictions);
+        // With no jurisdiction named, assume a launch wherever we are already licensed.
+        const targetJurisdictions = mentioned.length > 0
+            ? mentioned
+            : leafJurisdictions(portfolio.jurisdictions).filter(jur => portfolio.activeLicenses.some(lic => lic.jurisdictionId === jur.id));
+
+        const coveredBy = targetJurisdictions.flatMap(jur => portfolio.activeLicenses
+            .filter(lic => lic.jurisdictionId === jur.id)
+            .map(lic => ({ licenseId: lic.id, reason: `Held ${lic.status.toLowerCase()} license in ${jur.name} with scope "${lic.scope}".` })));
+
+        const uncovered = targetJurisdictions.filter(jur => !portfolio.activeLicenses.some(lic => lic.jurisdictionId === jur.id));
+        const coverageGaps = uncovered.map(jur => ({ jurisdiction: jur.name, requirement: `No active license with ${jur.primaryRegulator} for this activity.` }));
+        const suggestedLicenses = uncovered.map(jur => ({
+            jurisdiction: jur.name,
+            licenseType: typicalLicenseByCountry[jur.countryCode] || 'Payment Services License',
+            regulator: jur.primaryRegulator,
+            rationale: `The feature targets ${jur.name}, where we hold no active license.`,
+        }));
+
+        const identifiedRisks = matchedRules.map(rule => ({ ...rule.risk, mitigations: [...rule.risk.mitigations] }));
+        const largestAmount = findLargestAmount(featureDesc);
+        if (largestAmount > LARGE_TRANSACTION_THRESHOLD) {
+            identifiedRisks[0] = { ...identifiedRisks[0], likelihood: 'High', description: `${identifiedRisks[0].description} Transactions up to ${largestAmount.toLocaleString()} exceed the ${LARGE_TRANSACTION_THRESHOLD.toLocaleString()} reporting threshold.` };
+        }
+        const openUpdates = portfolio.openHighSeverityUpdates.filter(upd => upd.relevantJurisdictions.some(id => targetJurisdictions.some(jur => jur.id === id)));
+
+        const score = matchedRules.reduce((total, rule) => total + rule.weight, 0)
+            + 2 * coverageGaps.length
+            + (largestAmount > LARGE_TRANSACTION_THRESHOLD ? 1 : 0)
+            + (openUpdates.length > 0 ? 1 : 0);
+        const riskLevel = scoreToRiskLevel(score);
+
+        const rationale = [
+            `Rule score ${score}: ${matchedRules.length} compliance area(s) triggered`,
+            `${coverageGaps.length} licensing gap(s)`,
+            largestAmount > LARGE_TRANSACTION_THRESHOLD ? 'large transaction values' : '',
+            openUpdates.length > 0 ? `${openUpdates.length} open high-severity regulatory update(s) in scope` : '',
+        ].filter(Boolean).join(', ') + '.';
+
+        // Validated like a model response so both providers honour the same contract.
+        return validateComplianceAssessment({
+            summary: `Offline rule-based assessment covering ${targetJurisdictions.map(jur => jur.name).join(', ') || 'no registered jurisdictions'}. ${coverageGaps.length > 0 ? `${coverageGaps.length} jurisdiction(s) lack an active license.` : 'Existing licenses cover every targeted jurisdiction.'}`,
+            riskLevel,
+            riskRationale: rationale,
+            suggestedLicenses,
+            impactedComplianceAreas: matchedRules.map(rule => rule.area),
+            identifiedRisks,
+            mitigations: [
+                ...matchedRules.map(rule => rule.mitigation),
+                ...openUpdates.map(upd => `Complete implementation of "${upd.title}" before launch.`),
+            ],
+            coveredBy,
+            coverageGaps,
+        }, portfolio);
+    },
+});
@@ -0,0 +1,50 @@
+import type { Repository } from './repository';
+
+const STORAGE_PREFIX = 'compliance-hub:';
+
+export const createLocalStorageRepository = <T extends { id: string }>(collection: string, seed: T[]): Repository<T> => {
+    const storageKey = `${STORAGE_PREFIX}${collection}`;
+
+    const read = (): T[] => {
+        const raw = window.localStorage.getItem(storageKey);
+        if (raw === null) {
+            write(seed);
+            return [...seed];
+        }
+        try {
+            return JSON.parse(raw) as T[];
+        } catch (err) {
+            console.error(`Corrupt data in local storage for "${collection}", reseeding:`, err);
+            write(seed);
+            return [...seed];
+        }
+    };
+
+    const write = (items: T[]) => {
+        window.localStorage.setItem(storageKey, JSON.stringify(items));
+    };
+
+    return {
+        list: async () => read(),
+        get: async (id) => read().find(item => item.id === id),
+        create: async (item) => {
+            const items = read();
+            if (items.some(existing => existing.id === item.id)) {
+                throw new Error(`${collection} record "${item.id}" already exists.`);
+            }
+            write([item, ...items]);
+            return item;
+        },
+        update: async (item) => {
+            const items = read();
+            if (!items.some(existing => existing.id === item.id)) {
+                throw new Error(`${collection} record "${item.id}" not found.`);
+            }
+            write(items.map(existing => existing.id === item.id ? item : existing));
+            return item;
+        },
+        remove: async (id) => {
+            write(read().filter(item => item.id !== id));
+        },
+    };
+};
@@ -0,0 +1,108 @@
+import { InboxNotification, NotificationChannelKind, ReminderPreferences } from '../types';
+import { generateId } from '../utils/idUtils';
+import { repositories, Repository } from './repository';
+import { ReminderDigest } from './reminderEngine';
+
+// --- Notification Channels ---
+// Each channel delivers a whole digest its own way. Add a channel by implementing this interface
+// and registering it in `notificationChannels`; users opt in per channel in their preferences.
+export interface NotificationChannel {
+    kind: NotificationChannelKind;
+    deliver: (digest: ReminderDigest, preferences: ReminderPreferences) => Promise<void>;
+}
+
+export interface NotificationChannelConfig {
+    mailRelayUrl: string;
+    fromAddress: string;
+}
+
+export const notificationChannelConfig: NotificationChannelConfig = {
+    mailRelayUrl: process.env.MAIL_RELAY_URL || 'http://localhost:4000/mail',
+    fromAddress: 'compliance-hub@example.com',
+};
+
+const postJson = async (url: string, body: unknown) => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    if (!response.ok) {
+        throw new Error(`POST ${url} failed with status ${response.status}`);
+    }
+};
+
+// One inbox entry per item so each can link to its record and be marked read on its own.
+export const createInAppChannel = (inbox: Repository<InboxNotification>): NotificationChannel => ({
+    kind: 'In-App',
+    deliver: async (digest) => {
+        for (const item of digest.items) {
+            await inbox.create({
+                id: `NTF-${generateId()}`,
+                userId: digest.user.id,
+                category: item.category,
+                title: item.title,
+                body: item.detail,
+                link: item.link,
+                createdDate: digest.generatedDate,
+                read: false,
+            });
+        }
+    },
+});
+
+// Browsers cannot speak SMTP, so mail goes through an HTTP relay. The stand-in server's /mail
+// endpoint plays that role locally (see server/standInServer.mjs).
+export const createEmailChannel = (config: NotificationChannelConfig): NotificationChannel => ({
+    kind: 'Email',
+    deliver: (digest) => postJson(config.mailRelayUrl, {
+        from: config.fromAddress,
+        to: digest.user.email,
+        subject: digest.subject,
+        text: digest.text,
+    }),
+});
+
+export const createWebhookChannel = (): NotificationChannel => ({
+    kind: 'Webhook',
+    deliver: async (digest, preferences) => {
+        if (!preferences.webhookUrl) {
+            throw new Error('No webhook URL configured.');
+        }
+        await postJson(preferences.webhookUrl, {
+            type: 'compliance.reminder_digest',
+            generatedDate: digest.generatedDate,
+            user: { id: digest.user.id, name: digest.user.name, email: digest.user.email },
+            items: digest.items,
+        });
+    },
+});
+
+export const notificationChannels: Record<NotificationChannelKind, NotificationChannel> = {
+    'In-App': createInAppChannel(repositories.notifications),
+    'Email': createEmailChannel(notificationChannelConfig),
+    'Webhook': createWebhookChannel(),
+};
+
+export interface DigestDelivery {
+    userId: string;
+    itemCount: number;
+    delivered: NotificationChannelKind[];
+    failed: { channel: NotificationChannelKind; error: string }[];
+}
+
+// Sends the digest through every channel the user opted into. A failing channel is reported
+// rather than thrown, so one bad webhook does not stop the inbox or email from going out.
+export const deliverDigest = async (
+    digest: ReminderDigest,
+    preferences: ReminderPreferences,
+    channels: Record<NotificationChannelKind, NotificationChannel> = notificationChannels,
+): Promise<DigestDelivery> => {
+    const result: DigestDelivery = { userId: digest.user.id, itemCount: digest.items.length, delivered: [], failed: [] };
+    for (const kind of preferences.channels) {
+        try {
+            await channels[kind].deliver(digest, preferences);
+            result.delivered.push(kind);
+        } catch (err) {
+            console.error(`Failed to deliver reminder digest via ${kind}:`, err);
+            result.failed.push({ channel: kind, error: err instanceof Error ? err.message : String(err) });
+        }
+    }
+    return result;
+};
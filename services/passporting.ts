@@ -0,0 +1,142 @@
+import { Jurisdiction, License, PassportNotification } from '../types';
+import { generateId } from '../utils/idUtils';
+import { format, parseISO } from '../utils/dateUtils';
+import { ancestorsOf, jurisdictionName, levelOf, resolveJurisdiction } from './jurisdictionRegistry';
+
+// --- EEA Passporting ---
+// A license issued in an EEA member state can be passported into the others once its home
+// regulator has notified the host state. Passports are kept on the home license, so each change
+// is saved with that license's history, like the renewal workflow.
+
+export interface PassportChange {
+    license: License;
+    auditAction: string;
+    auditDetails: string;
+}
+
+// Statuses that still give, or will give, us access to the host state.
+const LIVE_STATUSES: PassportNotification['status'][] = ['Planned', 'Notified', 'Active'];
+
+export const eeaMemberStates = (jurisdictions: Jurisdiction[]): Jurisdiction[] =>
+    jurisdictions.filter(jur => jur.isEEA && levelOf(jur) === 'Country').sort((a, b) => a.name.localeCompare(b.name));
+
+// The member state a license is issued in, or undefined if it cannot be passported.
+export const homeMemberState = (license: License, jurisdictions: Jurisdiction[]): Jurisdiction | undefined => {
+    const issuedIn = resolveJurisdiction(jurisdictions, license.jurisdictionId);
+    if (!issuedIn || !issuedIn.isEEA) return undefined;
+    return [issuedIn, ...ancestorsOf(jurisdictions, issuedIn.id)].find(jur => jur.isEEA && levelOf(jur) === 'Country');
+};
+
+export const canPassport = (license: License, jurisdictions: Jurisdiction[]): boolean => !!homeMemberState(license, jurisdictions);
+
+// A passport is only as good as the home license behind it.
+export const isLicenseInForce = (license: License): boolean => license.status === 'Active' || license.status === 'Pending Renewal';
+
+export const isPassportEffective = (passport: PassportNotification, now: Date = new Date()): boolean =>
+    passport.status === 'Active' && (!passport.effectiveDate || parseISO(passport.effectiveDate) <= now);
+
+export const validatePassport = (passport: PassportNotification, license: License, jurisdictions: Jurisdiction[]): string[] => {
+    const problems: string[] = [];
+    const home = homeMemberState(license, jurisdictions);
+    const host = resolveJurisdiction(jurisdictions, passport.hostJurisdictionId);
+    if (!home) problems.push(`${license.name} is not issued in an EEA member state, so it cannot be passported.`);
+    if (!host || !host.isEEA || levelOf(host) !== 'Country') {
+        problems.push('The host state must be an EEA member state.');
+    } else if (host.id === home?.id) {
+        problems.push(`${host.name} is the home state; a license cannot be passported into it.`);
+    }
+    if ((passport.status === 'Notified' || passport.status === 'Active') && !passport.notificationDate) {
+        problems.push('A notification date is required once the home regulator has sent the notification.');
+    }
+    if (passport.status === 'Active' && !passport.effectiveDate) problems.push('An active passport needs an effective date.');
+    if (passport.notificationDate && passport.effectiveDate && passport.effectiveDate < passport.notificationDate) {
+        problems.push('The effective date cannot be before the notification date.');
+    }
+    const duplicate = (license.passports || []).some(other =>
+        other.id !== passport.id && other.hostJurisdictionId === passport.hostJurisdictionId && other.mode === passport.mode &&
+        LIVE_STATUSES.includes(other.status) && LIVE_STATUSES.includes(passport.status));
+    if (duplicate && host) problems.push(`This license already has a ${passport.mode} passport into ${host.name}.`);
+    return problems;
+};
+
+const describe = (passport: PassportNotification, jurisdictions: Jurisdiction[]) =>
+    `${passport.mode} passport into ${jurisdictionName(jurisdictions, passport.hostJurisdictionId)}`;
+
+// Adds or updates a passport on its license. Throws with every validation problem if it cannot be saved.
+export const savePassport = (license: License, passport: PassportNotification, jurisdictions: Jurisdiction[], actor: string): PassportChange => {
+    const problems = validatePassport(passport, license, jurisdictions);
+    if (problems.length > 0) throw new Error(problems.join(' '));
+
+    const existing = (license.passports || []).find(entry => entry.id === passport.id);
+    const saved: PassportNotification = { ...passport, id: passport.id || `PPN-${generateId()}`, updatedBy: actor, updatedDate: new Date().toISOString() };
+    const dated = saved.notificationDate ? `, notified ${format(parseISO(saved.notificationDate), 'MMM d, yyyy')}` : '';
+    return {
+        license: {
+            ...license,
+            passports: existing
+                ? (license.passports || []).map(entry => entry.id === saved.id ? saved : entry)
+                : [...(license.passports || []), saved],
+        },
+        auditAction: !existing ? 'Passport Recorded' : existing.status !== saved.status ? 'Passport Status Changed' : 'Passport Updated',
+        auditDetails: existing && existing.status !== saved.status
+            ? `${describe(saved, jurisdictions)}: ${existing.status} -> ${saved.status}${dated}.`
+            : `${describe(saved, jurisdictions)} (${saved.status}${dated}).`,
+    };
+};
+
+export const removePassport = (license: License, passportId: string, jurisdictions: Jurisdiction[]): PassportChange => {
+    const passport = (license.passports || []).find(entry => entry.id === passportId);
+    if (!passport) throw new Error(`Passport ${passportId} not found on "${license.name}".`);
+    return {
+        license: { ...license, passports: (license.passports || []).filter(entry => entry.id !== passportId) },
+        auditAction: 'Passport Removed',
+        auditDetails: `${describe(passport, jurisdictions)} (${passport.status}) removed.`,
+    };
+};
+
+// --- Operating Matrix ---
+// For each member state and license scope: can we operate there today, and on what basis. A local
+// license beats a passport, and a passport that is planned or notified but not yet effective is
+// shown as pending. Licenses that are expired, revoked or suspended give no route at all.
+
+export type OperatingRoute = 'Local License' | 'Passport' | 'Passport Pending' | 'None';
+
+export interface OperatingCell {
+    route: OperatingRoute;
+    licenses: License[]; // The licenses providing the route
+}
+
+export interface PassportMatrixRow {
+    memberState: Jurisdiction;
+    cells: OperatingCell[]; // One per scope, in the matrix's scope order
+}
+
+export interface PassportMatrix {
+    scopes: string[];
+    rows: PassportMatrixRow[];
+}
+
+export const buildPassportMatrix = (licenses: License[], jurisdictions: Jurisdiction[], now: Date = new Date()): PassportMatrix => {
+    const eeaLicenses = licenses
+        .map(license => ({ license, home: homeMemberState(license, jurisdictions) }))
+        .filter((entry): entry is { license: License; home: Jurisdiction } => !!entry.home);
+    const inForce = eeaLicenses.filter(entry => isLicenseInForce(entry.license));
+    const scopes = Array.from(new Set(eeaLicenses.map(entry => entry.license.scope))).sort();
+
+    const cell = (memberStateId: string, scope: string): OperatingCell => {
+        const candidates = inForce.filter(entry => entry.license.scope === scope);
+        const passportsInto = (entry: { license: License }) => (entry.license.passports || []).filter(passport => passport.hostJurisdictionId === memberStateId);
+        const local = candidates.filter(entry => entry.home.id === memberStateId);
+        if (local.length > 0) return { route: 'Local License', licenses: local.map(entry => entry.license) };
+        const passported = candidates.filter(entry => passportsInto(entry).some(passport => isPassportEffective(passport, now)));
+        if (passported.length > 0) return { route: 'Passport', licenses: passported.map(entry => entry.license) };
+        const pending = candidates.filter(entry => passportsInto(entry).some(passport => LIVE_STATUSES.includes(passport.status)));
+        if (pending.length > 0) return { route: 'Passport Pending', licenses: pending.map(entry => entry.license) };
+        return { route: 'None', licenses: [] };
+    };
+
+    return {
+        scopes,
+        rows: eeaMemberStates(jurisdictions).map(memberState => ({ memberState, cells: scopes.map(scope => cell(memberState.id, scope)) })),
+    };
+};
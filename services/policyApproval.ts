@@ -0,0 +1,218 @@
+import { DEFAULT_APPROVAL_CHAIN } from '../data/approvalChain';
+import { ApprovalChain, ApprovalDecision, ApprovalStep, CompliancePolicy, PolicyApprovalRound, User } from '../types';
+import { format, parseISO } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+import { hasPermission } from '../utils/permissions';
+import { auditLogger } from './auditLog';
+import { snapshotOf } from './policyRevisions';
+import { repositories } from './repository';
+
+// --- Policy Approval ---
+// A draft becomes Active only once every step of the approval chain has approved it. Each
+// submission is a round kept on the policy with its decisions; a rejection sends the policy back
+// to Draft, and editing a policy that is under review or active starts it over as a draft. Like
+// the renewal workflow, each step returns the updated policy with the audit entry to save it with.
+
+export interface PolicyApprovalChange {
+    policy: CompliancePolicy;
+    auditAction: string;
+    auditDetails: string;
+}
+
+const CHAIN_ID = 'policy-approval';
+
+// --- Chain Configuration ---
+
+export const loadApprovalChain = async (): Promise<ApprovalStep[]> => {
+    const stored = (await repositories.approvalChains.list()).find(chain => chain.id === CHAIN_ID);
+    return stored?.steps.length ? stored.steps : DEFAULT_APPROVAL_CHAIN;
+};
+
+export const validateApprovalChain = (steps: ApprovalStep[]): string[] => {
+    const problems: string[] = [];
+    if (steps.length === 0) problems.push('The chain needs at least one step.');
+    if (steps.some(step => !step.name.trim())) problems.push('Every step needs a name.');
+    const names = steps.map(step => step.name.trim().toLowerCase()).filter(Boolean);
+    if (new Set(names).size !== names.length) problems.push('Step names must be unique.');
+    steps.filter(step => step.name.trim() && step.approverRoles.length === 0)
+        .forEach(step => problems.push(`"${step.name}" needs at least one role that may approve it.`));
+    // The last approval makes the policy Active, which only roles that may publish policies can do.
+    const last = steps[steps.length - 1];
+    const cannotPublish = last?.approverRoles.filter(role => !hasPermission(role, 'publishPolicy')) || [];
+    if (cannotPublish.length > 0) problems.push(`"${last.name}" makes the policy Active, which ${cannotPublish.join(' and ')} cannot do.`);
+    return problems;
+};
+
+export const describeApprovalChain = (steps: ApprovalStep[]): string => steps
+    .map(step => `${step.name} (${step.approverRoles.join(' or ')}${step.sameDepartment ? ', same department' : ''})`)
+    .join(' -> ');
+
+// Rounds already under way keep the chain they were submitted with. Changes go to the audit log
+// with the steps before and after.
+export const saveApprovalChain = async (steps: ApprovalStep[], actor: string): Promise<ApprovalChain> => {
+    const problems = validateApprovalChain(steps);
+    if (problems.length > 0) throw new Error(problems.join(' '));
+    const chain: ApprovalChain = {
+        id: CHAIN_ID,
+        steps: steps.map(step => ({ ...step, id: step.id || `STEP-${generateId()}`, name: step.name.trim() })),
+        updatedBy: actor,
+        updatedDate: new Date().toISOString(),
+    };
+    const existing = (await repositories.approvalChains.list()).find(stored => stored.id === CHAIN_ID);
+    const saved = existing ? await repositories.approvalChains.update(chain) : await repositories.approvalChains.create(chain);
+
+    const before = existing?.steps.length ? describeApprovalChain(existing.steps) : `${describeApprovalChain(DEFAULT_APPROVAL_CHAIN)} (default)`;
+    const after = describeApprovalChain(saved.steps);
+    if (before !== after) {
+        await auditLogger.record([{
+            entityType: 'ApprovalChain',
+            entityId: CHAIN_ID,
+            entityLabel: 'Policy approval chain',
+            action: existing ? 'Updated' : 'Created',
+            actor,
+            details: `${actor} changed the policy approval chain to ${after}.`,
+            changes: [{ field: 'steps', before, after }],
+        }]);
+    }
+    return saved;
+};
+
+// --- Rounds ---
+
+export const latestRound = (policy: CompliancePolicy): PolicyApprovalRound | undefined =>
+    policy.approvals?.[policy.approvals.length - 1];
+
+export const currentRound = (policy: CompliancePolicy): PolicyApprovalRound | undefined => {
+    const round = latestRound(policy);
+    return policy.status === 'Under Review' && round?.outcome === 'Pending' ? round : undefined;
+};
+
+export const decisionFor = (round: PolicyApprovalRound, step: ApprovalStep): ApprovalDecision | undefined =>
+    round.decisions.find(decision => decision.stepId === step.id);
+
+export const pendingStep = (round: PolicyApprovalRound): ApprovalStep | undefined =>
+    round.outcome === 'Pending' ? round.steps.find(step => !decisionFor(round, step)) : undefined;
+
+// The step a policy under review is waiting on.
+export const awaitingStep = (policy: CompliancePolicy): ApprovalStep | undefined => {
+    const round = currentRound(policy);
+    return round && pendingStep(round);
+};
+
+// Why the user may not decide the step, or undefined if they may. One person decides at most one
+// step per round, so the author cannot also sign off as department head.
+export const approverProblem = (step: ApprovalStep, round: PolicyApprovalRound, policy: CompliancePolicy, user: User): string | undefined => {
+    if (!step.approverRoles.includes(user.role)) return `"${step.name}" is decided by: ${step.approverRoles.join(', ')}.`;
+    if (step.sameDepartment && user.department !== policy.responsibleDepartment) {
+        return `"${step.name}" must be decided by someone in ${policy.responsibleDepartment || 'the responsible department'}.`;
+    }
+    const earlier = round.decisions.find(decision => decision.decidedBy === user.name);
+    if (earlier) return `You already decided "${round.steps.find(other => other.id === earlier.stepId)?.name}" in this round.`;
+    return undefined;
+};
+
+const replaceLatestRound = (policy: CompliancePolicy, round: PolicyApprovalRound): PolicyApprovalRound[] =>
+    [...(policy.approvals || []).slice(0, -1), round];
+
+const stamp = (policy: CompliancePolicy, user: User): CompliancePolicy =>
+    ({ ...policy, lastUpdatedBy: user.name, lastUpdateDate: new Date().toISOString() });
+
+const decide = (policy: CompliancePolicy, round: PolicyApprovalRound, user: User, decision: ApprovalDecision['decision'], comments: string): PolicyApprovalChange => {
+    const step = pendingStep(round);
+    if (!step) throw new Error('Nothing is waiting for a decision on this policy.');
+    const problem = approverProblem(step, round, policy, user);
+    if (problem) throw new Error(problem);
+    if (decision === 'Rejected' && !comments.trim()) throw new Error('Say why the draft is rejected so the author can address it.');
+
+    const decided: PolicyApprovalRound = {
+        ...round,
+        decisions: [...round.decisions, { stepId: step.id, decision, decidedBy: user.name, decidedDate: new Date().toISOString(), comments: comments.trim() }],
+    };
+    const remark = comments.trim() ? `: "${comments.trim()}"` : '';
+
+    if (decision === 'Rejected') {
+        return {
+            policy: stamp({ ...policy, status: 'Draft', approvals: replaceLatestRound(policy, { ...decided, outcome: 'Rejected' }) }, user),
+            auditAction: 'Approval Rejected',
+            auditDetails: `${step.name} (${user.name}) rejected version ${policy.version}${remark}.`,
+        };
+    }
+    if (pendingStep(decided)) {
+        return {
+            policy: stamp({ ...policy, approvals: replaceLatestRound(policy, decided) }, user),
+            auditAction: 'Approval Step Approved',
+            auditDetails: `${step.name} (${user.name}) approved version ${policy.version}${remark}.`,
+        };
+    }
+
+    // Fully approved. The new version cannot be in force before it was approved, and from its
+    // effective date it replaces, and so retires, whichever version was in force before.
+    const now = new Date();
+    const effectiveDate = parseISO(policy.effectiveDate) > now ? policy.effectiveDate : now.toISOString();
+    return {
+        policy: stamp({ ...policy, status: 'Active', effectiveDate, approvals: replaceLatestRound(policy, { ...decided, outcome: 'Approved' }) }, user),
+        auditAction: 'Policy Approved',
+        auditDetails: `${step.name} (${user.name}) gave final approval${remark}. Version ${policy.version} is active from ${format(parseISO(effectiveDate), 'MMM d, yyyy')} and retires the version in force before it.`,
+    };
+};
+
+// Starts a round with the chain as configured now. If the submitter may decide the first step
+// (normally "Author"), submitting counts as their approval of it.
+export const submitForApproval = (policy: CompliancePolicy, steps: ApprovalStep[], user: User, comments: string): PolicyApprovalChange => {
+    if (policy.status !== 'Draft') throw new Error(`Only drafts can be submitted for approval; this policy is ${policy.status}.`);
+    const problems = validateApprovalChain(steps);
+    if (problems.length > 0) throw new Error(`The approval chain is not usable: ${problems.join(' ')}`);
+
+    const round: PolicyApprovalRound = {
+        id: `APR-${generateId()}`,
+        steps,
+        decisions: [],
+        submittedBy: user.name,
+        submittedDate: new Date().toISOString(),
+        outcome: 'Pending',
+    };
+    const submitted: CompliancePolicy = { ...policy, status: 'Under Review', approvals: [...(policy.approvals || []), round] };
+    const submission = {
+        auditAction: 'Submitted for Approval',
+        auditDetails: `${user.name} submitted version ${policy.version} for approval (${steps.map(step => step.name).join(' -> ')}).${comments.trim() ? ` ${comments.trim()}` : ''}`,
+    };
+    if (approverProblem(steps[0], round, policy, user)) return { policy: stamp(submitted, user), ...submission };
+    const change = decide(submitted, round, user, 'Approved', comments);
+    return change.auditAction === 'Policy Approved' ? change : { ...change, ...submission };
+};
+
+export const decideApproval = (policy: CompliancePolicy, user: User, decision: ApprovalDecision['decision'], comments: string): PolicyApprovalChange => {
+    const round = currentRound(policy);
+    if (!round) throw new Error(`"${policy.name}" is not awaiting approval.`);
+    return decide(policy, round, user, decision, comments);
+};
+
+// --- Saving From The Form ---
+
+// Applies the approval rules to a policy saved from the form: status can only be set to Draft or
+// Retired by hand, and changing the content of a policy under review or in force makes it a new
+// draft (the version in force stays in force until the draft is approved). Returns the policy to
+// save and, when the rules changed it, a note for the user.
+export const prepareManualSave = (previous: CompliancePolicy | undefined, next: CompliancePolicy): { policy: CompliancePolicy; notice?: string } => {
+    const was = previous?.status;
+    if (next.status === 'Active' && was !== 'Active') throw new Error('A policy becomes Active only once its draft is fully approved. Save it as a draft and submit it for approval.');
+    if (next.status === 'Under Review' && was !== 'Under Review') throw new Error('Submit the draft for approval to put it under review.');
+
+    const contentChanged = !!previous && JSON.stringify({ ...snapshotOf(previous), status: '' }) !== JSON.stringify({ ...snapshotOf(next), status: '' });
+    const reopened = contentChanged && (next.status === 'Active' || next.status === 'Under Review');
+    const policy: CompliancePolicy = reopened ? { ...next, status: 'Draft' } : next;
+
+    // A round still pending when the policy leaves review is withdrawn, so its approvals cannot be reused.
+    const round = previous && currentRound(previous);
+    const withdrawn = round && policy.status !== 'Under Review'
+        ? { ...policy, approvals: replaceLatestRound(policy, { ...round, outcome: 'Withdrawn' }) }
+        : policy;
+
+    if (!reopened) return { policy: withdrawn };
+    return {
+        policy: withdrawn,
+        notice: was === 'Active'
+            ? `Saved as a draft of the next version; version ${previous?.version} stays in force until the draft is approved.`
+            : 'The draft changed while under review, so it is back in Draft and must be submitted again.',
+    };
+};
@@ -0,0 +1,88 @@
+import { CompliancePolicy, Jurisdiction, License, PolicyRevision } from '../types';
+import { ancestorsOf, IntegrityIssue, jurisdictionName } from './jurisdictionRegistry';
+import { policiesInForceOn } from './policyRevisions';
+
+// --- License-Policy Links ---
+// A link is stored on both sides: License.associatedPolicies and CompliancePolicy.relatedLicenses.
+// The store's linkPolicy/unlinkPolicy actions change both together; these helpers read links from
+// either side and find the ones that have drifted apart.
+
+export interface PolicyLinkSources {
+    licenses: License[];
+    policies: CompliancePolicy[];
+    jurisdictions: Jurisdiction[];
+    policyRevisions: PolicyRevision[];
+}
+
+const AML_KYC_CATEGORIES: CompliancePolicy['category'][] = ['AML', 'KYC'];
+
+// Linked from either side, so a half-made link still shows up (and is completed on save).
+export const policyIdsLinkedToLicense = (license: License, policies: CompliancePolicy[]): string[] =>
+    Array.from(new Set([...license.associatedPolicies, ...policies.filter(pol => pol.relatedLicenses.includes(license.id)).map(pol => pol.id)]));
+
+export const licenseIdsLinkedToPolicy = (policy: CompliancePolicy, licenses: License[]): string[] =>
+    Array.from(new Set([...policy.relatedLicenses, ...licenses.filter(lic => lic.associatedPolicies.includes(policy.id)).map(lic => lic.id)]));
+
+// Whether the policy covers the jurisdiction directly or through a parent, e.g. an EEA-wide policy for Ireland.
+export const policyAppliesIn = (policy: CompliancePolicy, jurisdictionId: string, jurisdictions: Jurisdiction[]): boolean =>
+    [jurisdictionId, ...ancestorsOf(jurisdictions, jurisdictionId).map(jur => jur.id)].some(id => policy.applicableJurisdictions.includes(id));
+
+// --- Consistency Checks ---
+
+// IDs that do not resolve, and links recorded on one side only.
+export const findBrokenPolicyLinks = (sources: Pick<PolicyLinkSources, 'licenses' | 'policies'>): IntegrityIssue[] => {
+    const licenseById = new Map(sources.licenses.map(lic => [lic.id, lic]));
+    const policyById = new Map(sources.policies.map(pol => [pol.id, pol]));
+    return [
+        ...sources.licenses.flatMap(license => license.associatedPolicies.map((policyId): IntegrityIssue | null => {
+            const policy = policyById.get(policyId);
+            if (!policy) return { recordType: 'License', recordId: license.id, label: license.name, problem: `policy ${policyId} does not exist` };
+            if (!policy.relatedLicenses.includes(license.id)) return { recordType: 'License', recordId: license.id, label: license.name, problem: `links "${policy.name}", which does not link back` };
+            return null;
+        })),
+        ...sources.policies.flatMap(policy => policy.relatedLicenses.map((licenseId): IntegrityIssue | null => {
+            const license = licenseById.get(licenseId);
+            if (!license) return { recordType: 'CompliancePolicy', recordId: policy.id, label: policy.name, problem: `license ${licenseId} does not exist` };
+            if (!license.associatedPolicies.includes(policy.id)) return { recordType: 'CompliancePolicy', recordId: policy.id, label: policy.name, problem: `links "${license.name}", which does not link back` };
+            return null;
+        })),
+    ].filter((issue): issue is IntegrityIssue => issue !== null);
+};
+
+// Licenses still in use whose jurisdiction has no AML or KYC policy in force, directly or through a
+// parent. A policy whose next version is still a draft counts with the version in force.
+export const findLicensesWithoutAmlKycPolicy = (sources: PolicyLinkSources, now: Date = new Date()): IntegrityIssue[] => {
+    const amlKyc = policiesInForceOn(sources.policies, sources.policyRevisions, now).filter(pol => AML_KYC_CATEGORIES.includes(pol.category));
+    return sources.licenses
+        .filter(lic => lic.status !== 'Revoked' && lic.status !== 'Expired')
+        .filter(lic => !amlKyc.some(pol => policyAppliesIn(pol, lic.jurisdictionId, sources.jurisdictions)))
+        .map(lic => ({
+            recordType: 'License' as const,
+            recordId: lic.id,
+            label: lic.name,
+            problem: `no AML/KYC policy in force applies in ${jurisdictionName(sources.jurisdictions, lic.jurisdictionId)}`,
+        }));
+};
+
+// Drops IDs that do not resolve and completes one-sided links, returning only the records that change.
+export const repairPolicyLinks = (sources: Pick<PolicyLinkSources, 'licenses' | 'policies'>): { licenses: License[]; policies: CompliancePolicy[] } => {
+    const licenseIds = new Set(sources.licenses.map(lic => lic.id));
+    const policyIds = new Set(sources.policies.map(pol => pol.id));
+    const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+    const licenses = sources.licenses
+        .map(license => ({
+            license,
+            associatedPolicies: policyIdsLinkedToLicense(license, sources.policies).filter(id => policyIds.has(id)),
+        }))
+        .filter(entry => !sameIds(entry.associatedPolicies, entry.license.associatedPolicies))
+        .map(entry => ({ ...entry.license, associatedPolicies: entry.associatedPolicies }));
+    const policies = sources.policies
+        .map(policy => ({
+            policy,
+            relatedLicenses: licenseIdsLinkedToPolicy(policy, sources.licenses).filter(id => licenseIds.has(id)),
+        }))
+        .filter(entry => !sameIds(entry.relatedLicenses, entry.policy.relatedLicenses))
+        .map(entry => ({ ...entry.policy, relatedLicenses: entry.relatedLicenses }));
+    return { licenses, policies };
+};
@@ -0,0 +1,163 @@
+import { CompliancePolicy, Jurisdiction, PolicyRevision, PolicySnapshot } from '../types';
+import { format, parseISO } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+import { jurisdictionName } from './jurisdictionRegistry';
+import { repositories, Repository } from './repository';
+
+// --- Policy Revisions ---
+// Policies are edited in place; every save that changes a policy's content or status also appends
+// a snapshot here. Revisions are only ever created, so the history survives later edits and deletes.
+
+export interface PolicyRevisionLog {
+    // Returns the new revision, or undefined when nothing that a revision keeps has changed.
+    record: (policy: CompliancePolicy, previous: CompliancePolicy | undefined, actor: string, note?: string) => Promise<PolicyRevision | undefined>;
+    listFor: (policyId: string) => Promise<PolicyRevision[]>;
+}
+
+export const snapshotOf = (policy: CompliancePolicy): PolicySnapshot => ({
+    name: policy.name,
+    description: policy.description,
+    category: policy.category,
+    version: policy.version,
+    effectiveDate: policy.effectiveDate,
+    reviewDate: policy.reviewDate,
+    documents: policy.documents,
+    applicableJurisdictions: policy.applicableJurisdictions,
+    responsibleDepartment: policy.responsibleDepartment,
+    status: policy.status,
+});
+
+const sameSnapshot = (a: PolicySnapshot, b: PolicySnapshot) => JSON.stringify(a) === JSON.stringify(b);
+
+// Appends are queued so two quick saves of one policy cannot get the same revision number.
+export const createPolicyRevisionLog = (repository: Repository<PolicyRevision>): PolicyRevisionLog => {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const listFor = async (policyId: string) =>
+        (await repository.list()).filter(rev => rev.policyId === policyId).sort((a, b) => a.revisionNumber - b.revisionNumber);
+
+    const record = (policy: CompliancePolicy, previous: CompliancePolicy | undefined, actor: string, note?: string) => {
+        const run = queue.then(async () => {
+            const existing = await listFor(policy.id);
+            let last = existing[existing.length - 1];
+            // Policies saved before history was kept get their prior state as revision 1.
+            if (!last && previous && !sameSnapshot(snapshotOf(previous), snapshotOf(policy))) {
+                last = await repository.create({
+                    id: `REV-${generateId()}`,
+                    policyId: policy.id,
+                    revisionNumber: 1,
+                    savedBy: previous.lastUpdatedBy,
+                    savedDate: previous.lastUpdateDate,
+                    note: 'State before version history was kept.',
+                    snapshot: snapshotOf(previous),
+                });
+            }
+            if (last && sameSnapshot(last.snapshot, snapshotOf(policy))) return undefined;
+            return repository.create({
+                id: `REV-${generateId()}`,
+                policyId: policy.id,
+                revisionNumber: (last?.revisionNumber || 0) + 1,
+                savedBy: actor,
+                savedDate: new Date().toISOString(),
+                ...(note ? { note } : {}),
+                snapshot: snapshotOf(policy),
+            });
+        });
+        queue = run.catch(() => undefined);
+        return run;
+    };
+
+    return { record, listFor };
+};
+
+export const policyRevisionLog = createPolicyRevisionLog(repositories.policyRevisions);
+
+// --- In Force On A Date ---
+// An Active revision is in force from its effective date until a later one takes over or the
+// policy is retired. A revision saved later with the same effective date corrects the earlier one.
+// Retiring takes effect the day it is saved; drafts and reviews leave the published text in force.
+
+export interface InForcePeriod {
+    revision: PolicyRevision;
+    from: string; // ISO string
+    until?: string; // ISO string; open-ended while still in force
+}
+
+export const inForcePeriods = (revisions: PolicyRevision[]): InForcePeriod[] => {
+    const events: { at: number; revisionNumber: number; revision?: PolicyRevision }[] = [];
+    let retiredAt = -Infinity;
+    [...revisions].sort((a, b) => a.revisionNumber - b.revisionNumber).forEach(revision => {
+        if (revision.snapshot.status === 'Retired') {
+            retiredAt = parseISO(revision.savedDate).getTime();
+            events.push({ at: retiredAt, revisionNumber: revision.revisionNumber });
+        } else if (revision.snapshot.status === 'Active') {
+            // Reactivating a retired policy does not reach back past the retirement.
+            events.push({ at: Math.max(parseISO(revision.snapshot.effectiveDate).getTime(), retiredAt), revisionNumber: revision.revisionNumber, revision });
+        }
+    });
+    events.sort((a, b) => a.at - b.at || a.revisionNumber - b.revisionNumber);
+
+    const periods: InForcePeriod[] = [];
+    events.forEach((event, i) => {
+        if (!event.revision) return;
+        const next = events[i + 1];
+        // Superseded on the same day it took effect: it was never the version in force.
+        if (next && next.at === event.at) return;
+        periods.push({ revision: event.revision, from: new Date(event.at).toISOString(), until: next ? new Date(next.at).toISOString() : undefined });
+    });
+    return periods;
+};
+
+export const revisionInForceOn = (revisions: PolicyRevision[], date: Date): PolicyRevision | undefined =>
+    inForcePeriods(revisions).find(period => parseISO(period.from) <= date && (!period.until || date < parseISO(period.until)))?.revision;
+
+// The policy with the content of its version in force on the date, or undefined if none was. An
+// edited policy is a Draft until approved while its approved version stays in force, so gap checks,
+// attestations and the like should use this rather than the record's status. Policies saved before
+// history was kept have no revisions and go by their status.
+export const policyInForceOn = (policy: CompliancePolicy, revisions: PolicyRevision[], date: Date = new Date()): CompliancePolicy | undefined => {
+    const own = revisions.filter(rev => rev.policyId === policy.id);
+    if (own.length === 0) return policy.status === 'Active' ? policy : undefined;
+    const revision = revisionInForceOn(own, date);
+    return revision && { ...policy, ...revision.snapshot };
+};
+
+export const policiesInForceOn = (policies: CompliancePolicy[], revisions: PolicyRevision[], date: Date = new Date()): CompliancePolicy[] => {
+    const byPolicy = new Map<string, PolicyRevision[]>();
+    revisions.forEach(rev => byPolicy.set(rev.policyId, [...(byPolicy.get(rev.policyId) || []), rev]));
+    return policies
+        .map(policy => policyInForceOn(policy, byPolicy.get(policy.id) || [], date))
+        .filter((policy): policy is CompliancePolicy => policy !== undefined);
+};
+
+// --- Comparing Revisions ---
+
+// A revision as lines of text, so two revisions can be diffed line by line.
+export const revisionLines = (revision: PolicyRevision, jurisdictions: Jurisdiction[]): string[] => {
+    const { snapshot } = revision;
+    return [
+        `Name: ${snapshot.name}`,
+        `Version: ${snapshot.version}`,
+        `Status: ${snapshot.status}`,
+        `Category: ${snapshot.category}`,
+        `Responsible department: ${snapshot.responsibleDepartment}`,
+        `Effective: ${format(parseISO(snapshot.effectiveDate), 'MMM d, yyyy')}`,
+        `Review: ${format(parseISO(snapshot.reviewDate), 'MMM d, yyyy')}`,
+        `Jurisdictions: ${snapshot.applicableJurisdictions.map(id => jurisdictionName(jurisdictions, id)).join(', ') || '(none)'}`,
+        `Documents: ${snapshot.documents.map(doc => doc.name).join(', ') || '(none)'}`,
+        '',
+        ...snapshot.description.split('\n'),
+    ];
+};
+
+// The policy with a revision's content, back in Draft so it goes through review again.
+export const restoreRevisionAsDraft = (policy: CompliancePolicy, revision: PolicyRevision, actor: string): CompliancePolicy => {
+    if (revision.policyId !== policy.id) throw new Error(`Revision ${revision.revisionNumber} belongs to a different policy.`);
+    return {
+        ...policy,
+        ...revision.snapshot,
+        status: 'Draft',
+        lastUpdatedBy: actor,
+        lastUpdateDate: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,147 @@
+import { Jurisdiction, License, LicenseDocument, RegulatoryFiling, RegulatoryUpdate, Regulator } from '../types';
+import { addMonths, parseISO } from '../utils/dateUtils';
+import { ancestorsOf, IntegrityIssue } from './jurisdictionRegistry';
+
+// --- Regulator Directory ---
+// Regulators are records of their own. Licenses, regulatory updates, correspondence and
+// jurisdictions point at them by ID; the free-text names on those records are for display only.
+
+export interface RegulatorSources {
+    regulators: Regulator[];
+    jurisdictions: Jurisdiction[];
+    licenses: License[];
+    regulatoryUpdates: RegulatoryUpdate[];
+}
+
+export interface RegulatorCorrespondence {
+    license: License;
+    document: LicenseDocument;
+}
+
+// "Everything we have with" one regulator.
+export interface RegulatorDossier {
+    regulator: Regulator;
+    jurisdictions: Jurisdiction[];
+    licenses: License[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    correspondence: RegulatorCorrespondence[]; // Newest first
+    filings: RegulatoryFiling[]; // Soonest first
+}
+
+export const resolveRegulator = (regulators: Regulator[], id: string | undefined): Regulator | undefined =>
+    id ? regulators.find(reg => reg.id === id) : undefined;
+
+// Matches "FCA" or "Financial Conduct Authority"; used for records saved before the directory existed.
+export const findRegulatorByName = (regulators: Regulator[], name: string): Regulator | undefined => {
+    const wanted = name.trim().toLowerCase();
+    return wanted ? regulators.find(reg => reg.shortName.toLowerCase() === wanted || reg.name.toLowerCase() === wanted) : undefined;
+};
+
+export const licenseRegulator = (license: License, regulators: Regulator[]): Regulator | undefined =>
+    license.regulatorId ? resolveRegulator(regulators, license.regulatorId) : findRegulatorByName(regulators, license.regulatoryBody);
+
+export const updateRegulator = (update: RegulatoryUpdate, regulators: Regulator[]): Regulator | undefined =>
+    update.regulatorId ? resolveRegulator(regulators, update.regulatorId) : findRegulatorByName(regulators, update.source);
+
+// Correspondence with no regulator of its own is taken to be with the license's regulator.
+export const correspondenceRegulator = (license: License, document: LicenseDocument, regulators: Regulator[]): Regulator | undefined =>
+    document.regulatorId ? resolveRegulator(regulators, document.regulatorId) : licenseRegulator(license, regulators);
+
+// Regulators supervising the jurisdiction directly or through a parent, e.g. FinCEN for California.
+export const regulatorsCovering = (regulators: Regulator[], jurisdictions: Jurisdiction[], jurisdictionId: string): Regulator[] => {
+    const direct = regulators.filter(reg => reg.jurisdictionIds.includes(jurisdictionId));
+    const inherited = ancestorsOf(jurisdictions, jurisdictionId)
+        .flatMap(parent => regulators.filter(reg => reg.jurisdictionIds.includes(parent.id)))
+        .filter(reg => !direct.includes(reg));
+    return [...direct, ...inherited];
+};
+
+export const buildRegulatorDossier = (regulator: Regulator, sources: RegulatorSources): RegulatorDossier => {
+    const isThis = (candidate: Regulator | undefined) => candidate?.id === regulator.id;
+    return {
+        regulator,
+        jurisdictions: sources.jurisdictions.filter(jur => regulator.jurisdictionIds.includes(jur.id)),
+        licenses: sources.licenses.filter(lic => isThis(licenseRegulator(lic, sources.regulators))),
+        regulatoryUpdates: sources.regulatoryUpdates
+            .filter(upd => isThis(updateRegulator(upd, sources.regulators)))
+            .sort((a, b) => b.publicationDate.localeCompare(a.publicationDate)),
+        correspondence: sources.licenses
+            .flatMap(license => license.documents
+                .filter(document => document.type === 'Correspondence' && isThis(correspondenceRegulator(license, document, sources.regulators)))
+                .map(document => ({ license, document })))
+            .sort((a, b) => b.document.uploadDate.localeCompare(a.document.uploadDate)),
+        filings: [...regulator.filings].sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate)),
+    };
+};
+
+// --- Filing Calendar ---
+const MONTHS_BETWEEN_FILINGS: Record<RegulatoryFiling['frequency'], number> = {
+    'Monthly': 1,
+    'Quarterly': 3,
+    'Semi-Annual': 6,
+    'Annual': 12,
+    'One-off': 0,
+};
+
+// Records a submission and rolls a recurring filing on to its next due date. One-off filings are
+// done once submitted, so they come back as undefined for the caller to drop.
+export const submitFiling = (filing: RegulatoryFiling, now: Date = new Date()): RegulatoryFiling | undefined => {
+    const months = MONTHS_BETWEEN_FILINGS[filing.frequency];
+    if (months === 0) return undefined;
+    return { ...filing, nextDueDate: addMonths(parseISO(filing.nextDueDate), months).toISOString(), lastSubmittedDate: now.toISOString() };
+};
+
+// --- Validation & Referential Integrity ---
+
+export const validateRegulator = (regulator: Regulator, regulators: Regulator[], jurisdictions: Jurisdiction[]): string[] => {
+    const problems: string[] = [];
+    const others = regulators.filter(reg => reg.id !== regulator.id);
+    if (!regulator.shortName.trim()) problems.push('Short name is required.');
+    if (!regulator.name.trim()) problems.push('Full name is required.');
+    if (others.some(reg => reg.shortName.trim().toLowerCase() === regulator.shortName.trim().toLowerCase())) {
+        problems.push(`Another regulator is already called "${regulator.shortName}".`);
+    }
+    const unknown = regulator.jurisdictionIds.filter(id => !jurisdictions.some(jur => jur.id === id));
+    if (unknown.length > 0) problems.push(`Unknown jurisdiction(s): ${unknown.join(', ')}.`);
+    regulator.contacts.forEach(contact => {
+        if (!contact.name.trim() || !/^\S+@\S+\.\S+$/.test(contact.email)) problems.push(`Contact "${contact.name || contact.email}" needs a name and a valid email.`);
+    });
+    regulator.portals.forEach(portal => {
+        if (!portal.name.trim() || !/^https?:\/\//.test(portal.url)) problems.push(`Portal "${portal.name || portal.url}" needs a name and an http(s) URL.`);
+    });
+    regulator.filings.forEach(filing => {
+        if (!filing.name.trim() || isNaN(parseISO(filing.nextDueDate).getTime())) problems.push(`Filing "${filing.name}" needs a name and a due date.`);
+        if (filing.portalId && !regulator.portals.some(portal => portal.id === filing.portalId)) problems.push(`Filing "${filing.name}" uses a portal that is not listed.`);
+    });
+    return problems;
+};
+
+export const countRegulatorReferences = (id: string, sources: RegulatorSources): number =>
+    sources.jurisdictions.filter(jur => jur.primaryRegulatorId === id).length +
+    sources.licenses.filter(lic => lic.regulatorId === id).length +
+    sources.licenses.flatMap(lic => lic.documents).filter(doc => doc.regulatorId === id).length +
+    sources.regulatoryUpdates.filter(upd => upd.regulatorId === id).length;
+
+export const assertRegulatorDeletable = (id: string, sources: RegulatorSources): void => {
+    const count = countRegulatorReferences(id, sources);
+    if (count > 0) {
+        const name = resolveRegulator(sources.regulators, id)?.shortName || id;
+        throw new Error(`${name} is still linked from ${count} jurisdiction(s), license(s), document(s) or regulatory update(s).`);
+    }
+};
+
+// Regulator IDs anywhere in the store that do not resolve.
+export const findDanglingRegulatorReferences = (sources: RegulatorSources): IntegrityIssue[] => {
+    const known = new Set(sources.regulators.map(reg => reg.id));
+    const dangling = (id: string | undefined): id is string => !!id && !known.has(id);
+    return [
+        ...sources.jurisdictions.filter(jur => dangling(jur.primaryRegulatorId))
+            .map(jur => ({ recordType: 'Jurisdiction' as const, recordId: jur.id, label: jur.name, problem: `primary regulator ${jur.primaryRegulatorId} does not exist` })),
+        ...sources.licenses.filter(lic => dangling(lic.regulatorId))
+            .map(lic => ({ recordType: 'License' as const, recordId: lic.id, label: lic.name, problem: `regulator ${lic.regulatorId} does not exist` })),
+        ...sources.licenses.flatMap(lic => lic.documents.filter(doc => dangling(doc.regulatorId))
+            .map(doc => ({ recordType: 'License' as const, recordId: lic.id, label: lic.name, problem: `document "${doc.name}" names regulator ${doc.regulatorId}, which does not exist` }))),
+        ...sources.regulatoryUpdates.filter(upd => dangling(upd.regulatorId))
+            .map(upd => ({ recordType: 'RegulatoryUpdate' as const, recordId: upd.id, label: upd.title, problem: `regulator ${upd.regulatorId} does not exist` })),
+    ];
+};
@@ -0,0 +1,141 @@
+import {
+    AttestationCampaign, CompliancePolicy, License, RecordLink, RegulatoryUpdate, ReminderCategory, ReminderPreferences, User
+} from '../types';
+import { addDays, format, isSameDay, parseISO } from '../utils/dateUtils';
+
+// --- Reminder Engine ---
+// Works out what each user should be reminded about. Pure functions only: delivery lives in
+// ./notificationChannels and scheduling in context/NotificationContext.
+
+export const REMINDER_CATEGORIES: ReminderCategory[] = ['Renewal Reminder', 'Overdue Action Item', 'Policy Review Overdue', 'High Severity Update', 'Attestation Due'];
+
+// High-severity updates published within this many days count as new for a user's first digest.
+const NEW_UPDATE_WINDOW_DAYS = 7;
+
+export interface ReminderItem {
+    category: ReminderCategory;
+    title: string;
+    detail: string;
+    link: RecordLink;
+    owner: string;
+}
+
+export interface ReminderDigest {
+    user: User;
+    generatedDate: string; // ISO string
+    subject: string;
+    text: string; // Plain-text rendering for email and logs
+    items: ReminderItem[];
+}
+
+export interface ReminderSources {
+    licenses: License[];
+    policies: CompliancePolicy[];
+    regulatoryUpdates: RegulatoryUpdate[];
+    attestationCampaigns: AttestationCampaign[];
+}
+
+export const defaultReminderPreferences = (userId: string): ReminderPreferences => ({
+    id: userId,
+    userId,
+    channels: ['In-App'],
+    categories: [...REMINDER_CATEGORIES],
+    renewalLeadDays: 30,
+    onlyAssignedToMe: false,
+});
+
+const formatDate = (iso: string) => format(parseISO(iso), 'MMM d, yyyy');
+
+// Owners are free text across the app: a person's name on licenses and action items, a department on policies.
+const isMine = (owner: string, user: User) => owner === user.name || owner === user.department || owner === user.id;
+
+export const collectReminders = (sources: ReminderSources, user: User, preferences: ReminderPreferences, now: Date = new Date()): ReminderItem[] => {
+    const items: ReminderItem[] = [];
+    const wants = (category: ReminderCategory) => preferences.categories.includes(category);
+
+    if (wants('Renewal Reminder')) {
+        const horizon = addDays(now, preferences.renewalLeadDays);
+        sources.licenses
+            .filter(lic => ['Active', 'Pending Renewal'].includes(lic.status) && lic.nextRenewalReminderDate && parseISO(lic.nextRenewalReminderDate) <= horizon)
+            .forEach(lic => items.push({
+                category: 'Renewal Reminder',
+                title: `${lic.name} is due for renewal`,
+                detail: `Renewal reminder ${formatDate(lic.nextRenewalReminderDate)}; expires ${formatDate(lic.expiryDate)}.`,
+                link: { type: 'license', id: lic.id },
+                owner: lic.contactPerson,
+            }));
+    }
+
+    if (wants('Overdue Action Item')) {
+        sources.regulatoryUpdates.forEach(upd => upd.actionItems
+            .filter(item => item.status !== 'Completed' && item.dueDate && parseISO(item.dueDate) < now)
+            .forEach(item => items.push({
+                category: 'Overdue Action Item',
+                title: `Overdue: ${item.description}`,
+                detail: `Due ${formatDate(item.dueDate)} for "${upd.title}" (${item.status}).`,
+                link: { type: 'regulatoryUpdate', id: upd.id },
+                owner: item.assignedTo,
+            })));
+    }
+
+    if (wants('Policy Review Overdue')) {
+        sources.policies
+            .filter(pol => pol.status !== 'Retired' && pol.reviewDate && parseISO(pol.reviewDate) < now)
+            .forEach(pol => items.push({
+                category: 'Policy Review Overdue',
+                title: `${pol.name} is past its review date`,
+                detail: `Review was due ${formatDate(pol.reviewDate)}.`,
+                link: { type: 'policy', id: pol.id },
+                owner: pol.responsibleDepartment,
+            }));
+    }
+
+    if (wants('High Severity Update')) {
+        // "New" means published since the user's last digest, so each update is announced once.
+        const since = preferences.lastDigestDate ? parseISO(preferences.lastDigestDate) : addDays(now, -NEW_UPDATE_WINDOW_DAYS);
+        sources.regulatoryUpdates
+            .filter(upd => upd.severity === 'High' && upd.status === 'New' && parseISO(upd.publicationDate) > since)
+            .forEach(upd => items.push({
+                category: 'High Severity Update',
+                title: `New high-severity update: ${upd.title}`,
+                detail: `Published by ${upd.source} on ${formatDate(upd.publicationDate)}.`,
+                link: { type: 'regulatoryUpdate', id: upd.id },
+                owner: upd.assignedTo,
+            }));
+    }
+
+    if (wants('Attestation Due')) {
+        // Only ever the user's own: nobody else can acknowledge for them.
+        sources.attestationCampaigns
+            .filter(campaign => campaign.status === 'Open' && campaign.assignments.some(entry => entry.userId === user.id && !entry.acknowledgedDate))
+            .forEach(campaign => items.push(attestationReminder(campaign, user, now)));
+    }
+
+    return preferences.onlyAssignedToMe ? items.filter(item => isMine(item.owner, user)) : items;
+};
+
+// Also sent on its own when a compliance officer chases outstanding attestations.
+export const attestationReminder = (campaign: AttestationCampaign, user: User, now: Date = new Date()): ReminderItem => ({
+    category: 'Attestation Due',
+    title: `Please acknowledge ${campaign.policyName} v${campaign.policyVersion}`,
+    detail: `${parseISO(campaign.dueDate) < now ? 'Was due' : 'Due'} ${formatDate(campaign.dueDate)} for "${campaign.name}".`,
+    link: { type: 'policy', id: campaign.policyId },
+    owner: user.name,
+});
+
+export const buildDigest = (user: User, items: ReminderItem[], now: Date = new Date()): ReminderDigest => {
+    const sections = REMINDER_CATEGORIES
+        .map(category => ({ category, entries: items.filter(item => item.category === category) }))
+        .filter(section => section.entries.length > 0)
+        .map(section => [`${section.category} (${section.entries.length})`, ...section.entries.map(item => `- ${item.title}: ${item.detail}`)].join('\n'));
+    return {
+        user,
+        generatedDate: now.toISOString(),
+        subject: `Compliance digest for ${format(now, 'MMM d, yyyy')}: ${items.length} item(s)`,
+        text: [`Hello ${user.name},`, '', ...sections.flatMap(section => [section, ''])].join('\n').trimEnd(),
+        items,
+    };
+};
+
+export const isDigestDue = (preferences: ReminderPreferences, now: Date = new Date()): boolean =>
+    !preferences.lastDigestDate || !isSameDay(parseISO(preferences.lastDigestDate), now);
@@ -0,0 +1,166 @@
+import { Jurisdiction, License, LicenseRenewal, RenewalStage, RenewalStageName } from '../types';
+import { commonRenewalRequirements, RENEWAL_STAGES, renewalRequirementsByCountry } from '../data/renewalRequirements';
+import { generateId } from '../utils/idUtils';
+import { addDays, addMonths, format, parseISO } from '../utils/dateUtils';
+import { computeLicenseStatus } from '../utils/licenseStatus';
+
+// Reminders fire this many months before the new expiry, matching the dashboard's renewal window.
+const RENEWAL_REMINDER_MONTHS = 3;
+
+// Every step returns the updated license plus the history entry to record with it, so callers
+// can hand both straight to the store's update action.
+export interface RenewalChange {
+    license: License;
+    auditAction: string;
+    auditDetails: string;
+}
+
+export const getActiveRenewal = (license: License): LicenseRenewal | undefined =>
+    (license.renewals || []).find(renewal => renewal.status === 'In Progress');
+
+const requireActiveRenewal = (license: License): LicenseRenewal => {
+    const renewal = getActiveRenewal(license);
+    if (!renewal) throw new Error(`License "${license.name}" has no renewal in progress.`);
+    return renewal;
+};
+
+const withRenewal = (license: License, renewal: LicenseRenewal): License => ({
+    ...license,
+    renewals: (license.renewals || []).map(existing => existing.id === renewal.id ? renewal : existing),
+});
+
+const formatDate = (iso: string) => format(parseISO(iso), 'MMM d, yyyy');
+
+export const openRenewal = (license: License, jurisdiction: Jurisdiction | undefined, openedBy: string): RenewalChange => {
+    if (getActiveRenewal(license)) throw new Error(`A renewal is already in progress for "${license.name}".`);
+
+    const deadline = parseISO(license.expiryDate);
+    const owner = license.contactPerson || openedBy;
+    const stages: RenewalStage[] = RENEWAL_STAGES.map((stage, index) => ({
+        name: stage.name,
+        owner,
+        dueDate: addDays(deadline, -stage.daysBeforeDeadline).toISOString(),
+        status: index === 0 ? 'In Progress' : 'Pending',
+    }));
+    const requirements = [...commonRenewalRequirements, ...(jurisdiction ? renewalRequirementsByCountry[jurisdiction.countryCode] || [] : [])];
+    const renewal: LicenseRenewal = {
+        id: `REN-${generateId()}`,
+        status: 'In Progress',
+        openedBy,
+        openedDate: new Date().toISOString(),
+        deadline: license.expiryDate,
+        stages,
+        checklist: requirements.map(requirement => ({
+            ...requirement,
+            id: generateId(),
+            description: requirement.description.replace('{regulator}', license.regulatoryBody),
+            done: false,
+        })),
+    };
+
+    const opened = { ...license, renewals: [renewal, ...(license.renewals || [])] };
+    return {
+        license: { ...opened, status: computeLicenseStatus(opened) },
+        auditAction: 'Renewal Opened',
+        auditDetails: `Renewal opened with ${renewal.checklist.length} checklist items; deadline ${formatDate(renewal.deadline)}.`,
+    };
+};
+
+export const assignStageOwner = (license: License, stageName: RenewalStageName, owner: string): RenewalChange => {
+    const renewal = requireActiveRenewal(license);
+    return {
+        license: withRenewal(license, { ...renewal, stages: renewal.stages.map(stage => stage.name === stageName ? { ...stage, owner } : stage) }),
+        auditAction: 'Renewal Stage Assigned',
+        auditDetails: `${stageName} assigned to ${owner}.`,
+    };
+};
+
+export const setChecklistItemDone = (license: License, itemId: string, done: boolean, actor: string): RenewalChange => {
+    const renewal = requireActiveRenewal(license);
+    const item = renewal.checklist.find(entry => entry.id === itemId);
+    if (!item) throw new Error(`Checklist item ${itemId} not found.`);
+    const now = new Date().toISOString();
+    return {
+        license: withRenewal(license, {
+            ...renewal,
+            checklist: renewal.checklist.map(entry => entry.id === itemId
+                ? { ...entry, done, completedBy: done ? actor : undefined, completedDate: done ? now : undefined }
+                : entry),
+        }),
+        auditAction: done ? 'Renewal Item Completed' : 'Renewal Item Reopened',
+        auditDetails: `${item.kind}: ${item.description}.`,
+    };
+};
+
+// Completes the stage in progress and starts the next one. A stage cannot close while any of its
+// required checklist items are outstanding, and the final stage closes only through completeRenewal.
+export const completeStage = (license: License, actor: string): RenewalChange => {
+    const renewal = requireActiveRenewal(license);
+    const index = renewal.stages.findIndex(stage => stage.status === 'In Progress');
+    if (index === -1 || index === renewal.stages.length - 1) {
+        throw new Error('The final stage is completed by completing the renewal.');
+    }
+    const stage = renewal.stages[index];
+    const outstanding = renewal.checklist.filter(item => item.stage === stage.name && item.required && !item.done);
+    if (outstanding.length > 0) {
+        throw new Error(`${stage.name} has ${outstanding.length} required item(s) outstanding: ${outstanding.map(item => item.description).join('; ')}.`);
+    }
+    const now = new Date().toISOString();
+    const stages = renewal.stages.map((entry, i): RenewalStage =>
+        i === index ? { ...entry, status: 'Completed', completedDate: now, completedBy: actor }
+            : i === index + 1 ? { ...entry, status: 'In Progress' }
+            : entry);
+    return {
+        license: withRenewal(license, { ...renewal, stages }),
+        auditAction: 'Renewal Stage Completed',
+        auditDetails: `${stage.name} completed; ${stages[index + 1].name} started (owner ${stages[index + 1].owner}).`,
+    };
+};
+
+// Rolls the license forward one renewal period from its current expiry, keeping the cadence even
+// when a renewal is approved early or late. A license that has already lapsed runs from the day the
+// renewal completes instead, so it does not come back still expired.
+export const completeRenewal = (license: License, actor: string): RenewalChange => {
+    const renewal = requireActiveRenewal(license);
+    const finalStage = renewal.stages[renewal.stages.length - 1];
+    if (finalStage.status !== 'In Progress') {
+        throw new Error(`Complete the earlier stages before finishing ${finalStage.name}.`);
+    }
+    if (!(license.renewalFrequencyMonths > 0)) {
+        throw new Error(`License "${license.name}" has no renewal frequency set.`);
+    }
+    const now = new Date();
+    const oldExpiry = parseISO(license.expiryDate);
+    const lapsed = oldExpiry < now;
+    const newExpiry = addMonths(lapsed ? now : oldExpiry, license.renewalFrequencyMonths);
+    const completed: LicenseRenewal = {
+        ...renewal,
+        status: 'Completed',
+        stages: renewal.stages.map(stage => stage.status === 'In Progress' ? { ...stage, status: 'Completed', completedDate: now.toISOString(), completedBy: actor } : stage),
+        closedDate: now.toISOString(),
+        closedBy: actor,
+        newExpiryDate: newExpiry.toISOString(),
+    };
+    const renewed: License = {
+        ...withRenewal(license, completed),
+        expiryDate: newExpiry.toISOString(),
+        lastRenewalDate: now.toISOString(),
+        nextRenewalReminderDate: addMonths(newExpiry, -RENEWAL_REMINDER_MONTHS).toISOString(),
+    };
+    return {
+        license: { ...renewed, status: computeLicenseStatus(renewed, now) },
+        auditAction: 'Renewal Completed',
+        auditDetails: `Renewed for ${license.renewalFrequencyMonths} months${lapsed ? ' from the completion date, as the license had lapsed' : ''}; expiry moved from ${formatDate(license.expiryDate)} to ${formatDate(newExpiry.toISOString())}.`,
+    };
+};
+
+export const cancelRenewal = (license: License, actor: string, reason: string): RenewalChange => {
+    const renewal = requireActiveRenewal(license);
+    const cancelled = withRenewal(license, { ...renewal, status: 'Cancelled', closedDate: new Date().toISOString(), closedBy: actor });
+    return {
+        // Without the open renewal the license falls back to whatever its dates call for.
+        license: { ...cancelled, status: computeLicenseStatus(cancelled) },
+        auditAction: 'Renewal Cancelled',
+        auditDetails: reason.trim() ? `Renewal cancelled: ${reason.trim()}` : 'Renewal cancelled.',
+    };
+};
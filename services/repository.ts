@@ -0,0 +1,100 @@
+import {
+    License, CompliancePolicy, RegulatoryUpdate, ComplianceCheckResult, RiskAssessment, Jurisdiction, Regulator, AuditLogEntry,
+    InboxNotification, ReminderPreferences, PolicyRevision, ApprovalChain, AttestationCampaign, RegulatoryFeed
+} from '../types';
+import {
+    mockLicenses, mockCompliancePolicies, mockRegulatoryUpdates, mockComplianceCheckHistory,
+    mockRiskAssessments, mockJurisdictions, mockRegulators, mockPolicyRevisions, mockAttestationCampaigns, mockRegulatoryFeeds
+} from '../data/mockData';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createRestRepository } from './restRepository';
+
+// --- Repository Abstraction ---
+// Every top-level entity in types.ts is stored through one of these. Nested records
+// (documents, audit entries, action items, risk items) travel with their parent.
+export interface Repository<T extends { id: string }> {
+    list: () => Promise<T[]>;
+    get: (id: string) => Promise<T | undefined>;
+    create: (item: T) => Promise<T>;
+    update: (item: T) => Promise<T>;
+    remove: (id: string) => Promise<void>;
+}
+
+export interface Repositories {
+    licenses: Repository<License>;
+    policies: Repository<CompliancePolicy>;
+    regulatoryUpdates: Repository<RegulatoryUpdate>;
+    complianceChecks: Repository<ComplianceCheckResult>;
+    riskAssessments: Repository<RiskAssessment>;
+    jurisdictions: Repository<Jurisdiction>;
+    regulators: Repository<Regulator>;
+    attestationCampaigns: Repository<AttestationCampaign>;
+    // Deleted licenses are moved here with their audit trail rather than discarded.
+    archivedLicenses: Repository<License>;
+    // Append-only, hash-chained change log for every entity type (see services/auditLog).
+    auditLog: Repository<AuditLogEntry>;
+    // Append-only snapshots of every saved policy version (see services/policyRevisions).
+    policyRevisions: Repository<PolicyRevision>;
+    // Who approves policy drafts, in order (see services/policyApproval).
+    approvalChains: Repository<ApprovalChain>;
+    // Regulator feeds polled for new regulatory updates (see services/feedIngestion).
+    regulatoryFeeds: Repository<RegulatoryFeed>;
+    // Per-user reminder settings and in-app inbox (see services/reminderEngine).
+    reminderPreferences: Repository<ReminderPreferences>;
+    notifications: Repository<InboxNotification>;
+}
+
+export type PersistenceBackend = 'local' | 'rest';
+
+export interface PersistenceConfig {
+    backend: PersistenceBackend;
+    apiBaseUrl: string; // Only used by the REST backend
+}
+
+export const persistenceConfig: PersistenceConfig = {
+    backend: process.env.PERSISTENCE_BACKEND === 'rest' ? 'rest' : 'local',
+    apiBaseUrl: process.env.API_BASE_URL || 'http://localhost:4000/api',
+};
+
+export const createRepositories = (config: PersistenceConfig): Repositories => {
+    if (config.backend === 'rest') {
+        return {
+            licenses: createRestRepository<License>(config.apiBaseUrl, 'licenses'),
+            policies: createRestRepository<CompliancePolicy>(config.apiBaseUrl, 'policies'),
+            regulatoryUpdates: createRestRepository<RegulatoryUpdate>(config.apiBaseUrl, 'regulatory-updates'),
+            complianceChecks: createRestRepository<ComplianceCheckResult>(config.apiBaseUrl, 'compliance-checks'),
+            riskAssessments: createRestRepository<RiskAssessment>(config.apiBaseUrl, 'risk-assessments'),
+            jurisdictions: createRestRepository<Jurisdiction>(config.apiBaseUrl, 'jurisdictions'),
+            regulators: createRestRepository<Regulator>(config.apiBaseUrl, 'regulators'),
+            attestationCampaigns: createRestRepository<AttestationCampaign>(config.apiBaseUrl, 'attestation-campaigns'),
+            archivedLicenses: createRestRepository<License>(config.apiBaseUrl, 'archived-licenses'),
+            auditLog: createRestRepository<AuditLogEntry>(config.apiBaseUrl, 'audit-log'),
+            policyRevisions: createRestRepository<PolicyRevision>(config.apiBaseUrl, 'policy-revisions'),
+            approvalChains: createRestRepository<ApprovalChain>(config.apiBaseUrl, 'approval-chains'),
+            regulatoryFeeds: createRestRepository<RegulatoryFeed>(config.apiBaseUrl, 'regulatory-feeds'),
+            reminderPreferences: createRestRepository<ReminderPreferences>(config.apiBaseUrl, 'reminder-preferences'),
+            notifications: createRestRepository<InboxNotification>(config.apiBaseUrl, 'notifications'),
+        };
+    }
+
+    // Local storage is seeded with the mock data the first time a collection is read.
+    return {
+        licenses: createLocalStorageRepository<License>('licenses', mockLicenses),
+        policies: createLocalStorageRepository<CompliancePolicy>('policies', mockCompliancePolicies),
+        regulatoryUpdates: createLocalStorageRepository<RegulatoryUpdate>('regulatoryUpdates', mockRegulatoryUpdates),
+        complianceChecks: createLocalStorageRepository<ComplianceCheckResult>('complianceChecks', mockComplianceCheckHistory),
+        riskAssessments: createLocalStorageRepository<RiskAssessment>('riskAssessments', mockRiskAssessments),
+        jurisdictions: createLocalStorageRepository<Jurisdiction>('jurisdictions', mockJurisdictions),
+        regulators: createLocalStorageRepository<Regulator>('regulators', mockRegulators),
+        attestationCampaigns: createLocalStorageRepository<AttestationCampaign>('attestationCampaigns', mockAttestationCampaigns),
+        archivedLicenses: createLocalStorageRepository<License>('archivedLicenses', []),
+        auditLog: createLocalStorageRepository<AuditLogEntry>('auditLog', []),
+        policyRevisions: createLocalStorageRepository<PolicyRevision>('policyRevisions', mockPolicyRevisions),
+        approvalChains: createLocalStorageRepository<ApprovalChain>('approvalChains', []),
+        regulatoryFeeds: createLocalStorageRepository<RegulatoryFeed>('regulatoryFeeds', mockRegulatoryFeeds),
+        reminderPreferences: createLocalStorageRepository<ReminderPreferences>('reminderPreferences', []),
+        notifications: createLocalStorageRepository<InboxNotification>('notifications', []),
+    };
+};
+
+export const repositories = createRepositories(persistenceConfig);
@@ -0,0 +1,33 @@
+import type { Repository } from './repository';
+
+const request = async <R,>(url: string, init?: RequestInit): Promise<R> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+    });
+    if (!response.ok) {
+        throw new Error(`${init?.method || 'GET'} ${url} failed with status ${response.status}`);
+    }
+    if (response.status === 204) return undefined as R;
+    return response.json() as Promise<R>;
+};
+
+export const createRestRepository = <T extends { id: string }>(baseUrl: string, resource: string): Repository<T> => {
+    const collectionUrl = `${baseUrl.replace(/\/$/, '')}/${resource}`;
+    const itemUrl = (id: string) => `${collectionUrl}/${encodeURIComponent(id)}`;
+
+    return {
+        list: () => request<T[]>(collectionUrl),
+        get: async (id) => {
+            const response = await fetch(itemUrl(id));
+            if (response.status === 404) return undefined;
+            if (!response.ok) {
+                throw new Error(`GET ${itemUrl(id)} failed with status ${response.status}`);
+            }
+            return response.json() as Promise<T>;
+        },
+        create: (item) => request<T>(collectionUrl, { method: 'POST', body: JSON.stringify(item) }),
+        update: (item) => request<T>(itemUrl(item.id), { method: 'PUT', body: JSON.stringify(item) }),
+        remove: (id) => request<void>(itemUrl(id), { method: 'DELETE' }),
+    };
+};
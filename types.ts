@@ -1,11 +1,11 @@
 export interface License {
     id: string;
     name: string;
-    jurisdiction: string;
     status: 'Active' | 'Expired' | 'Pending Renewal' | 'Revoked' | 'Suspended';
     expiryDate: string; // ISO string
     issueDate: string; // ISO string
-    regulatoryBody: string;
+    regulatoryBody: string; // Display name; regulatorId is the link into the regulator directory
+    regulatorId?: string; // The issuing Regulator
     licenseNumber: string;
     scope: string; // e.g., "Money Transmitter", "Payment Institution"
     renewalFrequencyMonths: number;
@@ -18,7 +18,9 @@ export interface License {
     renewalCostUSD: number;
     lastRenewalDate: string; // ISO string
     nextRenewalReminderDate: string; // ISO string
-    jurisdictionId: string; // To link to a predefined list of jurisdictions
+    jurisdictionId: string; // Resolved through the jurisdiction registry (services/jurisdictionRegistry)
+    renewals?: LicenseRenewal[]; // Renewal workflows, newest first; at most one is In Progress
+    passports?: PassportNotification[]; // EEA licenses only: notifications into other member states
 }
 
 export interface LicenseDocument {
@@ -29,6 +31,55 @@ export interface LicenseDocument {
     uploadedBy: string;
     uploadDate: string; // ISO string
     version: string;
+    regulatorId?: string; // The Regulator a Correspondence document was exchanged with
+}
+
+// A passporting notification from an EEA license's home regulator into another member state.
+export interface PassportNotification {
+    id: string;
+    hostJurisdictionId: string; // EEA member state the license is passported into
+    mode: 'Freedom of Services' | 'Branch' | 'Agent';
+    status: 'Planned' | 'Notified' | 'Active' | 'Refused' | 'Withdrawn';
+    notificationDate?: string; // ISO string; when the home regulator sent the notification to the host state
+    effectiveDate?: string; // ISO string; when we may start operating in the host state
+    conditions: string; // Host-state conditions, e.g. local AML reporting or a central contact point
+    updatedBy: string;
+    updatedDate: string; // ISO string
+}
+
+export type RenewalStageName = 'Preparation' | 'Document Collection' | 'Filing' | 'Regulator Review';
+
+export interface LicenseRenewal {
+    id: string;
+    status: 'In Progress' | 'Completed' | 'Cancelled';
+    openedBy: string;
+    openedDate: string; // ISO string
+    deadline: string; // ISO string; the expiry date being renewed
+    stages: RenewalStage[];
+    checklist: RenewalChecklistItem[];
+    closedDate?: string; // ISO string, set on completion or cancellation
+    closedBy?: string;
+    newExpiryDate?: string; // ISO string, set on completion
+}
+
+export interface RenewalStage {
+    name: RenewalStageName;
+    owner: string;
+    dueDate: string; // ISO string
+    status: 'Pending' | 'In Progress' | 'Completed';
+    completedDate?: string; // ISO string
+    completedBy?: string;
+}
+
+export interface RenewalChecklistItem {
+    id: string;
+    kind: 'Document' | 'Filing';
+    description: string;
+    stage: RenewalStageName; // Must be done before this stage can be completed
+    required: boolean;
+    done: boolean;
+    completedBy?: string;
+    completedDate?: string; // ISO string
 }
 
 export interface LicenseAuditEntry {
@@ -37,6 +88,13 @@ export interface LicenseAuditEntry {
     action: string; // e.g., "Created", "Updated", "Document Uploaded", "Status Changed"
     changerId: string;
     details: string;
+    changes?: FieldChange[]; // Field-level before/after values for updates
+}
+
+export interface FieldChange {
+    field: string;
+    before: string;
+    after: string;
 }
 
 export interface CompliancePolicy {
@@ -54,6 +112,92 @@ export interface CompliancePolicy {
     lastUpdatedBy: string;
     lastUpdateDate: string; // ISO string
     relatedLicenses: string[]; // IDs of licenses this policy affects
+    approvals?: PolicyApprovalRound[]; // Oldest first; the last one is current while the policy is Under Review
+}
+
+// --- Policy Approval ---
+// One step of the approval chain, e.g. "Department Head". Any user holding one of the roles may decide it.
+export interface ApprovalStep {
+    id: string;
+    name: string;
+    approverRoles: UserRole[];
+    sameDepartment: boolean; // The approver must work in the policy's responsible department
+}
+
+export interface ApprovalChain {
+    id: string;
+    steps: ApprovalStep[]; // Decided in order
+    updatedBy: string;
+    updatedDate: string; // ISO string
+}
+
+export interface ApprovalDecision {
+    stepId: string;
+    decision: 'Approved' | 'Rejected';
+    decidedBy: string;
+    decidedDate: string; // ISO string
+    comments: string;
+}
+
+// A draft's trip through the chain. Submitting starts a round; a rejection or an edit ends it.
+export interface PolicyApprovalRound {
+    id: string;
+    steps: ApprovalStep[]; // The chain as it was when the draft was submitted
+    decisions: ApprovalDecision[];
+    submittedBy: string;
+    submittedDate: string; // ISO string
+    outcome: 'Pending' | 'Approved' | 'Rejected' | 'Withdrawn';
+}
+
+// The parts of a policy that make up a version. Links to licenses and last-updated stamps are not
+// part of the text a revision preserves.
+export type PolicySnapshot = Pick<CompliancePolicy,
+    'name' | 'description' | 'category' | 'version' | 'effectiveDate' | 'reviewDate' | 'documents' | 'applicableJurisdictions' | 'responsibleDepartment' | 'status'>;
+
+// An immutable copy of a policy as saved. One is appended whenever the policy's content or status
+// changes; revisions are never edited or deleted, even when the policy is.
+export interface PolicyRevision {
+    id: string;
+    policyId: string;
+    revisionNumber: number; // 1, 2, 3... per policy
+    savedBy: string;
+    savedDate: string; // ISO string
+    note?: string; // Why it was saved, when the change came with an explanation, e.g. a restore
+    snapshot: PolicySnapshot;
+}
+
+// --- Policy Attestation ---
+// Who a campaign is for. People matching any department or role, plus anyone listed by ID.
+export interface AttestationAudience {
+    departments: string[];
+    roles: UserRole[];
+    userIds: string[];
+}
+
+export interface AttestationAssignment {
+    userId: string;
+    userName: string; // As at launch, so the evidence reads the same if the directory changes
+    department: string;
+    acknowledgedDate?: string; // ISO string
+    remindersSent: string[]; // ISO strings, one per reminder sent from the campaign
+}
+
+// Asks a group of people to acknowledge one version of a policy by a due date. The people are
+// fixed when the campaign is launched.
+export interface AttestationCampaign {
+    id: string;
+    name: string; // e.g. "AML Policy 2026 attestation"
+    policyId: string;
+    policyName: string; // As at launch
+    policyVersion: string; // The version being acknowledged
+    responsibleDepartment: string; // The policy's, as at launch; completion is reported per department
+    audience: AttestationAudience;
+    assignments: AttestationAssignment[];
+    launchedBy: string;
+    launchedDate: string; // ISO string
+    dueDate: string; // ISO string
+    status: 'Open' | 'Closed';
+    closedDate?: string; // ISO string
 }
 
 export interface PolicyDocument {
@@ -69,6 +213,7 @@ export interface RegulatoryUpdate {
     id: string;
     title: string;
     source: string; // e.g., "FinCEN", "FCA", "EU Parliament"
+    regulatorId?: string; // Set when the source is a Regulator in the directory
     publicationDate: string; // ISO string
     summary: string;
     fullTextUrl: string;
@@ -79,6 +224,34 @@ export interface RegulatoryUpdate {
     impactAssessmentNotes: string;
     actionItems: ActionItem[];
     lastUpdated: string; // ISO string
+    feedId?: string; // Set when ingested from a RegulatoryFeed
+    feedEntryId?: string; // The entry's guid/id in that feed, for de-duplication
+}
+
+// --- Regulatory Feeds ---
+export type FeedFormat = 'RSS' | 'Atom' | 'JSON'; // JSON means JSON Feed 1.1 (https://jsonfeed.org)
+
+export interface FeedPollResult {
+    date: string; // ISO string
+    added: number;
+    duplicates: number;
+    skipped: number; // Entries without a title, link or readable date
+    error?: string; // The whole poll failed, e.g. the feed could not be fetched or parsed
+}
+
+// A regulator's publication feed, polled for new regulatory updates.
+export interface RegulatoryFeed {
+    id: string;
+    name: string;
+    url: string;
+    format: FeedFormat;
+    source: string; // Shown as RegulatoryUpdate.source, e.g. "FCA"
+    regulatorId?: string; // The jurisdictions it supervises apply to every entry
+    jurisdictionIds: string[]; // Also applied to every entry, for feeds not tied to one regulator
+    defaultSeverity: RegulatoryUpdate['severity'];
+    assignedTo: string; // Department or person new updates are assigned to
+    enabled: boolean;
+    lastPoll?: FeedPollResult;
 }
 
 export interface ActionItem {
@@ -101,7 +274,48 @@ export interface ComplianceCheckResult {
     reviewedBy?: string;
     reviewDate?: string; // ISO string
     notes?: string;
+    reviewOutcome?: 'Accepted' | 'Overridden'; // Whether the reviewer changed the AI risk level or suggested licenses
     associatedFeatureId?: string; // If linked to a product feature in another system
+    assessment?: ComplianceAssessment; // Validated structured AI output the fields above are derived from
+    riskAssessmentId?: string; // Risk assessment drafted from this check
+}
+
+export interface ComplianceAssessment {
+    summary: string;
+    riskLevel: 'Low' | 'Medium' | 'High' | 'Critical';
+    riskRationale: string;
+    suggestedLicenses: SuggestedLicense[];
+    impactedComplianceAreas: string[];
+    identifiedRisks: AssessedRisk[];
+    mitigations: string[]; // Overall strategies, in addition to per-risk controls
+    coveredBy: LicenseCoverage[]; // Licenses we already hold that cover part of the feature
+    coverageGaps: CoverageGap[];
+}
+
+export interface LicenseCoverage {
+    licenseId: string;
+    licenseName: string;
+    jurisdiction: string;
+    reason: string;
+}
+
+export interface CoverageGap {
+    jurisdiction: string;
+    requirement: string;
+}
+
+export interface SuggestedLicense {
+    jurisdiction: string;
+    licenseType: string;
+    regulator: string;
+    rationale: string;
+}
+
+export interface AssessedRisk {
+    description: string;
+    likelihood: 'Low' | 'Medium' | 'High';
+    impact: 'Low' | 'Medium' | 'High';
+    mitigations: string[];
 }
 
 export interface RiskAssessment {
@@ -114,6 +328,7 @@ export interface RiskAssessment {
     mitigationPlan: string;
     status: 'Completed' | 'Pending' | 'Rejected';
     reviewDate: string;
+    sourceCheckId?: string; // AI compliance check this assessment was drafted from
 }
 
 export interface RiskItem {
@@ -129,8 +344,129 @@ export interface RiskItem {
 export interface Jurisdiction {
     id: string;
     name: string;
-    countryCode: string;
-    currency: string;
-    isEEA: boolean;
-    primaryRegulator: string;
+    countryCode: string; // ISO 3166-1 alpha-2, or "EEA" for the European Economic Area grouping
+    currency: string; // ISO 4217
+    isEEA: boolean; // Kept in step with the hierarchy: true for the EEA and anything under it
+    primaryRegulator: string; // Display name of primaryRegulatorId
+    primaryRegulatorId?: string; // Regulator in the directory; others covering it list it in Regulator.jurisdictionIds
+    level?: 'Supranational' | 'Country' | 'Subdivision'; // Treated as Country when missing
+    parentId?: string; // e.g. a US state's country, or an EEA member's EEA grouping
+    subdivisionCode?: string; // ISO 3166-2, e.g. "US-CA"
+    holidays?: JurisdictionHoliday[]; // Own public holidays; a subdivision also observes its country's
+}
+
+export interface JurisdictionHoliday {
+    date: string; // yyyy-MM-dd
+    name: string;
+}
+
+// A supervisory authority. Licenses, regulatory updates and correspondence point at it by ID.
+export interface Regulator {
+    id: string;
+    shortName: string; // e.g. "FCA"; what License.regulatoryBody and RegulatoryUpdate.source show
+    name: string; // e.g. "Financial Conduct Authority"
+    jurisdictionIds: string[]; // Jurisdictions it supervises
+    website: string;
+    contacts: RegulatorContact[];
+    portals: RegulatorPortal[];
+    filings: RegulatoryFiling[]; // Its filing calendar
+    notes: string;
+}
+
+export interface RegulatorContact {
+    id: string;
+    name: string;
+    role: string; // e.g. "Case Officer", "Supervision Team"
+    email: string;
+    phone?: string;
+}
+
+export interface RegulatorPortal {
+    id: string;
+    name: string; // e.g. "RegData", "Connect"
+    url: string;
+    purpose: string; // e.g. "Regulatory returns"
+}
+
+export interface RegulatoryFiling {
+    id: string;
+    name: string; // e.g. "Annual Financial Crime Report (REP-CRIM)"
+    frequency: 'Monthly' | 'Quarterly' | 'Semi-Annual' | 'Annual' | 'One-off';
+    nextDueDate: string; // ISO string
+    portalId?: string; // Where it is submitted
+    owner: string; // Person or department
+    lastSubmittedDate?: string; // ISO string
+}
+
+export type UserRole = 'Viewer' | 'Analyst' | 'Compliance Officer' | 'Admin';
+
+export interface User {
+    id: string;
+    name: string;
+    email: string;
+    role: UserRole;
+    department: string;
+}
+
+// Actions gated by role; see utils/permissions.ts for the role matrix.
+export type Permission =
+    | 'createLicense' | 'editLicense' | 'deleteLicense' | 'uploadLicenseDocument'
+    | 'manageLicenseRenewal' | 'completeLicenseRenewal'
+    | 'editPolicy' | 'publishPolicy' | 'deletePolicy'
+    | 'editRegulatoryUpdate' | 'closeRegulatoryUpdate'
+    | 'editRiskAssessment' | 'signOffRiskAssessment' | 'deleteRiskAssessment'
+    | 'runComplianceCheck' | 'signOffComplianceCheck'
+    | 'manageJurisdictions' | 'manageRegulators' | 'manageApprovalChain' | 'manageAttestations'
+    | 'manageRegulatoryFeeds'
+    | 'viewAuditLog';
+
+export type AuditEntityType = 'License' | 'CompliancePolicy' | 'RegulatoryUpdate' | 'ActionItem' | 'ComplianceCheckResult' | 'RiskAssessment' | 'Jurisdiction' | 'Regulator' | 'AttestationCampaign' | 'ApprovalChain' | 'RegulatoryFeed';
+
+export interface AuditLogEntry {
+    id: string;
+    sequence: number; // Position in the hash chain, starting at 1
+    timestamp: string; // ISO string
+    entityType: AuditEntityType;
+    entityId: string;
+    entityLabel: string; // Name/title at the time of the change
+    parentEntityId?: string; // e.g. the RegulatoryUpdate an ActionItem belongs to
+    action: string; // e.g., "Created", "Updated", "Deleted"
+    actor: string;
+    details: string;
+    changes: FieldChange[];
+    previousHash: string;
+    hash: string; // SHA-256 over this entry's content and previousHash
+}
+
+// A pointer to a record that can be opened from elsewhere in the app, e.g. from a calendar entry or a notification.
+export interface RecordLink {
+    type: 'license' | 'policy' | 'regulatoryUpdate' | 'riskAssessment' | 'regulator';
+    id: string;
+}
+
+export type ReminderCategory = 'Renewal Reminder' | 'Overdue Action Item' | 'Policy Review Overdue' | 'High Severity Update' | 'Attestation Due';
+
+export type NotificationChannelKind = 'In-App' | 'Email' | 'Webhook';
+
+export interface ReminderPreferences {
+    id: string; // Same as userId; one record per user
+    userId: string;
+    channels: NotificationChannelKind[];
+    categories: ReminderCategory[];
+    renewalLeadDays: number; // Start reminding this many days before nextRenewalReminderDate
+    onlyAssignedToMe: boolean; // Skip items owned by other people or departments
+    webhookUrl?: string;
+    lastDigestDate?: string; // ISO string; digests go out at most once a day
+}
+
+// An entry in a user's in-app inbox.
+export interface InboxNotification {
+    id: string;
+    userId: string;
+    category: ReminderCategory;
+    title: string;
+    body: string;
+    link?: RecordLink;
+    createdDate: string; // ISO string
+    read: boolean;
 }
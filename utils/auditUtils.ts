@@ -0,0 +1,122 @@
+import { ActionItem, AuditEntityType, AuditLogEntry, FieldChange, License, LicenseAuditEntry } from '../types';
+import { generateId } from './idUtils';
+
+// Renders a field value the way it is shown in audit diffs, so "12" and 12 compare equal.
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length === 0 ? '(none)' : value.map(formatAuditValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const diffFields = <T extends object>(before: T, after: T, ignoredFields: (keyof T)[] = []): FieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof T)[]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (ignoredFields.includes(field)) return;
+    const beforeValue = formatAuditValue(before[field]);
+    const afterValue = formatAuditValue(after[field]);
+    if (beforeValue !== afterValue) {
+      changes.push({ field: String(field), before: beforeValue, after: afterValue });
+    }
+  });
+  return changes;
+};
+
+export const createLicenseAuditEntry = (action: string, changerId: string, details: string, changes?: FieldChange[]): LicenseAuditEntry => ({
+  id: `AUD-${generateId()}`,
+  timestamp: new Date().toISOString(),
+  action,
+  changerId,
+  details,
+  ...(changes && changes.length > 0 ? { changes } : {}),
+});
+
+// Works out which audit entry an edit to a license deserves. Returns null when nothing changed.
+export const describeLicenseChange = (before: License, after: License, changerId: string): LicenseAuditEntry | null => {
+  const changes = diffFields(before, after, ['auditTrail', 'documents', 'renewals']);
+  const addedDocuments = after.documents.filter(doc => !before.documents.some(existing => existing.id === doc.id));
+  const removedDocuments = before.documents.filter(doc => !after.documents.some(existing => existing.id === doc.id));
+
+  if (addedDocuments.length > 0 && changes.length === 0 && removedDocuments.length === 0) {
+    return createLicenseAuditEntry('Document Uploaded', changerId, `Uploaded ${addedDocuments.map(doc => `"${doc.name}" (${doc.type})`).join(', ')}.`);
+  }
+
+  if (addedDocuments.length > 0 || removedDocuments.length > 0) {
+    changes.push({
+      field: 'documents',
+      before: formatAuditValue(before.documents.map(doc => doc.name)),
+      after: formatAuditValue(after.documents.map(doc => doc.name)),
+    });
+  }
+  if (changes.length === 0) return null;
+
+  if (changes.length === 1 && changes[0].field === 'status') {
+    return createLicenseAuditEntry('Status Changed', changerId, `Status changed from ${changes[0].before} to ${changes[0].after}.`, changes);
+  }
+  return createLicenseAuditEntry('Updated', changerId, `Updated ${changes.map(change => change.field).join(', ')}.`, changes);
+};
+
+// --- Cross-entity Audit Log ---
+export type AuditLogDraft = Omit<AuditLogEntry, 'id' | 'sequence' | 'timestamp' | 'previousHash' | 'hash'>;
+
+type AuditableRecord = { id: string };
+
+// Nested collections that are audited separately or already carry their own history.
+// Renewal steps are always recorded with an explicit action, so their raw diff is skipped.
+const NESTED_FIELDS = ['auditTrail', 'actionItems', 'renewals'];
+
+const labelOf = (record: AuditableRecord): string => {
+  const fields = record as unknown as Record<string, unknown>;
+  const label = fields.name || fields.title || fields.scope || fields.featureDescription || fields.description;
+  return typeof label === 'string' && label ? label : record.id;
+};
+
+const actionItemsOf = (record: AuditableRecord | undefined): ActionItem[] =>
+  ((record as unknown as { actionItems?: ActionItem[] } | undefined)?.actionItems) || [];
+
+const diffActionItems = (parentId: string, before: ActionItem[], after: ActionItem[], actor: string): AuditLogDraft[] => {
+  const drafts: AuditLogDraft[] = [];
+  after.forEach(item => {
+    const previous = before.find(existing => existing.id === item.id);
+    if (!previous) {
+      drafts.push({ entityType: 'ActionItem', entityId: item.id, entityLabel: labelOf(item), parentEntityId: parentId, action: 'Created', actor, details: `Action item added to ${parentId}.`, changes: [] });
+      return;
+    }
+    const changes = diffFields(previous, item);
+    if (changes.length > 0) {
+      drafts.push({ entityType: 'ActionItem', entityId: item.id, entityLabel: labelOf(item), parentEntityId: parentId, action: 'Updated', actor, details: `Updated ${changes.map(change => change.field).join(', ')}.`, changes });
+    }
+  });
+  before
+    .filter(item => !after.some(existing => existing.id === item.id))
+    .forEach(item => drafts.push({ entityType: 'ActionItem', entityId: item.id, entityLabel: labelOf(item), parentEntityId: parentId, action: 'Deleted', actor, details: `Action item removed from ${parentId}.`, changes: [] }));
+  return drafts;
+};
+
+// Describes one store mutation as audit log drafts: one for the record itself plus one per changed action item.
+// Pass `before` undefined for a creation and `after` undefined for a deletion.
+export const buildAuditDrafts = (
+  entityType: AuditEntityType,
+  before: AuditableRecord | undefined,
+  after: AuditableRecord | undefined,
+  actor: string,
+  action?: string,
+  details?: string,
+): AuditLogDraft[] => {
+  const record = (after || before) as AuditableRecord;
+  const drafts: AuditLogDraft[] = [];
+
+  if (!before) {
+    drafts.push({ entityType, entityId: record.id, entityLabel: labelOf(record), action: action || 'Created', actor, details: details || `${entityType} "${labelOf(record)}" created.`, changes: [] });
+  } else if (!after) {
+    drafts.push({ entityType, entityId: record.id, entityLabel: labelOf(record), action: action || 'Deleted', actor, details: details || `${entityType} "${labelOf(record)}" deleted.`, changes: [] });
+  } else {
+    const changes = diffFields(before, after, NESTED_FIELDS as (keyof AuditableRecord)[]);
+    if (changes.length > 0 || action) {
+      drafts.push({ entityType, entityId: record.id, entityLabel: labelOf(record), action: action || 'Updated', actor, details: details || `Updated ${changes.map(change => change.field).join(', ')}.`, changes });
+    }
+  }
+
+  return [...drafts, ...diffActionItems(record.id, actionItemsOf(before), actionItemsOf(after), actor)];
+};
@@ -23,6 +23,28 @@ export const addDays = (date: Date, days: number): Date => {
   return d;
 };
 
+export const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+// Weeks start on Monday.
+export const startOfWeek = (date: Date): Date => {
+  const d = startOfDay(date);
+  return addDays(d, -((d.getDay() + 6) % 7));
+};
+
+export const startOfMonth = (date: Date): Date => {
+  const d = startOfDay(date);
+  d.setDate(1);
+  return d;
+};
+
+export const isSameDay = (a: Date, b: Date): boolean => {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+};
+
 export const format = (date: Date, formatStr: string): string => {
   if (isNaN(date.getTime())) return 'Invalid Date';
 
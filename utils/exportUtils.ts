@@ -0,0 +1,83 @@
+import { addDays, format, parseISO } from './dateUtils';
+
+const escapeCsvValue = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: unknown[][]): string => {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// --- iCalendar (RFC 5545) ---
+export interface IcsEvent {
+  uid: string; // Must stay the same across exports so calendar clients update rather than duplicate
+  date: string; // ISO string; exported as an all-day event on that date
+  summary: string;
+  description?: string;
+  categories?: string[];
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 section 3.3.11).
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuing with CRLF plus a space (section 3.1).
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines lose one octet to the leading space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: Date): string => format(date, 'yyyy-MM-dd').replace(/-/g, '');
+
+const icsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const toIcsCalendar = (calendarName: string, events: IcsEvent[], now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Compliance Hub//Compliance Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+  events.forEach(event => {
+    const start = parseISO(event.date);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(start, 1))}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      ...(event.categories && event.categories.length > 0 ? [`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,56 @@
+import { AuditLogEntry } from '../types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(digest);
+};
+
+// Fixed field order so the same entry always hashes the same way, whatever order its keys were stored in.
+const canonicalize = (entry: Omit<AuditLogEntry, 'hash'>): string => JSON.stringify([
+  entry.id,
+  entry.sequence,
+  entry.timestamp,
+  entry.entityType,
+  entry.entityId,
+  entry.entityLabel,
+  entry.parentEntityId || null,
+  entry.action,
+  entry.actor,
+  entry.details,
+  entry.changes.map(change => [change.field, change.before, change.after]),
+  entry.previousHash,
+]);
+
+export const computeEntryHash = (entry: Omit<AuditLogEntry, 'hash'>): Promise<string> => sha256(canonicalize(entry));
+
+export interface ChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  brokenAtSequence?: number;
+  reason?: string;
+}
+
+// Expects entries sorted by sequence. Any edited, removed or reordered entry breaks the chain from that point.
+export const verifyAuditChain = async (entries: AuditLogEntry[]): Promise<ChainVerification> => {
+  let previousHash = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.sequence !== i + 1) {
+      return { valid: false, checkedEntries: i, brokenAtSequence: entry.sequence, reason: `Expected sequence ${i + 1}, found ${entry.sequence}.` };
+    }
+    if (entry.previousHash !== previousHash) {
+      return { valid: false, checkedEntries: i, brokenAtSequence: entry.sequence, reason: 'Previous hash does not match the preceding entry.' };
+    }
+    const { hash, ...content } = entry;
+    if (await computeEntryHash(content) !== hash) {
+      return { valid: false, checkedEntries: i, brokenAtSequence: entry.sequence, reason: 'Entry content does not match its hash.' };
+    }
+    previousHash = hash;
+  }
+  return { valid: true, checkedEntries: entries.length };
+};
@@ -0,0 +1,3 @@
+let nextId = 1000;
+
+export const generateId = () => `_${nextId++}_${Date.now()}`;
@@ -0,0 +1,39 @@
+import { License } from '../types';
+import { parseISO } from './dateUtils';
+
+// Statuses a person decides on. Everything else is derived from dates and renewals.
+export const MANUAL_LICENSE_STATUSES: License['status'][] = ['Revoked', 'Suspended'];
+
+export const isManualStatus = (status: License['status']): boolean => MANUAL_LICENSE_STATUSES.includes(status);
+
+// The status the dates call for, ignoring any manual status: Expired once the expiry date has
+// passed, Pending Renewal from the reminder date or while a renewal is open, otherwise Active.
+export const deriveLicenseStatus = (license: License, now: Date = new Date()): License['status'] => {
+  if (parseISO(license.expiryDate) <= now) return 'Expired';
+  const renewalOpen = (license.renewals || []).some(renewal => renewal.status === 'In Progress');
+  if (renewalOpen || (license.nextRenewalReminderDate && parseISO(license.nextRenewalReminderDate) <= now)) return 'Pending Renewal';
+  return 'Active';
+};
+
+export const computeLicenseStatus = (license: License, now: Date = new Date()): License['status'] =>
+  isManualStatus(license.status) ? license.status : deriveLicenseStatus(license, now);
+
+export interface LicenseStatusMismatch {
+  license: License;
+  stored: License['status'];
+  computed: License['status'];
+}
+
+export const findStatusMismatches = (licenses: License[], now: Date = new Date()): LicenseStatusMismatch[] =>
+  licenses
+    .map(license => ({ license, stored: license.status, computed: computeLicenseStatus(license, now) }))
+    .filter(mismatch => mismatch.stored !== mismatch.computed);
+
+export const describeStatusReason = (license: License, status: License['status']): string => {
+  switch (status) {
+    case 'Expired': return 'expiry date has passed';
+    case 'Pending Renewal': return (license.renewals || []).some(renewal => renewal.status === 'In Progress') ? 'a renewal is in progress' : 'renewal reminder date reached';
+    case 'Active': return 'within validity period';
+    default: return 'set manually';
+  }
+};
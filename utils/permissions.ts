@@ -0,0 +1,44 @@
+import { CompliancePolicy, Permission, RegulatoryUpdate, RiskAssessment, UserRole } from '../types';
+
+const ANALYST_PERMISSIONS: Permission[] = [
+  'createLicense', 'editLicense', 'uploadLicenseDocument',
+  'manageLicenseRenewal',
+  'editPolicy',
+  'editRegulatoryUpdate',
+  'editRiskAssessment',
+  'runComplianceCheck',
+  'viewAuditLog',
+];
+
+const COMPLIANCE_OFFICER_PERMISSIONS: Permission[] = [
+  ...ANALYST_PERMISSIONS,
+  'completeLicenseRenewal',
+  'publishPolicy',
+  'closeRegulatoryUpdate',
+  'signOffRiskAssessment', 'deleteRiskAssessment',
+  'signOffComplianceCheck',
+  'manageJurisdictions', 'manageRegulators', 'manageRegulatoryFeeds',
+  'manageAttestations',
+];
+
+// Viewers are read-only. Deleting licenses and policies, and changing who approves policies, is reserved for admins.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  'Viewer': [],
+  'Analyst': ANALYST_PERMISSIONS,
+  'Compliance Officer': COMPLIANCE_OFFICER_PERMISSIONS,
+  'Admin': [...COMPLIANCE_OFFICER_PERMISSIONS, 'deleteLicense', 'deletePolicy', 'manageApprovalChain'],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// --- Status transitions that need more than an edit permission ---
+// Policies only become Active through the approval chain, but taking one out of force by hand still needs publishPolicy.
+export const retiresPolicy = (previous: CompliancePolicy | undefined, next: CompliancePolicy): boolean =>
+  next.status === 'Retired' && previous?.status === 'Active';
+
+export const closesRegulatoryUpdate = (previous: RegulatoryUpdate | undefined, next: RegulatoryUpdate): boolean =>
+  next.status === 'Implemented' && previous?.status !== 'Implemented';
+
+export const signsOffRiskAssessment = (previous: RiskAssessment | undefined, next: RiskAssessment): boolean =>
+  next.status === 'Completed' && previous?.status !== 'Completed';
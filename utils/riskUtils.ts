@@ -0,0 +1,21 @@
+import { RiskItem } from '../types';
+
+type RiskLevel = RiskItem['inherentRisk'];
+
+const LEVEL_SCORE: Record<RiskItem['likelihood'], number> = { 'Low': 1, 'Medium': 2, 'High': 3 };
+const RISK_ORDER: Record<RiskLevel, number> = { 'Low': 1, 'Medium': 2, 'High': 3, 'Critical': 4 };
+
+// Likelihood x impact on a 3x3 matrix.
+export const calculateInherentRisk = (likelihood: RiskItem['likelihood'], impact: RiskItem['impact']): RiskLevel => {
+  const score = (LEVEL_SCORE[likelihood] || 0) * (LEVEL_SCORE[impact] || 0);
+  return score >= 6 ? 'Critical' : score >= 4 ? 'High' : score >= 2 ? 'Medium' : 'Low';
+};
+
+// Simplified: any mitigation control reduces the inherent risk by one level.
+export const calculateResidualRisk = (inherentRisk: RiskLevel, mitigationControls: string[]): RiskLevel => {
+  if (mitigationControls.length === 0 || inherentRisk === 'Low') return inherentRisk;
+  return inherentRisk === 'Critical' ? 'High' : inherentRisk === 'High' ? 'Medium' : 'Low';
+};
+
+export const highestRisk = (levels: RiskLevel[]): RiskLevel =>
+  levels.reduce<RiskLevel>((max, level) => (RISK_ORDER[level] > RISK_ORDER[max] ? level : max), 'Low');
@@ -0,0 +1,47 @@
+// --- Line Diff ---
+// Side-by-side diff of two texts. Lines are matched by longest common subsequence; runs of removed
+// and added lines between matches are paired up as changed rows.
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left?: string;
+  right?: string;
+}
+
+export const diffLines = (left: string[], right: string[]): DiffRow[] => {
+  // common[i][j] = length of the longest common subsequence of left[i..] and right[j..]
+  const common = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      common[i][j] = left[i] === right[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const kind = k >= added.length ? 'removed' : k >= removed.length ? 'added' : 'changed';
+      rows.push({ kind, left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ kind: 'same', left: left[i], right: right[j] });
+      i++;
+      j++;
+    } else if (j >= right.length || (i < left.length && common[i + 1][j] >= common[i][j + 1])) {
+      removed.push(left[i++]);
+    } else {
+      added.push(right[j++]);
+    }
+  }
+  flush();
+  return rows;
+};
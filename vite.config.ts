@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.PERSISTENCE_BACKEND': JSON.stringify(env.PERSISTENCE_BACKEND),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.MAIL_RELAY_URL': JSON.stringify(env.MAIL_RELAY_URL),
+        'process.env.CALENDAR_FEED_URL': JSON.stringify(env.CALENDAR_FEED_URL)
       },
       resolve: {
         alias: {